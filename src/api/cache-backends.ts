@@ -0,0 +1,324 @@
+import NodeCache from 'node-cache';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { CacheBackendStats } from '../types/api.js';
+
+// Storage behind CacheManager. TTLs are in seconds; a TTL of 0 means the
+// entry never expires. getTtl returns the expiry as a ms timestamp (0 = never).
+// Reads and writes are async so a disk-backed store never blocks the event loop;
+// has/keys/getTtl answer from an in-memory index.
+export interface CacheBackend {
+  readonly name: string;
+  readonly persistent: boolean;
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T, ttlSeconds: number): Promise<boolean>;
+  del(keys: string[]): Promise<number>;
+  has(key: string): boolean;
+  keys(): string[];
+  getTtl(key: string): number | undefined;
+  flush(): Promise<void>;
+  getStats(): CacheBackendStats;
+}
+
+export class MemoryCacheBackend implements CacheBackend {
+  readonly name = 'memory';
+  readonly persistent = false;
+  private cache: NodeCache;
+
+  constructor(ttlSeconds: number = 300, checkPeriod: number = 60, maxKeys: number = 1000) {
+    this.cache = new NodeCache({
+      stdTTL: ttlSeconds,
+      checkperiod: checkPeriod,
+      maxKeys,
+      deleteOnExpire: true,
+      useClones: false,
+    });
+
+    this.setupEventHandlers();
+  }
+
+  private setupEventHandlers(): void {
+    this.cache.on('expired', (key, _value) => {
+      console.error(`[${new Date().toISOString()}] INFO: Cache key expired: ${key}`);
+    });
+
+    this.cache.on('flush', () => {
+      console.error(`[${new Date().toISOString()}] INFO: Cache flushed`);
+    });
+
+    this.cache.on('set', (key, _value) => {
+      if (process.env.NODE_ENV === 'development' || process.env.DEBUG) {
+        console.error(`[${new Date().toISOString()}] DEBUG: Cache key set: ${key}`);
+      }
+    });
+
+    this.cache.on('del', (key, _value) => {
+      if (process.env.NODE_ENV === 'development' || process.env.DEBUG) {
+        console.error(`[${new Date().toISOString()}] DEBUG: Cache key deleted: ${key}`);
+      }
+    });
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    return this.cache.get<T>(key);
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds: number): Promise<boolean> {
+    try {
+      return this.cache.set(key, value, ttlSeconds);
+    } catch (error) {
+      // NodeCache throws once maxKeys is reached
+      console.error(`[${new Date().toISOString()}] WARN: Memory cache set failed for ${key}:`, error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+
+  async del(keys: string[]): Promise<number> {
+    return this.cache.del(keys);
+  }
+
+  has(key: string): boolean {
+    return this.cache.has(key);
+  }
+
+  keys(): string[] {
+    return this.cache.keys();
+  }
+
+  getTtl(key: string): number | undefined {
+    return this.cache.getTtl(key);
+  }
+
+  async flush(): Promise<void> {
+    this.cache.flushAll();
+  }
+
+  getSizeBreakdown(): { ksize: number; vsize: number } {
+    const { ksize, vsize } = this.cache.getStats();
+    return { ksize, vsize };
+  }
+
+  getStats(): CacheBackendStats {
+    const stats = this.cache.getStats();
+    return {
+      backend: this.name,
+      persistent: this.persistent,
+      keys: stats.keys,
+      hits: stats.hits,
+      misses: stats.misses,
+      hitRate: stats.hits / (stats.hits + stats.misses) || 0,
+      sizeBytes: stats.ksize + stats.vsize,
+    };
+  }
+}
+
+interface FileCacheEntry {
+  key: string;
+  value: unknown;
+  expiresAt: number; // ms timestamp, 0 = never
+  createdAt: number;
+}
+
+interface FileIndexEntry {
+  file: string;
+  expiresAt: number;
+  createdAt: number;
+  size: number;
+}
+
+// File-per-key cache on disk. An in-memory index of key -> file/expiry is
+// rebuilt from the directory at startup, so TTLs carry over between restarts.
+// Reads and writes wait for that scan; has/keys/getTtl see nothing until it ends.
+export class FileCacheBackend implements CacheBackend {
+  readonly name = 'file';
+  readonly persistent = true;
+  private index = new Map<string, FileIndexEntry>();
+  private ready: Promise<void>;
+  private tempCounter = 0;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(
+    private directory: string,
+    private maxKeys: number = 10000,
+  ) {
+    this.ready = this.loadIndex().catch(error => {
+      console.error(`[${new Date().toISOString()}] WARN: File cache index load failed for ${directory}:`, error instanceof Error ? error.message : error);
+    });
+  }
+
+  getDirectory(): string {
+    return this.directory;
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    await this.ready;
+    const entry = this.index.get(key);
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+
+    if (this.isExpired(entry)) {
+      await this.remove(key);
+      this.misses++;
+      return undefined;
+    }
+
+    try {
+      const content = JSON.parse(await fs.readFile(join(this.directory, entry.file), 'utf8')) as FileCacheEntry;
+      this.hits++;
+      return content.value as T;
+    } catch {
+      // Missing or corrupt file: drop it from the index
+      await this.remove(key);
+      this.misses++;
+      return undefined;
+    }
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds: number): Promise<boolean> {
+    await this.ready;
+    const now = Date.now();
+    const entry: FileCacheEntry = {
+      key,
+      value,
+      expiresAt: ttlSeconds > 0 ? now + ttlSeconds * 1000 : 0,
+      createdAt: now,
+    };
+
+    const file = this.fileNameFor(key);
+    const content = JSON.stringify(entry);
+
+    try {
+      // Write to a uniquely named temp file first so a crash never leaves a
+      // half-written entry and concurrent writes of one key cannot collide
+      const tempPath = join(this.directory, `${file}.${process.pid}.${++this.tempCounter}.tmp`);
+      await fs.writeFile(tempPath, content, 'utf8');
+      await fs.rename(tempPath, join(this.directory, file));
+    } catch (error) {
+      console.error(`[${new Date().toISOString()}] WARN: File cache set failed for ${key}:`, error instanceof Error ? error.message : error);
+      return false;
+    }
+
+    this.index.set(key, { file, expiresAt: entry.expiresAt, createdAt: now, size: content.length });
+    await this.evictIfNeeded();
+    return true;
+  }
+
+  async del(keys: string[]): Promise<number> {
+    await this.ready;
+    let count = 0;
+    for (const key of keys) {
+      if (this.index.has(key)) {
+        await this.remove(key);
+        count++;
+      }
+    }
+    return count;
+  }
+
+  has(key: string): boolean {
+    const entry = this.index.get(key);
+    return !!entry && !this.isExpired(entry);
+  }
+
+  keys(): string[] {
+    return Array.from(this.index.entries())
+      .filter(([, entry]) => !this.isExpired(entry))
+      .map(([key]) => key);
+  }
+
+  getTtl(key: string): number | undefined {
+    const entry = this.index.get(key);
+    return entry && !this.isExpired(entry) ? entry.expiresAt : undefined;
+  }
+
+  async flush(): Promise<void> {
+    await this.ready;
+    await Promise.all(Array.from(this.index.keys()).map(key => this.remove(key)));
+  }
+
+  getStats(): CacheBackendStats {
+    let sizeBytes = 0;
+    let permanentKeys = 0;
+    for (const entry of this.index.values()) {
+      sizeBytes += entry.size;
+      if (entry.expiresAt === 0) permanentKeys++;
+    }
+
+    return {
+      backend: this.name,
+      persistent: this.persistent,
+      keys: this.index.size,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: this.hits / (this.hits + this.misses) || 0,
+      sizeBytes,
+      permanentKeys,
+      location: this.directory,
+    };
+  }
+
+  private async loadIndex(): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    let loaded = 0;
+    let expired = 0;
+
+    for (const file of await fs.readdir(this.directory)) {
+      const path = join(this.directory, file);
+      if (file.endsWith('.tmp')) {
+        await fs.rm(path, { force: true });
+        continue;
+      }
+      if (!file.endsWith('.json')) continue;
+
+      try {
+        const content = JSON.parse(await fs.readFile(path, 'utf8')) as FileCacheEntry;
+        const entry: FileIndexEntry = {
+          file,
+          expiresAt: content.expiresAt,
+          createdAt: content.createdAt,
+          size: (await fs.stat(path)).size,
+        };
+        if (this.isExpired(entry)) {
+          await fs.rm(path, { force: true });
+          expired++;
+          continue;
+        }
+        this.index.set(content.key, entry);
+        loaded++;
+      } catch {
+        await fs.rm(path, { force: true });
+      }
+    }
+
+    console.error(`[${new Date().toISOString()}] INFO: File cache loaded from ${this.directory} (${loaded} keys, ${expired} expired removed)`);
+  }
+
+  private async evictIfNeeded(): Promise<void> {
+    if (this.index.size <= this.maxKeys) return;
+
+    // Drop expired entries first, then the oldest
+    const entries = Array.from(this.index.entries())
+      .sort(([, a], [, b]) => Number(this.isExpired(b)) - Number(this.isExpired(a)) || a.createdAt - b.createdAt);
+    const excess = this.index.size - this.maxKeys;
+    await Promise.all(entries.slice(0, excess).map(([key]) => this.remove(key)));
+  }
+
+  private async remove(key: string): Promise<void> {
+    const entry = this.index.get(key);
+    if (!entry) return;
+    this.index.delete(key);
+    await fs.rm(join(this.directory, entry.file), { force: true });
+  }
+
+  private isExpired(entry: { expiresAt: number }): boolean {
+    return entry.expiresAt !== 0 && entry.expiresAt <= Date.now();
+  }
+
+  private fileNameFor(key: string): string {
+    return `${createHash('sha1').update(key).digest('hex')}.json`;
+  }
+}
@@ -1,114 +1,138 @@
-import NodeCache from 'node-cache';
+import { CacheBackend, MemoryCacheBackend } from './cache-backends.js';
+import { CacheBackendStats } from '../types/api.js';
+
+export interface CacheManagerOptions {
+  // Optional on-disk tier behind the in-memory cache
+  persistentBackend?: CacheBackend;
+  // Entries with a shorter TTL stay in memory only; 0-TTL (permanent) entries are always persisted
+  // and only kept in memory for the default TTL
+  persistMinTtlSeconds?: number;
+}
 
 export class CacheManager {
-  private cache: NodeCache;
+  private memory: MemoryCacheBackend;
+  private persistent: CacheBackend | null;
+  private persistMinTtl: number;
   private defaultTTL: number;
+  private hits = 0;
+  private misses = 0;
 
-  constructor(ttlSeconds: number = 300, checkPeriod: number = 60, maxKeys: number = 1000) {
+  constructor(ttlSeconds: number = 300, checkPeriod: number = 60, maxKeys: number = 1000, options: CacheManagerOptions = {}) {
     this.defaultTTL = ttlSeconds;
-    this.cache = new NodeCache({
-      stdTTL: ttlSeconds,
-      checkperiod: checkPeriod,
-      maxKeys,
-      deleteOnExpire: true,
-      useClones: false,
-    });
+    this.memory = new MemoryCacheBackend(ttlSeconds, checkPeriod, maxKeys);
+    this.persistent = options.persistentBackend || null;
+    this.persistMinTtl = options.persistMinTtlSeconds ?? 0;
+  }
 
-    this.setupEventHandlers();
+  private get backends(): CacheBackend[] {
+    return this.persistent ? [this.memory, this.persistent] : [this.memory];
   }
 
-  private setupEventHandlers(): void {
-    this.cache.on('expired', (key, _value) => {
-      console.error(`[${new Date().toISOString()}] INFO: Cache key expired: ${key}`);
-    });
+  // Permanent entries would otherwise pin slots of the bounded memory cache forever
+  private memoryTtl(ttl: number): number {
+    return ttl === 0 ? this.defaultTTL : ttl;
+  }
 
-    this.cache.on('flush', () => {
-      console.error(`[${new Date().toISOString()}] INFO: Cache flushed`);
-    });
+  async get<T>(key: string): Promise<T | undefined> {
+    let value = await this.memory.get<T>(key);
 
-    this.cache.on('set', (key, _value) => {
-      if (process.env.NODE_ENV === 'development' || process.env.DEBUG) {
-        console.error(`[${new Date().toISOString()}] DEBUG: Cache key set: ${key}`);
-      }
-    });
-
-    this.cache.on('del', (key, _value) => {
-      if (process.env.NODE_ENV === 'development' || process.env.DEBUG) {
-        console.error(`[${new Date().toISOString()}] DEBUG: Cache key deleted: ${key}`);
+    // Fall back to disk and promote the entry with whatever TTL it has left
+    if (value === undefined && this.persistent) {
+      value = await this.persistent.get<T>(key);
+      if (value !== undefined) {
+        const expiresAt = this.persistent.getTtl(key);
+        const remaining = expiresAt ? Math.max(1, Math.ceil((expiresAt - Date.now()) / 1000)) : 0;
+        await this.memory.set(key, value, this.memoryTtl(remaining));
       }
-    });
-  }
+    }
 
-  get<T>(key: string): T | undefined {
-    const value = this.cache.get<T>(key);
     const timestamp = new Date().toISOString();
-    
     if (value !== undefined) {
+      this.hits++;
       console.error(`[${timestamp}] INFO: Cache hit: ${key}`);
-    } else if (process.env.NODE_ENV === 'development' || process.env.DEBUG) {
-      console.error(`[${timestamp}] DEBUG: Cache miss: ${key}`);
+    } else {
+      this.misses++;
+      if (process.env.NODE_ENV === 'development' || process.env.DEBUG) {
+        console.error(`[${timestamp}] DEBUG: Cache miss: ${key}`);
+      }
     }
     return value;
   }
 
-  set<T>(key: string, value: T, ttl?: number): boolean {
-    const actualTTL = ttl || this.defaultTTL;
-    const success = this.cache.set(key, value, actualTTL);
+  // A TTL of 0 stores the entry without expiry (e.g. closed historical candles)
+  async set<T>(key: string, value: T, ttl?: number): Promise<boolean> {
+    const actualTTL = ttl ?? this.defaultTTL;
+    let success = await this.memory.set(key, value, this.memoryTtl(actualTTL));
+
+    if (this.persistent && (actualTTL === 0 || actualTTL >= this.persistMinTtl)) {
+      success = await this.persistent.set(key, value, actualTTL) || success;
+    }
+
     const timestamp = new Date().toISOString();
-    
     if (success) {
       const dataSize = JSON.stringify(value).length;
-      console.error(`[${timestamp}] INFO: Cache set: ${key} (TTL: ${actualTTL}s, Size: ${dataSize} bytes)`);
+      console.error(`[${timestamp}] INFO: Cache set: ${key} (TTL: ${actualTTL === 0 ? 'permanent' : `${actualTTL}s`}, Size: ${dataSize} bytes)`);
     } else {
       console.error(`[${timestamp}] WARN: Cache set failed: ${key}`);
     }
     return success;
   }
 
-  del(key: string | string[]): number {
-    const count = this.cache.del(key);
+  async del(key: string | string[]): Promise<number> {
+    const keys = Array.isArray(key) ? key : [key];
+    const count = Math.max(...await Promise.all(this.backends.map(backend => backend.del(keys))));
     const timestamp = new Date().toISOString();
-    console.error(`[${timestamp}] INFO: Cache deleted: ${Array.isArray(key) ? key.join(', ') : key} (${count} keys)`);
+    console.error(`[${timestamp}] INFO: Cache deleted: ${keys.join(', ')} (${count} keys)`);
     return count;
   }
 
   has(key: string): boolean {
-    return this.cache.has(key);
+    return this.backends.some(backend => backend.has(key));
   }
 
-  flush(): void {
-    this.cache.flushAll();
+  async flush(): Promise<void> {
+    await Promise.all(this.backends.map(backend => backend.flush()));
   }
 
   keys(): string[] {
-    return this.cache.keys();
+    const keys = new Set<string>();
+    this.backends.forEach(backend => backend.keys().forEach(key => keys.add(key)));
+    return Array.from(keys);
   }
 
   getStats() {
-    const stats = this.cache.getStats();
+    const { ksize, vsize } = this.memory.getSizeBreakdown();
     return {
-      keys: stats.keys,
-      hits: stats.hits,
-      misses: stats.misses,
-      ksize: stats.ksize,
-      vsize: stats.vsize,
-      hitRate: stats.hits / (stats.hits + stats.misses) || 0,
+      keys: this.keys().length,
+      hits: this.hits,
+      misses: this.misses,
+      ksize,
+      vsize,
+      hitRate: this.hits / (this.hits + this.misses) || 0,
     };
   }
 
+  getBackendStats(): CacheBackendStats[] {
+    return this.backends.map(backend => backend.getStats());
+  }
+
+  isPersistent(): boolean {
+    return this.persistent !== null;
+  }
+
   generateCacheKey(method: string, params: Record<string, unknown> = {}): string {
     // Optimize key generation by avoiding object creation for empty params
     if (Object.keys(params).length === 0) {
       return `${method}:{}`;
     }
-    
+
     const sortedParams = Object.keys(params)
       .sort()
       .reduce((result, key) => {
         result[key] = params[key];
         return result;
       }, {} as Record<string, unknown>);
-    
+
     return `${method}:${JSON.stringify(sortedParams)}`;
   }
 
@@ -116,22 +140,33 @@ export class CacheManager {
     return this.keys().filter(key => pattern.test(key));
   }
 
-  clearByPattern(pattern: RegExp): number {
+  async clearByPattern(pattern: RegExp): Promise<number> {
     const keysToDelete = this.getCacheKeysByPattern(pattern);
     return this.del(keysToDelete);
   }
 
   getTTL(key: string): number | undefined {
-    return this.cache.getTtl(key);
+    for (const backend of this.backends) {
+      const ttl = backend.getTtl(key);
+      if (ttl !== undefined) return ttl;
+    }
+    return undefined;
   }
 
-  mget<T>(keys: string[]): Record<string, T> {
-    const result = this.cache.mget<T>(keys);
+  async mget<T>(keys: string[]): Promise<Record<string, T>> {
+    const result: Record<string, T> = {};
+    for (const key of keys) {
+      const value = await this.get<T>(key);
+      if (value !== undefined) {
+        result[key] = value;
+      }
+    }
     return result;
   }
 
-  mset<T>(keyValuePairs: Array<{ key: string; val: T; ttl?: number }>): boolean {
-    const success = this.cache.mset(keyValuePairs);
+  async mset<T>(keyValuePairs: Array<{ key: string; val: T; ttl?: number }>): Promise<boolean> {
+    const results = await Promise.all(keyValuePairs.map(({ key, val, ttl }) => this.set(key, val, ttl)));
+    const success = results.every(Boolean);
     if (success) {
       console.error(`[${new Date().toISOString()}] INFO: Cache mset: ${keyValuePairs.length} keys`);
     }
@@ -139,35 +174,36 @@ export class CacheManager {
   }
 
   // Memory optimization: Clean up expired keys manually if needed
-  cleanExpired(): number {
+  async cleanExpired(): Promise<number> {
     const expiredKeys: string[] = [];
     const allKeys = this.keys();
-    
+
     for (const key of allKeys) {
       const ttl = this.getTTL(key);
-      if (ttl !== undefined && ttl < Date.now()) {
+      if (ttl !== undefined && ttl !== 0 && ttl < Date.now()) {
         expiredKeys.push(key);
       }
     }
-    
+
     if (expiredKeys.length > 0) {
-      const deleted = this.del(expiredKeys);
+      const deleted = await this.del(expiredKeys);
       console.error(`[${new Date().toISOString()}] INFO: Cleaned ${deleted} expired cache keys`);
       return deleted;
     }
-    
+
     return 0;
   }
 
   // Get memory usage information
   getMemoryInfo(): { keyCount: number; memoryUsage: number; hitRate: number } {
-    const stats = this.getStats();
+    const stats = this.memory.getStats();
     return {
       keyCount: stats.keys,
-      memoryUsage: stats.ksize + stats.vsize,
-      hitRate: stats.hitRate,
+      memoryUsage: stats.sizeBytes,
+      hitRate: this.getStats().hitRate,
     };
   }
 }
 
-export const createCacheManager = (ttlSeconds?: number, checkPeriod?: number, maxKeys?: number) => new CacheManager(ttlSeconds, checkPeriod, maxKeys);
\ No newline at end of file
+export const createCacheManager = (ttlSeconds?: number, checkPeriod?: number, maxKeys?: number, options?: CacheManagerOptions) =>
+  new CacheManager(ttlSeconds, checkPeriod, maxKeys, options);
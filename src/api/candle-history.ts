@@ -0,0 +1,219 @@
+import { CoinMarketCapClient } from './client.js';
+import { CacheManager } from './cache.js';
+import { CoinRegistry, ResolvedCoin } from './coin-registry.js';
+import { CandleStore, StoredCandle } from '../storage/candle-store.js';
+import { ApiTierManager, HistoricalRange } from '../config/api-tiers.js';
+import { logger } from '../utils/logger.js';
+import { OhlcvCandle } from '../types/index.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INTERVAL = 'daily';
+
+// The API may publish a closed candle a little late, so a period missing from a
+// response is only recorded as having no data once it is this old
+const GAP_SETTLE_MS = 2 * DAY_MS;
+
+interface DaySegment {
+  start: string;
+  end: string;
+}
+
+// A series as /v1/cryptocurrency/ohlcv/historical returns it
+interface OhlcvSeries {
+  id?: number;
+  quotes?: OhlcvCandle[];
+}
+
+interface FetchedSeries {
+  coinId?: number;
+  quotes: OhlcvCandle[];
+}
+
+const toDay = (date: Date): string => date.toISOString().split('T')[0];
+
+const addDays = (day: string, days: number): string => toDay(new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS));
+
+const dayOf = (quote: OhlcvCandle): string | undefined => {
+  const timestamp = quote.time_open || quote.timestamp || quote.time_close;
+  return typeof timestamp === 'string' ? timestamp.split('T')[0] : undefined;
+};
+
+// Daily OHLCV history backed by the local CandleStore. Closed candles are
+// fetched from /v1/cryptocurrency/ohlcv/historical once and then served from
+// disk; only the missing segments of a requested range go to the API. The
+// still-open candle for today is never stored, only briefly cached. Ranges are
+// fitted to the plan's historical depth first (see ApiTierManager).
+export class CandleHistory {
+  constructor(
+    private client: CoinMarketCapClient,
+    private cache: CacheManager,
+    private store: CandleStore,
+    private tierManager: ApiTierManager,
+    private registry: CoinRegistry,
+  ) {}
+
+  // Throws PlanLimitError when the plan cannot serve the range at all
+  resolveRange(startDate: Date, endDate: Date, interval: string = INTERVAL): HistoricalRange {
+    return this.tierManager.resolveHistoricalRange(startDate, endDate, interval);
+  }
+
+  // Throws PlanLimitError when the plan's depth is below the given number of days
+  requireDepth(days: number, purpose: string): void {
+    this.tierManager.requireHistoricalDepth(days, purpose);
+  }
+
+  // Takes a ticker, or a coin already resolved by the registry whose id is used
+  // as is. Candles are quoted in convert and stored per currency.
+  async getDailyCandles(coin: string | ResolvedCoin, requestedStart: Date, endDate: Date, convert: string = 'USD'): Promise<OhlcvCandle[]> {
+    const currency = convert.toUpperCase();
+    const upperSymbol = (typeof coin === 'string' ? coin : coin.symbol).toUpperCase();
+    const startDate = this.resolveRange(requestedStart, endDate).start;
+    const startDay = toDay(startDate);
+    const endDay = toDay(endDate);
+    const today = toDay(new Date());
+
+    if (startDay > endDay) {
+      return [];
+    }
+
+    const coinId = typeof coin !== 'string' && coin.id !== undefined
+      ? coin.id
+      : await this.resolveCoinId(upperSymbol);
+    if (coinId === undefined) {
+      // Symbol unknown to the coin map and the store: fetch the whole range by symbol to learn its coin id
+      const fetched = await this.fetchSeries({ symbol: upperSymbol }, startDay, endDay, currency);
+      if (fetched.coinId === undefined) {
+        return fetched.quotes;
+      }
+      await this.store.rememberSymbol(upperSymbol, fetched.coinId);
+      await this.storeClosed(fetched.coinId, this.closedDays(startDay, endDay, today), fetched.quotes, today, currency);
+      return fetched.quotes;
+    }
+
+    const closedDays = this.closedDays(startDay, endDay, today);
+    const stored = await this.store.getCandles(coinId, INTERVAL, closedDays, currency);
+    const missing = closedDays.filter(day => !stored.has(day));
+
+    for (const segment of this.toSegments(missing)) {
+      const fetched = await this.fetchSeries({ id: String(coinId) }, segment.start, segment.end, currency);
+      const segmentDays = closedDays.filter(day => day >= segment.start && day <= segment.end);
+      const added = await this.storeClosed(coinId, segmentDays, fetched.quotes, today, currency);
+      added.forEach((candle, day) => stored.set(day, candle));
+    }
+
+    if (missing.length > 0) {
+      logger.debug('Candle store gap fill', {
+        symbol: upperSymbol,
+        coinId,
+        currency,
+        requestedDays: closedDays.length,
+        fetchedDays: missing.length,
+      });
+    }
+
+    const candles = closedDays
+      .map(day => stored.get(day) as OhlcvCandle | null | undefined)
+      .filter((candle): candle is OhlcvCandle => !!candle);
+
+    if (endDay >= today) {
+      candles.push(...await this.getOpenCandles(coinId, today, currency));
+    }
+
+    return candles;
+  }
+
+  // The coin map is authoritative; the store's symbol index covers coins it does not know
+  private async resolveCoinId(symbol: string): Promise<number | undefined> {
+    const resolution = await this.registry.resolveSymbol(symbol);
+    if (resolution) {
+      await this.store.rememberSymbol(symbol, resolution.coin.id);
+      return resolution.coin.id;
+    }
+    return this.store.resolveCoinId(symbol);
+  }
+
+  private async getOpenCandles(coinId: number, today: string, currency: string): Promise<OhlcvCandle[]> {
+    const cacheKey = this.cache.generateCacheKey('ohlcv_open_candle', { id: coinId, day: today, convert: currency });
+    const cached = await this.cache.get<OhlcvCandle[]>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const fetched = await this.fetchSeries({ id: String(coinId) }, today, today, currency);
+    const open = fetched.quotes.filter(quote => (dayOf(quote) || '') >= today);
+
+    await this.cache.set(cacheKey, open, 300); // Cache for 5 minutes
+    return open;
+  }
+
+  // Stores the closed candles of a fetched range and marks settled days the API
+  // returned nothing for, so they are not requested again
+  private async storeClosed(coinId: number, days: string[], quotes: OhlcvCandle[], today: string, currency: string): Promise<Map<string, StoredCandle>> {
+    const byDay = new Map<string, OhlcvCandle>();
+    quotes.forEach(quote => {
+      const day = dayOf(quote);
+      if (day) byDay.set(day, quote);
+    });
+
+    const settledBefore = toDay(new Date(Date.parse(`${today}T00:00:00Z`) - GAP_SETTLE_MS));
+    const toStore = new Map<string, StoredCandle>();
+    for (const day of days) {
+      if (byDay.has(day)) {
+        toStore.set(day, byDay.get(day) as StoredCandle);
+      } else if (day < settledBefore) {
+        toStore.set(day, null);
+      }
+    }
+
+    await this.store.putCandles(coinId, INTERVAL, toStore, currency);
+    return toStore;
+  }
+
+  private async fetchSeries(target: { id?: string; symbol?: string }, startDay: string, endDay: string, currency: string): Promise<FetchedSeries> {
+    // Ask from the day before so the first candle is included whichever way the
+    // API treats time_start; the result is trimmed to the requested days
+    const response = await this.client.getCryptocurrencyOHLCVHistorical({
+      ...target,
+      time_start: addDays(startDay, -1),
+      time_end: endDay,
+      interval: INTERVAL,
+      convert: currency,
+    });
+
+    // One series, or a map of them keyed by the requested id or symbol
+    const data = (response?.data || {}) as Record<string, unknown>;
+    const entry = data.quotes ? data : data[target.symbol || target.id || ''];
+    const series = (Array.isArray(entry) ? entry[0] : entry) as OhlcvSeries | undefined;
+    const quotes = (series?.quotes || []).filter(quote => {
+      const day = dayOf(quote);
+      return !day || (day >= startDay && day <= endDay);
+    });
+
+    return {
+      coinId: typeof series?.id === 'number' ? series.id : undefined,
+      quotes,
+    };
+  }
+
+  private closedDays(startDay: string, endDay: string, today: string): string[] {
+    const days: string[] = [];
+    for (let day = startDay; day <= endDay && day < today; day = addDays(day, 1)) {
+      days.push(day);
+    }
+    return days;
+  }
+
+  // Groups sorted days into contiguous ranges, one API call each
+  private toSegments(days: string[]): DaySegment[] {
+    const segments: DaySegment[] = [];
+    for (const day of days) {
+      const last = segments[segments.length - 1];
+      if (last && addDays(last.end, 1) === day) {
+        last.end = day;
+      } else {
+        segments.push({ start: day, end: day });
+      }
+    }
+    return segments;
+  }
+}
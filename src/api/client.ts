@@ -1,6 +1,27 @@
 import axios, { AxiosInstance, AxiosResponse, AxiosError } from 'axios';
+import { AsyncLocalStorage } from 'async_hooks';
 import { CMCApiResponse, CMCError } from '../types/index.js';
 import { LogData, RequestStats } from '../types/api.js';
+import { RequestPriority, RequestQueue } from './rate-limiter.js';
+import { CreditBudget } from './credit-budget.js';
+
+export interface ClientRequestOptions {
+  priority?: RequestPriority;
+  maxWaitMs?: number;
+  // Tool (or background task) the request's credits are attributed to
+  tool?: string;
+}
+
+export interface ClientOptions {
+  burstSize?: number;
+  maxQueueWaitMs?: number;
+  creditBudget?: CreditBudget;
+  // Called when the API refuses an endpoint for the current plan (error 1006)
+  onPlanRestriction?: (endpoint: string, reason: string) => void;
+  // Called when the API refuses the key itself (HTTP 402, e.g. credits exhausted or
+  // billing lapsed), and with null once a later request succeeds again
+  onKeyFailure?: (reason: string | null) => void;
+}
 
 // Enhanced logging utility
 class Logger {
@@ -32,17 +53,37 @@ export class CoinMarketCapClient {
   private apiKey: string;
   private baseURL: string;
   private requestCount: number = 0;
-  private lastResetTime: number = Date.now();
-  private readonly maxRequestsPerMinute: number;
-
-  constructor(apiKey: string, baseURL: string = 'https://pro-api.coinmarketcap.com', maxRequestsPerMinute: number = 100) {
+  private maxRequestsPerMinute: number;
+  private requestQueue: RequestQueue;
+  private requestOptions = new AsyncLocalStorage<ClientRequestOptions>();
+  private creditBudget: CreditBudget | null;
+  private onPlanRestriction?: (endpoint: string, reason: string) => void;
+  private onKeyFailure?: (reason: string | null) => void;
+  private keyFailed = false;
+
+  constructor(
+    apiKey: string,
+    baseURL: string = 'https://pro-api.coinmarketcap.com',
+    maxRequestsPerMinute: number = 100,
+    options: ClientOptions = {},
+  ) {
     this.apiKey = apiKey;
     this.baseURL = baseURL;
     this.maxRequestsPerMinute = maxRequestsPerMinute;
+    this.requestQueue = new RequestQueue({
+      maxRequestsPerMinute,
+      burstSize: options.burstSize,
+      maxWaitMs: options.maxQueueWaitMs,
+    });
+    this.creditBudget = options.creditBudget || null;
+    this.onPlanRestriction = options.onPlanRestriction;
+    this.onKeyFailure = options.onKeyFailure;
 
     Logger.info('Initializing CoinMarketCap API Client', {
       baseURL,
       maxRequestsPerMinute,
+      burstSize: options.burstSize ?? 10,
+      maxQueueWaitMs: options.maxQueueWaitMs ?? 30000,
       timeout: '10s',
       apiKeyConfigured: !!apiKey,
     });
@@ -65,7 +106,6 @@ export class CoinMarketCapClient {
     // Request interceptor with logging
     this.client.interceptors.request.use(
       (config) => {
-        this.checkRateLimit();
         this.requestCount++;
         
         const requestId = Math.random().toString(36).substring(7);
@@ -77,7 +117,7 @@ export class CoinMarketCapClient {
           url: config.url,
           params: config.params,
           requestCount: this.requestCount,
-          remainingRequests: this.maxRequestsPerMinute - this.requestCount,
+          queueDepth: this.requestQueue.getQueueDepth(),
         });
         
         return config;
@@ -117,6 +157,11 @@ export class CoinMarketCapClient {
           });
         }
 
+        if (this.keyFailed) {
+          this.keyFailed = false;
+          this.onKeyFailure?.(null);
+        }
+
         return response;
       },
       (error: AxiosError) => {
@@ -147,6 +192,8 @@ export class CoinMarketCapClient {
             cmcErrorMessage: cmcError.error_message,
             fullResponse: error.response?.data,
           });
+
+          this.reportPlanRestriction(error, `CMC API Error ${cmcError.error_code}: ${cmcError.error_message}`);
           
           return Promise.reject(new Error(`CMC API Error ${cmcError.error_code}: ${cmcError.error_message}`));
         }
@@ -165,11 +212,14 @@ export class CoinMarketCapClient {
             break;
           case 402:
             Logger.error('Payment Required - API Plan Limit Reached', { requestId });
+            this.reportPlanRestriction(error, 'HTTP 402 Payment Required');
             break;
           case 403:
             Logger.error('Forbidden - API Key Invalid or Suspended', { requestId });
             break;
           case 429:
+            // Hold queued requests until the API is ready again
+            this.requestQueue.pause((parseInt(String(error.response.headers['retry-after'] || '60'), 10) || 60) * 1000);
             Logger.warn('Rate Limit Exceeded', {
               requestId,
               retryAfter: error.response.headers['retry-after'],
@@ -204,31 +254,37 @@ export class CoinMarketCapClient {
     );
   }
 
-  private checkRateLimit(): void {
-    const now = Date.now();
-    const timeSinceReset = now - this.lastResetTime;
-
-    if (timeSinceReset >= 60000) {
-      Logger.debug('Rate limit window reset', {
-        previousCount: this.requestCount,
-        timeSinceLastReset: `${timeSinceReset}ms`,
-      });
-      this.requestCount = 0;
-      this.lastResetTime = now;
+  // 402 says nothing about the endpoint: every request with this key fails until
+  // the plan is paid up, so it must not disable the endpoint's tools for good
+  private reportPlanRestriction(error: AxiosError, reason: string): void {
+    if (error.response?.status === 402) {
+      if (!this.keyFailed) {
+        this.keyFailed = true;
+        this.onKeyFailure?.(reason);
+      }
+      return;
     }
 
-    if (this.requestCount >= this.maxRequestsPerMinute) {
-      const waitTime = 60000 - timeSinceReset;
-      Logger.warn('Rate limit exceeded', {
-        currentRequests: this.requestCount,
-        maxRequests: this.maxRequestsPerMinute,
-        waitTimeSeconds: Math.ceil(waitTime / 1000),
-        resetTime: new Date(now + waitTime).toISOString(),
-      });
-      throw new Error(`Rate limit exceeded. Please wait ${Math.ceil(waitTime / 1000)} seconds.`);
+    const errorCode = (error.response?.data as Partial<CMCApiResponse<unknown>> | undefined)?.status?.error_code;
+    const endpoint = error.config?.url;
+    if (endpoint && this.onPlanRestriction && Number(errorCode) === 1006) {
+      this.onPlanRestriction(endpoint, reason);
     }
   }
 
+  setMaxRequestsPerMinute(maxRequestsPerMinute: number): void {
+    if (maxRequestsPerMinute === this.maxRequestsPerMinute) return;
+    Logger.info('Updating API rate limit', { from: this.maxRequestsPerMinute, to: maxRequestsPerMinute });
+    this.maxRequestsPerMinute = maxRequestsPerMinute;
+    this.requestQueue.setRateLimit(maxRequestsPerMinute);
+  }
+
+  // Runs fn with the given request options applied to every API call it makes,
+  // e.g. so background polling yields to interactive tool calls
+  withRequestOptions<T>(options: ClientRequestOptions, fn: () => Promise<T>): Promise<T> {
+    return this.requestOptions.run({ ...this.requestOptions.getStore(), ...options }, fn);
+  }
+
   async get<T>(endpoint: string, params?: Record<string, any>): Promise<CMCApiResponse<T>> {
     const requestId = Math.random().toString(36).substring(7);
     
@@ -239,7 +295,19 @@ export class CoinMarketCapClient {
         params: params ? Object.keys(params) : 'none', // Log param keys but not values for privacy
       });
 
-      const response: AxiosResponse<CMCApiResponse<T>> = await this.client.get(endpoint, { params });
+      const { priority = 'normal', maxWaitMs, tool = 'unattributed' } = this.requestOptions.getStore() || {};
+
+      // Refuse before queueing if a hard credit budget would be exceeded
+      await this.creditBudget?.checkBeforeRequest(endpoint);
+
+      // Wait for a rate limit slot instead of failing when the limit is reached
+      const response: AxiosResponse<CMCApiResponse<T>> = await this.requestQueue.schedule(
+        () => this.client.get(endpoint, { params }),
+        priority,
+        maxWaitMs,
+      );
+
+      await this.recordCredits(endpoint, tool, response);
       
       Logger.info('CMC API request completed successfully', {
         requestId,
@@ -264,6 +332,19 @@ export class CoinMarketCapClient {
     }
   }
 
+  async getKeyInfo() {
+    return this.get('/v1/key/info');
+  }
+
+  async getFiatMap(params?: {
+    start?: number;
+    limit?: number;
+    sort?: string;
+    include_metals?: boolean;
+  }) {
+    return this.get('/v1/fiat/map', params);
+  }
+
   async getCryptocurrencyListingsLatest(params?: {
     start?: number;
     limit?: number;
@@ -288,6 +369,17 @@ export class CoinMarketCapClient {
     return this.get('/v1/cryptocurrency/listings/latest', params);
   }
 
+  async getCryptocurrencyMap(params?: {
+    listing_status?: string;
+    start?: number;
+    limit?: number;
+    sort?: string;
+    symbol?: string;
+    aux?: string;
+  }) {
+    return this.get('/v1/cryptocurrency/map', params);
+  }
+
   async getCryptocurrencyQuotesLatest(params: {
     id?: string;
     slug?: string;
@@ -344,6 +436,18 @@ export class CoinMarketCapClient {
     return this.get('/v1/global-metrics/quotes/latest', params);
   }
 
+  async getGlobalMetricsQuotesHistorical(params: {
+    time_start?: string;
+    time_end?: string;
+    count?: number;
+    interval?: string;
+    convert?: string;
+    convert_id?: string;
+    aux?: string;
+  }) {
+    return this.get('/v1/global-metrics/quotes/historical', params);
+  }
+
   async getCryptocurrencyTrendingLatest(params?: {
     start?: number;
     limit?: number;
@@ -377,12 +481,52 @@ export class CoinMarketCapClient {
     return this.get('/v2/cryptocurrency/price-performance-stats', params);
   }
 
+  async getPriceConversion(params: {
+    amount: number;
+    id?: string;
+    symbol?: string;
+    time?: string;
+    convert?: string;
+    convert_id?: string;
+  }) {
+    return this.get('/v1/tools/price-conversion', params);
+  }
+
+  private async recordCredits(endpoint: string, tool: string, response: AxiosResponse<CMCApiResponse<unknown>>): Promise<void> {
+    if (!this.creditBudget) return;
+
+    const credits = Number(response.data?.status?.credit_count ?? 1);
+    const remainingHeader = response.headers['x-cmc-plan-credits-remaining'];
+    const remaining = remainingHeader !== undefined ? parseInt(String(remainingHeader), 10) : undefined;
+
+    try {
+      await this.creditBudget.record(endpoint, tool, isNaN(credits) ? 1 : credits, remaining !== undefined && !isNaN(remaining) ? remaining : undefined);
+    } catch (error) {
+      Logger.warn('Failed to record API credits', { endpoint, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
   getRequestStats(): RequestStats {
+    const queue = this.requestQueue.getStats();
     return {
-      requestCount: this.requestCount,
-      lastResetTime: this.lastResetTime,
+      requestCount: queue.window.currentRequests,
+      // Start of the sliding one-minute window (its oldest request)
+      lastResetTime: queue.window.resetTime ? queue.window.resetTime - queue.window.timeWindow : Date.now(),
       maxRequestsPerMinute: this.maxRequestsPerMinute,
-      remainingRequests: this.maxRequestsPerMinute - this.requestCount,
+      remainingRequests: queue.window.remainingRequests,
+      totalRequests: this.requestCount,
+      queue: {
+        depth: queue.queueDepth,
+        queuedByPriority: queue.queuedByPriority,
+        estimatedWaitMs: queue.estimatedWaitMs,
+        oldestQueuedMs: queue.oldestQueuedMs,
+        averageWaitMs: queue.averageWaitMs,
+        timedOutRequests: queue.timedOutRequests,
+        maxWaitMs: queue.maxWaitMs,
+        pausedForMs: queue.pausedForMs,
+        availableTokens: queue.tokens.availableTokens,
+        burstSize: queue.tokens.capacity,
+      },
     };
   }
 }
\ No newline at end of file
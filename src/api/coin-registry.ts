@@ -0,0 +1,582 @@
+import { CoinMarketCapClient } from './client.js';
+import { CoinMapStore } from '../storage/coin-map-store.js';
+import { CoinMapEntry, CryptocurrencyQuoteEntry } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// The whole map is refetched once a day
+const REFRESH_INTERVAL_MS = 24 * HOUR_MS;
+// A symbol missing from the map may be a new listing; refetch at most this often for misses
+const MISS_REFRESH_INTERVAL_MS = HOUR_MS;
+// Minimum time between attempts after a failed fetch
+const RETRY_INTERVAL_MS = 5 * 60 * 1000;
+// The map endpoint returns at most 5000 entries per call
+const MAP_PAGE_SIZE = 5000;
+const MAX_MAP_PAGES = 10;
+// A ticker is ambiguous when the runner-up is ranked within this factor of the
+// best match (rank 40 vs 300), or when the best match has no rank at all
+const AMBIGUITY_RANK_RATIO = 10;
+// Candidates listed in a disambiguation result
+const MAX_CANDIDATES = 10;
+
+export interface CoinResolution {
+  coin: CoinMapEntry;
+  // Every active coin using the requested ticker, best ranked first (includes coin)
+  candidates: CoinMapEntry[];
+  ambiguous: boolean;
+}
+
+// How a tool argument names a coin; id and slug are unique, symbols may not be
+export interface CoinReference {
+  id?: number | string;
+  slug?: string;
+  symbol?: string;
+}
+
+// A coin a tool can query. id is set whenever the coin map knows the coin;
+// without a map only the symbol (or a given id) is available.
+export interface ResolvedCoin {
+  id?: number;
+  symbol: string;
+  name?: string;
+  slug?: string;
+  collision?: SymbolCollision;
+}
+
+export interface DisambiguationCandidate {
+  id: number;
+  name: string;
+  symbol: string;
+  slug: string;
+  rank: number | null;
+  platform: string | null;
+  token_address: string | null;
+}
+
+// Returned by tools instead of guessing when a ticker names several coins
+export interface DisambiguationResult {
+  disambiguation_required: true;
+  symbol: string;
+  message: string;
+  candidates: DisambiguationCandidate[];
+}
+
+export type SymbolCollision = NonNullable<ReturnType<typeof describeSymbolCollision>>;
+
+export type AmbiguityPolicy = 'reject' | 'best_match';
+
+export interface CoinSearchMatch extends CoinMapEntry {
+  match_type: 'symbol' | 'exact' | 'prefix' | 'substring' | 'fuzzy';
+  score: number;
+  // Number of active coins sharing this ticker
+  symbol_shared_by: number;
+}
+
+export interface QuoteLookup {
+  // Reference label (symbol, slug or id as given) -> raw quotes/latest entry
+  quotes: Map<string, CryptocurrencyQuoteEntry>;
+  coins: Map<string, ResolvedCoin>;
+  not_found: string[];
+  // Tickers left unquoted because they name several coins (policy 'reject')
+  ambiguous: DisambiguationResult[];
+}
+
+// One coin as /v1/cryptocurrency/map returns it
+interface RawMapEntry {
+  id: number;
+  name: string;
+  symbol: string;
+  slug: string;
+  rank?: number;
+  is_active?: number | boolean;
+  first_historical_data?: string;
+  last_historical_data?: string;
+  platform?: NonNullable<CoinMapEntry['platform']> | null;
+}
+
+const byRank = (a: CoinMapEntry, b: CoinMapEntry): number =>
+  (a.rank ?? Number.MAX_SAFE_INTEGER) - (b.rank ?? Number.MAX_SAFE_INTEGER) || a.id - b.id;
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Input schema properties shared by every tool that takes a single coin
+export const COIN_REFERENCE_PROPERTIES = {
+  symbol: {
+    type: 'string',
+    description: 'Cryptocurrency symbol (e.g., BTC, ETH). If several coins share it, a list of candidates is returned instead.',
+  },
+  id: {
+    type: 'number',
+    description: 'CoinMarketCap id (unambiguous, e.g., 1 for Bitcoin)',
+  },
+  slug: {
+    type: 'string',
+    description: 'CoinMarketCap slug (unambiguous, e.g., bitcoin)',
+  },
+};
+
+// Input schema properties for tools that take several coins
+export const COIN_REFERENCE_LIST_PROPERTIES = {
+  symbols: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Cryptocurrency symbols. Symbols shared by several coins are reported with their candidates.',
+  },
+  ids: {
+    type: 'array',
+    items: { type: 'number' },
+    description: 'CoinMarketCap ids',
+  },
+  slugs: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'CoinMarketCap slugs',
+  },
+};
+
+// Collects the references given through symbols/ids/slugs arguments
+export const toCoinReferences = (args: { symbols?: string[]; ids?: Array<number | string>; slugs?: string[] }): CoinReference[] => [
+  ...(args.symbols || []).map(symbol => ({ symbol })),
+  ...(args.ids || []).map(id => ({ id })),
+  ...(args.slugs || []).map(slug => ({ slug })),
+];
+
+const toCandidate = (coin: CoinMapEntry): DisambiguationCandidate => ({
+  id: coin.id,
+  name: coin.name,
+  symbol: coin.symbol,
+  slug: coin.slug,
+  rank: coin.rank,
+  platform: coin.platform?.name ?? null,
+  token_address: coin.platform?.token_address ?? null,
+});
+
+// Summary of the other coins sharing a resolved ticker, for tool responses
+export const describeSymbolCollision = (resolution?: CoinResolution) => {
+  if (!resolution || resolution.candidates.length < 2) return undefined;
+  const { coin, candidates } = resolution;
+  return {
+    symbol: coin.symbol,
+    resolved_to: { id: coin.id, name: coin.name, slug: coin.slug, rank: coin.rank },
+    other_matches: candidates.slice(1, 6).map(toCandidate),
+    total_matches: candidates.length,
+    note: `${candidates.length} coins use the ticker ${coin.symbol}; the highest ranked one was used. Pass id or slug to choose another.`,
+  };
+};
+
+export const isDisambiguation = (value: unknown): value is DisambiguationResult =>
+  typeof value === 'object' && value !== null && (value as DisambiguationResult).disambiguation_required === true;
+
+// Label a reference is reported under: the symbol, slug or id as given
+export const referenceLabel = (reference: string | CoinReference): string => {
+  if (typeof reference === 'string') return reference.toUpperCase();
+  if (reference.id !== undefined && reference.id !== null && reference.id !== '') return String(reference.id);
+  if (reference.slug) return reference.slug.toLowerCase();
+  return (reference.symbol || '').toUpperCase();
+};
+
+const isAmbiguous = (candidates: CoinMapEntry[]): boolean => {
+  if (candidates.length < 2) return false;
+  const [best, runnerUp] = candidates;
+  if (best.rank === null) return true;
+  return runnerUp.rank !== null && runnerUp.rank <= best.rank * AMBIGUITY_RANK_RATIO;
+};
+
+const toEntry = (coin: RawMapEntry): CoinMapEntry => ({
+  id: coin.id,
+  name: coin.name,
+  symbol: String(coin.symbol).toUpperCase(),
+  slug: coin.slug,
+  rank: typeof coin.rank === 'number' ? coin.rank : null,
+  is_active: coin.is_active === undefined ? true : coin.is_active === 1 || coin.is_active === true,
+  first_historical_data: coin.first_historical_data,
+  last_historical_data: coin.last_historical_data,
+  platform: coin.platform
+    ? {
+      id: coin.platform.id,
+      name: coin.platform.name,
+      symbol: coin.platform.symbol,
+      slug: coin.platform.slug,
+      token_address: coin.platform.token_address,
+    }
+    : null,
+});
+
+// Registry of every active coin's id, symbol and slug, built from
+// /v1/cryptocurrency/map and kept on disk (see CoinMapStore). Tools resolve
+// tickers to CoinMarketCap ids here and query by id, so duplicate tickers are
+// detected instead of silently answered with whichever coin the API picks.
+// When the map cannot be loaded, lookups fall back to querying by symbol.
+export class CoinRegistry {
+  private byId = new Map<number, CoinMapEntry>();
+  private bySymbol = new Map<string, CoinMapEntry[]>();
+  private bySlug = new Map<string, CoinMapEntry>();
+  private loaded = false;
+  private fetchedAt = 0;
+  private lastAttemptAt = 0;
+  private refreshing: Promise<void> | null = null;
+
+  constructor(
+    private client: CoinMarketCapClient,
+    private store: CoinMapStore = new CoinMapStore(),
+  ) {}
+
+  // Returns false when no map is available (never fetched and the API call failed)
+  async ensureLoaded(): Promise<boolean> {
+    if (!this.loaded) {
+      const snapshot = await this.store.load();
+      if (snapshot) {
+        this.index(snapshot.coins, Date.parse(snapshot.fetched_at) || 0);
+      }
+    }
+
+    const stale = !this.loaded || Date.now() - this.fetchedAt > REFRESH_INTERVAL_MS;
+    if (stale && Date.now() - this.lastAttemptAt > RETRY_INTERVAL_MS) {
+      // A stale map keeps serving lookups while the new one is fetched
+      if (this.loaded) {
+        void this.refresh();
+      } else {
+        await this.refresh();
+      }
+    }
+    return this.loaded;
+  }
+
+  async getById(id: number): Promise<CoinMapEntry | undefined> {
+    await this.ensureLoaded();
+    return this.byId.get(id);
+  }
+
+  async getBySlug(slug: string): Promise<CoinMapEntry | undefined> {
+    await this.ensureLoaded();
+    return this.bySlug.get(slug.toLowerCase());
+  }
+
+  // All active coins using a ticker, best ranked first
+  async getBySymbol(symbol: string): Promise<CoinMapEntry[]> {
+    await this.ensureLoaded();
+    return this.bySymbol.get(symbol.toUpperCase()) || [];
+  }
+
+  // Resolves a ticker to its best ranked coin, flagging it as ambiguous when
+  // another coin is a plausible match. Returns null when the symbol is unknown
+  // or the registry is unavailable.
+  async resolveSymbol(symbol: string): Promise<CoinResolution | null> {
+    const upperSymbol = symbol.toUpperCase();
+    if (!await this.ensureLoaded()) {
+      return null;
+    }
+
+    let candidates = this.bySymbol.get(upperSymbol);
+    if (!candidates && Date.now() - this.lastAttemptAt > MISS_REFRESH_INTERVAL_MS) {
+      await this.refresh();
+      candidates = this.bySymbol.get(upperSymbol);
+    }
+
+    return candidates && candidates.length > 0
+      ? { coin: candidates[0], candidates, ambiguous: isAmbiguous(candidates) }
+      : null;
+  }
+
+  // Resolves a tool's id/slug/symbol arguments to one coin. An ambiguous symbol
+  // yields a DisambiguationResult (unless policy is 'best_match'); an unknown
+  // coin throws.
+  async lookup(reference: CoinReference, policy: AmbiguityPolicy = 'reject'): Promise<ResolvedCoin | DisambiguationResult> {
+    const label = referenceLabel(reference);
+    if (!label) {
+      throw new Error('One of symbol, id or slug is required');
+    }
+
+    const available = await this.ensureLoaded();
+
+    if (reference.id !== undefined && reference.id !== null && reference.id !== '') {
+      const id = Number(reference.id);
+      if (!Number.isInteger(id) || id <= 0) {
+        throw new Error(`Invalid id '${reference.id}': must be a positive integer CoinMarketCap id`);
+      }
+      if (!available) {
+        return { id, symbol: (reference.symbol || String(id)).toUpperCase() };
+      }
+      const coin = this.byId.get(id);
+      if (!coin) {
+        throw new Error(`Cryptocurrency with id ${id} not found`);
+      }
+      return { id: coin.id, symbol: coin.symbol, name: coin.name, slug: coin.slug };
+    }
+
+    if (reference.slug) {
+      if (!available) {
+        throw new Error('Lookup by slug needs the coin map, which is not available right now. Use symbol or id instead.');
+      }
+      const coin = this.bySlug.get(reference.slug.toLowerCase());
+      if (!coin) {
+        throw new Error(`Cryptocurrency with slug '${reference.slug}' not found`);
+      }
+      return { id: coin.id, symbol: coin.symbol, name: coin.name, slug: coin.slug };
+    }
+
+    if (!available) {
+      return { symbol: label };
+    }
+    const resolution = await this.resolveSymbol(label);
+    if (!resolution) {
+      throw new Error(`Cryptocurrency ${label} not found`);
+    }
+    if (resolution.ambiguous && policy === 'reject') {
+      return this.disambiguation(resolution);
+    }
+    const { coin } = resolution;
+    return { id: coin.id, symbol: coin.symbol, name: coin.name, slug: coin.slug, collision: describeSymbolCollision(resolution) };
+  }
+
+  disambiguation(resolution: CoinResolution): DisambiguationResult {
+    const symbol = resolution.coin.symbol;
+    return {
+      disambiguation_required: true,
+      symbol,
+      message: `${resolution.candidates.length} cryptocurrencies use the ticker ${symbol}. Call again with the id or slug of the one you mean.`,
+      candidates: resolution.candidates.slice(0, MAX_CANDIDATES).map(toCandidate),
+    };
+  }
+
+  // Fuzzy search over symbol, name and slug. Exact and prefix matches come
+  // first, then substrings, then near-misses (typos); ties go to the higher ranked coin.
+  async search(query: string, limit: number = 10): Promise<CoinSearchMatch[]> {
+    if (!await this.ensureLoaded()) {
+      throw new Error('Coin map is not available');
+    }
+
+    const term = query.trim().toLowerCase();
+    if (!term) {
+      return [];
+    }
+    const maxDistance = term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+
+    const matches: CoinSearchMatch[] = [];
+    for (const coin of this.byId.values()) {
+      const symbol = coin.symbol.toLowerCase();
+      const name = coin.name.toLowerCase();
+      const slug = coin.slug.toLowerCase();
+
+      let matchType: CoinSearchMatch['match_type'] | null = null;
+      let score = 0;
+      if (symbol === term) {
+        matchType = 'symbol';
+        score = 100;
+      } else if (name === term || slug === term) {
+        matchType = 'exact';
+        score = 95;
+      } else if (symbol.startsWith(term) || name.startsWith(term) || slug.startsWith(term)) {
+        matchType = 'prefix';
+        score = 80;
+      } else if (name.includes(term) || slug.includes(term) || symbol.includes(term)) {
+        matchType = 'substring';
+        score = 60;
+      } else if (maxDistance > 0) {
+        // Values whose length differs by more than maxDistance cannot be within it
+        const distance = Math.min(...[name, slug, symbol]
+          .filter(value => Math.abs(value.length - term.length) <= maxDistance)
+          .map(value => levenshtein(term, value)));
+        if (distance <= maxDistance) {
+          matchType = 'fuzzy';
+          score = 40 - distance * 10;
+        }
+      }
+
+      if (matchType) {
+        matches.push({
+          ...coin,
+          match_type: matchType,
+          score,
+          symbol_shared_by: this.bySymbol.get(coin.symbol)?.length || 1,
+        });
+      }
+    }
+
+    return matches
+      .sort((a, b) => b.score - a.score || byRank(a, b))
+      .slice(0, limit);
+  }
+
+  // Tickers used by more than one active coin, optionally only those given
+  async getCollisions(symbols?: string[]): Promise<Record<string, CoinMapEntry[]>> {
+    await this.ensureLoaded();
+    const wanted = symbols?.map(symbol => symbol.toUpperCase());
+    const collisions: Record<string, CoinMapEntry[]> = {};
+    for (const [symbol, coins] of this.bySymbol) {
+      if (coins.length > 1 && (!wanted || wanted.includes(symbol))) {
+        collisions[symbol] = coins;
+      }
+    }
+    return collisions;
+  }
+
+  // Latest quotes for a list of coin references, queried by resolved id in one
+  // call. Ambiguous tickers are left out and reported unless policy is
+  // 'best_match'. Without a coin map symbols and ids are sent as given.
+  async getLatestQuotes(
+    references: Array<string | CoinReference>,
+    params: { convert?: string; aux?: string } = {},
+    policy: AmbiguityPolicy = 'reject',
+  ): Promise<QuoteLookup> {
+    const lookup: QuoteLookup = { quotes: new Map(), coins: new Map(), not_found: [], ambiguous: [] };
+
+    const seen = new Set<string>();
+    for (const reference of references) {
+      const label = referenceLabel(reference);
+      if (seen.has(label)) continue;
+      seen.add(label);
+      try {
+        const resolved = await this.lookup(typeof reference === 'string' ? { symbol: reference } : reference, policy);
+        if (isDisambiguation(resolved)) {
+          lookup.ambiguous.push(resolved);
+        } else {
+          lookup.coins.set(label, resolved);
+        }
+      } catch {
+        lookup.not_found.push(label);
+      }
+    }
+
+    const quotes = await this.fetchQuotes(Array.from(lookup.coins.values()), params);
+    for (const [label, coin] of lookup.coins) {
+      const quote = quotes.get(coin);
+      if (quote) {
+        lookup.quotes.set(label, quote);
+      }
+    }
+
+    for (const label of lookup.coins.keys()) {
+      if (!lookup.quotes.has(label)) {
+        lookup.not_found.push(label);
+      }
+    }
+    return lookup;
+  }
+
+  // Latest quotes for already resolved coins: one call by id, plus one by
+  // symbol for coins the map could not resolve
+  async fetchQuotes(coins: ResolvedCoin[], params: { convert?: string; aux?: string } = {}): Promise<Map<ResolvedCoin, CryptocurrencyQuoteEntry>> {
+    const quotes = new Map<ResolvedCoin, CryptocurrencyQuoteEntry>();
+    const byId = coins.filter(coin => coin.id !== undefined);
+    const bySymbol = coins.filter(coin => coin.id === undefined);
+
+    if (byId.length > 0) {
+      const ids = Array.from(new Set(byId.map(coin => coin.id)));
+      const response = await this.client.getCryptocurrencyQuotesLatest({ ...params, id: ids.join(',') });
+      const data = (response.data || {}) as Record<string, CryptocurrencyQuoteEntry | CryptocurrencyQuoteEntry[]>;
+      for (const coin of byId) {
+        const crypto = data[String(coin.id)];
+        if (crypto) {
+          quotes.set(coin, Array.isArray(crypto) ? crypto[0] : crypto);
+        }
+      }
+    }
+
+    if (bySymbol.length > 0) {
+      const symbols = Array.from(new Set(bySymbol.map(coin => coin.symbol)));
+      const response = await this.client.getCryptocurrencyQuotesLatest({ ...params, symbol: symbols.join(',') });
+      const data = (response.data || {}) as Record<string, CryptocurrencyQuoteEntry | CryptocurrencyQuoteEntry[]>;
+      for (const coin of bySymbol) {
+        const crypto = data[coin.symbol];
+        if (crypto) {
+          quotes.set(coin, Array.isArray(crypto) ? crypto[0] : crypto);
+        }
+      }
+    }
+
+    return quotes;
+  }
+
+  getStats() {
+    return {
+      loaded: this.loaded,
+      coins: this.byId.size,
+      symbols: this.bySymbol.size,
+      colliding_symbols: Array.from(this.bySymbol.values()).filter(coins => coins.length > 1).length,
+      fetched_at: this.fetchedAt ? new Date(this.fetchedAt).toISOString() : null,
+      file: this.store.getFilePath(),
+    };
+  }
+
+  private async refresh(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.fetchMap().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    await this.refreshing;
+  }
+
+  private async fetchMap(): Promise<void> {
+    this.lastAttemptAt = Date.now();
+
+    try {
+      const coins: CoinMapEntry[] = [];
+      for (let page = 0; page < MAX_MAP_PAGES; page++) {
+        const response = await this.client.withRequestOptions({ tool: 'coin_map' }, () =>
+          this.client.getCryptocurrencyMap({
+            listing_status: 'active',
+            start: page * MAP_PAGE_SIZE + 1,
+            limit: MAP_PAGE_SIZE,
+            sort: 'cmc_rank',
+            aux: 'platform,first_historical_data,last_historical_data,is_active',
+          }));
+        const data = (response.data || []) as RawMapEntry[];
+        coins.push(...data.map(toEntry));
+        if (data.length < MAP_PAGE_SIZE) break;
+      }
+
+      if (coins.length === 0) {
+        throw new Error('Coin map response was empty');
+      }
+
+      const fetchedAt = Date.now();
+      this.index(coins, fetchedAt);
+      await this.store.save({ version: 1, fetched_at: new Date(fetchedAt).toISOString(), coins });
+
+      logger.info('Coin map refreshed', {
+        coins: this.byId.size,
+        symbols: this.bySymbol.size,
+      });
+    } catch (error) {
+      logger.warn('Coin map refresh failed', {
+        error: error instanceof Error ? error.message : String(error),
+        keepingStaleMap: this.loaded,
+      });
+    }
+  }
+
+  private index(coins: CoinMapEntry[], fetchedAt: number): void {
+    this.byId = new Map();
+    this.bySymbol = new Map();
+    this.bySlug = new Map();
+
+    for (const coin of coins) {
+      this.byId.set(coin.id, coin);
+      this.bySlug.set(coin.slug.toLowerCase(), coin);
+      const sharing = this.bySymbol.get(coin.symbol) || [];
+      sharing.push(coin);
+      this.bySymbol.set(coin.symbol, sharing);
+    }
+    this.bySymbol.forEach(sharing => sharing.sort(byRank));
+
+    this.loaded = true;
+    this.fetchedAt = fetchedAt;
+  }
+}
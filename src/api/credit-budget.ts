@@ -0,0 +1,173 @@
+import { ApiTierManager } from '../config/api-tiers.js';
+import { CreditLedger, CreditCounter, monthOf } from '../storage/credit-ledger.js';
+import { CreditUsageReport } from '../types/api.js';
+
+export type CreditBudgetMode = 'off' | 'soft' | 'hard';
+
+export const CREDIT_BUDGET_MODES: CreditBudgetMode[] = ['off', 'soft', 'hard'];
+
+export interface CreditBudgetOptions {
+  mode?: CreditBudgetMode;
+  // Overrides the plan's maxCallsPerMonth
+  monthlyBudget?: number;
+  // Usage (percent of budget) at which warnings start
+  warnPercent?: number;
+  // Hard mode: above this usage only cheap calls are allowed, keeping the rest for them
+  reservePercent?: number;
+  // Calls estimated at this many credits or more count as expensive
+  expensiveCredits?: number;
+}
+
+const WARNING_INTERVAL_MS = 10 * 60 * 1000;
+
+const toList = (counters: Record<string, CreditCounter>) =>
+  Object.entries(counters)
+    .map(([name, counter]) => ({ name, credits: counter.credits, calls: counter.calls }))
+    .sort((a, b) => b.credits - a.credits);
+
+// Compares the credit ledger against the monthly plan budget. In soft mode it
+// only warns; in hard mode it refuses calls before the month's credits run out,
+// refusing expensive calls first once the reserve threshold is crossed.
+export class CreditBudget {
+  private readonly mode: CreditBudgetMode;
+  private readonly warnPercent: number;
+  private readonly reservePercent: number;
+  private readonly expensiveCredits: number;
+  private lastWarningAt = 0;
+
+  constructor(
+    private ledger: CreditLedger,
+    private tierManager: ApiTierManager,
+    private options: CreditBudgetOptions = {},
+  ) {
+    this.mode = options.mode || 'soft';
+    if (!CREDIT_BUDGET_MODES.includes(this.mode)) {
+      throw new Error(`Invalid credit budget mode '${this.mode}'. Must be one of: ${CREDIT_BUDGET_MODES.join(', ')}`);
+    }
+    this.warnPercent = options.warnPercent ?? 80;
+    this.reservePercent = options.reservePercent ?? 90;
+    this.expensiveCredits = options.expensiveCredits ?? 2;
+  }
+
+  getMode(): CreditBudgetMode {
+    return this.mode;
+  }
+
+  getMonthlyBudget(): number {
+    return this.options.monthlyBudget || this.tierManager.getRateLimits().maxCallsPerMonth;
+  }
+
+  // Throws when a hard budget would be exceeded by a call to this endpoint
+  async checkBeforeRequest(endpoint: string): Promise<void> {
+    if (this.mode === 'off') return;
+
+    const usage = await this.ledger.getMonth();
+    const budget = this.getMonthlyBudget();
+    const estimate = await this.estimateCredits(endpoint);
+    const projected = usage.credits + estimate;
+
+    if (this.mode === 'hard') {
+      if (projected > budget) {
+        throw new Error(
+          `Monthly credit budget exhausted: ${usage.credits}/${budget} credits used in ${usage.month}. ` +
+          'Calls resume next month, or raise CREDIT_MONTHLY_BUDGET.',
+        );
+      }
+      if (estimate >= this.expensiveCredits && projected > budget * this.reservePercent / 100) {
+        throw new Error(
+          `Credit budget reserve reached (${this.reservePercent}% of ${budget}): refusing expensive call to ${endpoint} ` +
+          `(~${Math.ceil(estimate)} credits). ${budget - usage.credits} credits are kept for cheaper calls this month.`,
+        );
+      }
+    }
+
+    if (projected >= budget * this.warnPercent / 100 && Date.now() - this.lastWarningAt > WARNING_INTERVAL_MS) {
+      this.lastWarningAt = Date.now();
+      console.error(`[${new Date().toISOString()}] WARN: Credit budget ${Math.round(usage.credits / budget * 100)}% used`, {
+        month: usage.month,
+        credits: usage.credits,
+        budget,
+        mode: this.mode,
+      });
+    }
+  }
+
+  async record(endpoint: string, tool: string, credits: number, reportedRemaining?: number): Promise<void> {
+    await this.ledger.record(endpoint, tool, credits, reportedRemaining);
+  }
+
+  async getUsageReport(month: string = monthOf(), days: number = 31): Promise<CreditUsageReport> {
+    const usage = await this.ledger.getMonth(month);
+    const budget = this.getMonthlyBudget();
+    const now = new Date();
+    const isCurrentMonth = month === monthOf(now);
+
+    // Linear projection of month-end usage from the pace so far
+    const [year, monthIndex] = month.split('-').map(Number);
+    const monthStart = Date.UTC(year, monthIndex - 1, 1);
+    const monthEnd = Date.UTC(year, monthIndex, 1);
+    const elapsed = isCurrentMonth ? Math.max(now.getTime() - monthStart, 60 * 60 * 1000) : monthEnd - monthStart;
+    const projected = Math.round(usage.credits * (monthEnd - monthStart) / elapsed);
+    const daysRemaining = isCurrentMonth ? Math.ceil((monthEnd - now.getTime()) / (24 * 60 * 60 * 1000)) : 0;
+    const remaining = Math.max(0, budget - usage.credits);
+    const usedPercent = budget > 0 ? usage.credits / budget * 100 : 0;
+
+    let status: CreditUsageReport['budget']['status'] = 'ok';
+    if (usage.credits >= budget) {
+      status = 'exhausted';
+    } else if (usedPercent >= this.warnPercent) {
+      status = 'warning';
+    } else if (projected > budget) {
+      status = 'over_pace';
+    }
+
+    const recommendations: string[] = [];
+    if (status === 'exhausted') {
+      recommendations.push(this.mode === 'hard'
+        ? 'Budget exhausted: API calls are refused until next month. Cached data is still served.'
+        : 'Budget exhausted: further calls may fail or incur overage. Consider CREDIT_BUDGET_MODE=hard.');
+    } else if (status === 'warning') {
+      recommendations.push(`Over ${this.warnPercent}% of the monthly budget used. Prefer cached and batched tools.`);
+    } else if (status === 'over_pace') {
+      recommendations.push(`At the current pace about ${projected} credits will be used this month, over the ${budget} budget.`);
+    }
+    if (daysRemaining > 0 && status !== 'exhausted') {
+      recommendations.push(`About ${Math.round(remaining / daysRemaining * 10) / 10} credits per day remain available.`);
+    }
+
+    return {
+      month,
+      budget: {
+        mode: this.mode,
+        monthly_budget: budget,
+        source: this.options.monthlyBudget ? 'CREDIT_MONTHLY_BUDGET' : `${this.tierManager.getTier()} plan`,
+        warn_percent: this.warnPercent,
+        reserve_percent: this.reservePercent,
+        status,
+      },
+      usage: {
+        credits_used: usage.credits,
+        calls: usage.calls,
+        credits_remaining: remaining,
+        used_percent: Math.round(usedPercent * 100) / 100,
+        projected_month_end: projected,
+        days_remaining: daysRemaining,
+        reported_remaining: usage.reported_remaining,
+        last_updated: usage.last_updated,
+      },
+      by_endpoint: toList(usage.by_endpoint),
+      by_tool: toList(usage.by_tool),
+      by_day: Object.entries(usage.by_day)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .slice(-days)
+        .map(([date, counter]) => ({ date, credits: counter.credits, calls: counter.calls })),
+      available_months: await this.ledger.listMonths(),
+      recommendations,
+      timestamp: now.toISOString(),
+    };
+  }
+
+  private async estimateCredits(endpoint: string): Promise<number> {
+    return (await this.ledger.getAverageCredits(endpoint)) ?? 1;
+  }
+}
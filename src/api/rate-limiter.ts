@@ -3,9 +3,11 @@ export class RateLimiter {
   private readonly maxRequests: number;
   private readonly timeWindow: number;
 
-  constructor(maxRequests: number = 100, timeWindowMs: number = 60000) {
+  // Pass the timestamps of an earlier limiter to keep its window when resizing
+  constructor(maxRequests: number = 100, timeWindowMs: number = 60000, requests: number[] = []) {
     this.maxRequests = maxRequests;
     this.timeWindow = timeWindowMs;
+    this.requests = [...requests];
   }
 
   canMakeRequest(): boolean {
@@ -30,6 +32,11 @@ export class RateLimiter {
     this.requests = this.requests.filter(timestamp => timestamp > cutoff);
   }
 
+  getRequestTimestamps(): number[] {
+    this.cleanupOldRequests(Date.now());
+    return [...this.requests];
+  }
+
   getRequestCount(): number {
     const now = Date.now();
     this.cleanupOldRequests(now);
@@ -74,10 +81,10 @@ export class TokenBucket {
   private readonly capacity: number;
   private readonly refillRate: number;
 
-  constructor(capacity: number = 100, refillRate: number = 10) {
+  constructor(capacity: number = 100, refillRate: number = 10, initialTokens: number = capacity) {
     this.capacity = capacity;
     this.refillRate = refillRate; // tokens per second
-    this.tokens = capacity;
+    this.tokens = Math.min(capacity, initialTokens);
     this.lastRefill = Date.now();
   }
 
@@ -128,4 +135,169 @@ export class TokenBucket {
       lastRefill: this.lastRefill,
     };
   }
-}
\ No newline at end of file
+}
+
+export type RequestPriority = 'high' | 'normal' | 'low';
+
+export const REQUEST_PRIORITIES: RequestPriority[] = ['high', 'normal', 'low'];
+
+export interface RequestQueueOptions {
+  maxRequestsPerMinute: number;
+  burstSize?: number;
+  maxWaitMs?: number;
+}
+
+interface QueuedRequest {
+  priority: RequestPriority;
+  enqueuedAt: number;
+  deadline: number;
+  start: () => void;
+  reject: (error: Error) => void;
+}
+
+// Queues outgoing API requests instead of failing them when the rate limit is
+// reached. A TokenBucket smooths bursts, the RateLimiter enforces the hard
+// per-minute window, and higher-priority requests are released first. Requests
+// that cannot start within their max wait are rejected.
+export class RequestQueue {
+  private bucket: TokenBucket;
+  private limiter: RateLimiter;
+  private queue: QueuedRequest[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private pausedUntil = 0;
+  private maxRequestsPerMinute: number;
+  private burstSize: number;
+  private readonly maxWaitMs: number;
+  private completed = 0;
+  private timedOut = 0;
+  private totalWaitMs = 0;
+
+  constructor(options: RequestQueueOptions) {
+    this.maxRequestsPerMinute = Math.max(1, options.maxRequestsPerMinute);
+    this.burstSize = options.burstSize ?? 10;
+    this.maxWaitMs = options.maxWaitMs ?? 30000;
+    this.bucket = this.createBucket();
+    this.limiter = new RateLimiter(this.maxRequestsPerMinute, 60000);
+  }
+
+  // Resize for a new plan limit, e.g. after tier detection. Queued requests are
+  // kept, and so are the requests already sent in the current window: starting
+  // from an empty window would allow a second full minute's worth at once.
+  setRateLimit(maxRequestsPerMinute: number): void {
+    this.maxRequestsPerMinute = Math.max(1, maxRequestsPerMinute);
+    this.bucket = this.createBucket(this.bucket.getAvailableTokens());
+    this.limiter = new RateLimiter(this.maxRequestsPerMinute, 60000, this.limiter.getRequestTimestamps());
+    this.drain();
+  }
+
+  getRateLimit(): number {
+    return this.maxRequestsPerMinute;
+  }
+
+  schedule<T>(task: () => Promise<T>, priority: RequestPriority = 'normal', maxWaitMs: number = this.maxWaitMs): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const now = Date.now();
+      this.queue.push({
+        priority,
+        enqueuedAt: now,
+        deadline: now + maxWaitMs,
+        start: () => {
+          this.totalWaitMs += Date.now() - now;
+          this.completed++;
+          task().then(resolve, reject);
+        },
+        reject,
+      });
+      this.queue.sort((a, b) =>
+        REQUEST_PRIORITIES.indexOf(a.priority) - REQUEST_PRIORITIES.indexOf(b.priority) || a.enqueuedAt - b.enqueuedAt);
+      this.drain();
+    });
+  }
+
+  // Hold all requests, e.g. after the API answered 429 with Retry-After
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    this.drain();
+  }
+
+  getQueueDepth(): number {
+    return this.queue.length;
+  }
+
+  // Estimated wait for a request enqueued now at the given priority
+  estimateWaitMs(priority: RequestPriority = 'normal'): number {
+    const rank = REQUEST_PRIORITIES.indexOf(priority);
+    const ahead = this.queue.filter(request => REQUEST_PRIORITIES.indexOf(request.priority) <= rank).length;
+    const tokenWait = this.bucket.getWaitTime(ahead + 1);
+    const windowWait = ahead === 0 ? this.limiter.getWaitTime() : 0;
+    const pauseWait = Math.max(0, this.pausedUntil - Date.now());
+    return Math.ceil(Math.max(tokenWait, windowWait, pauseWait));
+  }
+
+  getStats() {
+    const queuedByPriority = REQUEST_PRIORITIES.reduce((result, priority) => {
+      result[priority] = this.queue.filter(request => request.priority === priority).length;
+      return result;
+    }, {} as Record<RequestPriority, number>);
+
+    const estimatedWaitMs = REQUEST_PRIORITIES.reduce((result, priority) => {
+      result[priority] = this.estimateWaitMs(priority);
+      return result;
+    }, {} as Record<RequestPriority, number>);
+
+    const now = Date.now();
+    return {
+      queueDepth: this.queue.length,
+      queuedByPriority,
+      estimatedWaitMs,
+      oldestQueuedMs: this.queue.length > 0 ? now - Math.min(...this.queue.map(request => request.enqueuedAt)) : 0,
+      averageWaitMs: this.completed > 0 ? Math.round(this.totalWaitMs / this.completed) : 0,
+      timedOutRequests: this.timedOut,
+      maxWaitMs: this.maxWaitMs,
+      pausedForMs: Math.max(0, this.pausedUntil - now),
+      tokens: this.bucket.getStats(),
+      window: this.limiter.getStats(),
+    };
+  }
+
+  private createBucket(initialTokens?: number): TokenBucket {
+    const capacity = Math.max(1, Math.min(this.burstSize, this.maxRequestsPerMinute));
+    return new TokenBucket(capacity, this.maxRequestsPerMinute / 60, initialTokens ?? capacity);
+  }
+
+  private drain(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const now = Date.now();
+    this.expire(now);
+
+    while (this.queue.length > 0 && now >= this.pausedUntil && this.limiter.canMakeRequest() && this.bucket.consume()) {
+      const next = this.queue.shift()!;
+      this.limiter.recordRequest();
+      next.start();
+    }
+
+    if (this.queue.length > 0) {
+      const wait = Math.max(this.pausedUntil - now, this.bucket.getWaitTime(), this.limiter.getWaitTime());
+      const nextDeadline = Math.min(...this.queue.map(request => request.deadline)) - now;
+      this.timer = setTimeout(() => this.drain(), Math.max(10, Math.min(wait, nextDeadline)));
+    }
+  }
+
+  private expire(now: number): void {
+    const expired = this.queue.filter(request => request.deadline <= now);
+    if (expired.length === 0) return;
+
+    this.queue = this.queue.filter(request => request.deadline > now);
+    for (const request of expired) {
+      this.timedOut++;
+      request.reject(new Error(
+        `Rate limit exceeded: request waited ${Math.ceil((now - request.enqueuedAt) / 1000)}s in the queue ` +
+        `(${this.maxRequestsPerMinute} requests per minute). Please retry shortly.`,
+      ));
+    }
+  }
+}
@@ -16,6 +16,7 @@ export const PREMIUM_ENDPOINTS = {
   // Historical data endpoints (require paid plans)
   HISTORICAL_OHLCV: '/v1/cryptocurrency/ohlcv/historical',
   HISTORICAL_QUOTES: '/v2/cryptocurrency/quotes/historical',
+  GLOBAL_METRICS_HISTORICAL: '/v1/global-metrics/quotes/historical',
   
   // Trending and social metrics (require paid plans)
   TRENDING_LATEST: '/v1/cryptocurrency/trending/latest',
@@ -36,6 +37,7 @@ export const FREE_TIER_ENDPOINTS = {
   CRYPTOCURRENCY_QUOTES_LATEST: '/v2/cryptocurrency/quotes/latest',
   CRYPTOCURRENCY_INFO: '/v2/cryptocurrency/info',
   CRYPTOCURRENCY_MAP: '/v1/cryptocurrency/map',
+  FIAT_MAP: '/v1/fiat/map',
   
   // Global metrics
   GLOBAL_METRICS_QUOTES_LATEST: '/v1/global-metrics/quotes/latest',
@@ -44,13 +46,42 @@ export const FREE_TIER_ENDPOINTS = {
   PRICE_CONVERSION: '/v1/tools/price-conversion',
 };
 
-// Configuration for each API tier
-export const API_TIER_CONFIG = {
+// Exchange-level data starts at the Standard plan
+export const STANDARD_ENDPOINTS = {
+  MARKET_PAIRS_LATEST: PREMIUM_ENDPOINTS.MARKET_PAIRS_LATEST,
+  EXCHANGE_LISTINGS_LATEST: PREMIUM_ENDPOINTS.EXCHANGE_LISTINGS_LATEST,
+  EXCHANGE_QUOTES_HISTORICAL: '/v1/exchange/quotes/historical',
+};
+
+const STARTUP_ENDPOINTS = Object.fromEntries(
+  Object.entries(PREMIUM_ENDPOINTS).filter(([, endpoint]) => !Object.values(STANDARD_ENDPOINTS).includes(endpoint)),
+);
+
+// OHLCV intervals accepted by /v1/cryptocurrency/ohlcv/historical
+const DAILY_INTERVALS = ['daily', 'weekly', 'monthly', 'yearly', '1d', '2d', '3d', '7d', '14d', '15d', '30d', '60d', '90d', '365d'];
+const INTRADAY_INTERVALS = ['hourly', '1h', '2h', '3h', '4h', '6h', '12h'];
+
+const PAID_FEATURES = {
+  historicalData: true,
+  trendingData: true,
+  advancedAnalytics: true,
+  technicalIndicators: true,
+  riskMetrics: true,
+};
+
+// Configuration for each API tier. maxHistoricalDays is how far back historical
+// endpoints may reach on the plan (Hobbyist/Startup 1 month, Standard 3 months,
+// Professional 12 months, Enterprise up to 6 years). maxConvertsPerRequest
+// follows the plans' currency conversion limits (Basic 1, Hobbyist 40, 120 above).
+export const API_TIER_CONFIG: Record<ApiTier, ApiTierConfig> = {
   [ApiTier.FREE]: {
     maxCallsPerMonth: 10000,
     maxCallsPerMinute: 30,
+    maxHistoricalDays: 0,
+    historicalIntervals: [],
+    maxConvertsPerRequest: 1,
     availableEndpoints: FREE_TIER_ENDPOINTS,
-    blockedEndpoints: PREMIUM_ENDPOINTS,
+    blockedEndpoints: { ...PREMIUM_ENDPOINTS, ...STANDARD_ENDPOINTS },
     features: {
       historicalData: false,
       trendingData: false,
@@ -60,33 +91,118 @@ export const API_TIER_CONFIG = {
     },
   },
   [ApiTier.STARTUP]: {
-    maxCallsPerMonth: 1000000,
-    maxCallsPerMinute: 100,
-    availableEndpoints: { ...FREE_TIER_ENDPOINTS, ...PREMIUM_ENDPOINTS },
+    maxCallsPerMonth: 300000,
+    maxCallsPerMinute: 30,
+    maxHistoricalDays: 30,
+    historicalIntervals: DAILY_INTERVALS,
+    maxConvertsPerRequest: 40,
+    availableEndpoints: { ...FREE_TIER_ENDPOINTS, ...STARTUP_ENDPOINTS },
+    blockedEndpoints: STANDARD_ENDPOINTS,
+    features: PAID_FEATURES,
+  },
+  [ApiTier.STANDARD]: {
+    maxCallsPerMonth: 1200000,
+    maxCallsPerMinute: 60,
+    maxHistoricalDays: 90,
+    historicalIntervals: [...DAILY_INTERVALS, ...INTRADAY_INTERVALS],
+    maxConvertsPerRequest: 120,
+    availableEndpoints: { ...FREE_TIER_ENDPOINTS, ...PREMIUM_ENDPOINTS, ...STANDARD_ENDPOINTS },
     blockedEndpoints: {},
-    features: {
-      historicalData: true,
-      trendingData: true,
-      advancedAnalytics: true,
-      technicalIndicators: true,
-      riskMetrics: true,
-    },
+    features: PAID_FEATURES,
+  },
+  [ApiTier.PROFESSIONAL]: {
+    maxCallsPerMonth: 3000000,
+    maxCallsPerMinute: 90,
+    maxHistoricalDays: 365,
+    historicalIntervals: [...DAILY_INTERVALS, ...INTRADAY_INTERVALS],
+    maxConvertsPerRequest: 120,
+    availableEndpoints: { ...FREE_TIER_ENDPOINTS, ...PREMIUM_ENDPOINTS, ...STANDARD_ENDPOINTS },
+    blockedEndpoints: {},
+    features: PAID_FEATURES,
+  },
+  [ApiTier.ENTERPRISE]: {
+    maxCallsPerMonth: 30000000,
+    maxCallsPerMinute: 120,
+    maxHistoricalDays: 6 * 365,
+    historicalIntervals: [...DAILY_INTERVALS, ...INTRADAY_INTERVALS],
+    maxConvertsPerRequest: 120,
+    availableEndpoints: { ...FREE_TIER_ENDPOINTS, ...PREMIUM_ENDPOINTS, ...STANDARD_ENDPOINTS },
+    blockedEndpoints: {},
+    features: PAID_FEATURES,
   },
 };
 
+export type HistoricalRangePolicy = 'clamp' | 'reject';
+
+export interface ApiTierManagerOptions {
+  // What to do with ranges that reach further back than the plan allows
+  historicalRangePolicy?: HistoricalRangePolicy;
+  // Overrides the tier's maxHistoricalDays, e.g. for custom Enterprise contracts
+  historicalDepthDays?: number;
+}
+
+export interface HistoricalRange {
+  start: Date;
+  end: Date;
+  clamped: boolean;
+  requested_start: string;
+  earliest_allowed: string;
+  max_days: number;
+}
+
+// Raised when the current plan cannot serve a request (range too old, interval
+// not included); tools surface it instead of treating it as missing data
+export class PlanLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PlanLimitError';
+  }
+}
+
+// Plan details reported by /v1/key/info
+export interface DetectedPlan {
+  tier: ApiTier;
+  creditLimitMonthly: number;
+  creditLimitDaily?: number;
+  rateLimitMinute?: number;
+  creditsUsedMonth?: number;
+  creditsLeftMonth?: number;
+  detectedAt: string;
+}
+
+// Monthly credit limits reported by /v1/key/info, mapped to the smallest tier
+// that includes them (Basic = free, Hobbyist and Startup = startup)
+export const PLAN_CREDIT_THRESHOLDS: Array<{ maxMonthlyCredits: number; tier: ApiTier }> = [
+  { maxMonthlyCredits: 10000, tier: ApiTier.FREE },
+  { maxMonthlyCredits: 300000, tier: ApiTier.STARTUP },
+  { maxMonthlyCredits: 1200000, tier: ApiTier.STANDARD },
+  { maxMonthlyCredits: 3000000, tier: ApiTier.PROFESSIONAL },
+];
+
+export const mapPlanToTier = (creditLimitMonthly: number): ApiTier =>
+  PLAN_CREDIT_THRESHOLDS.find(threshold => creditLimitMonthly <= threshold.maxMonthlyCredits)?.tier || ApiTier.ENTERPRISE;
+
+// Unknown tier values (e.g. a typo in CMC_API_TIER) get free tier access
+const resolveTierConfig = (tier: ApiTier): ApiTierConfig => API_TIER_CONFIG[tier] || API_TIER_CONFIG[ApiTier.FREE];
+
 // Tool to endpoint mapping (which tools require which endpoints)
 export const TOOL_ENDPOINT_MAPPING = {
   // Tools that work with free tier
   'get_crypto_price': [FREE_TIER_ENDPOINTS.CRYPTOCURRENCY_QUOTES_LATEST],
   'get_multiple_prices': [FREE_TIER_ENDPOINTS.CRYPTOCURRENCY_QUOTES_LATEST],
+  'convert_amount': [FREE_TIER_ENDPOINTS.PRICE_CONVERSION],
   'get_top_cryptocurrencies': [FREE_TIER_ENDPOINTS.CRYPTOCURRENCY_LISTINGS_LATEST],
-  'search_cryptocurrencies': [FREE_TIER_ENDPOINTS.CRYPTOCURRENCY_LISTINGS_LATEST],
+  'search_cryptocurrencies': [FREE_TIER_ENDPOINTS.CRYPTOCURRENCY_MAP, FREE_TIER_ENDPOINTS.CRYPTOCURRENCY_QUOTES_LATEST],
   'get_market_overview': [FREE_TIER_ENDPOINTS.GLOBAL_METRICS_QUOTES_LATEST, FREE_TIER_ENDPOINTS.CRYPTOCURRENCY_LISTINGS_LATEST],
+  // The dominance time series is added when the plan includes historical global metrics
   'get_market_dominance': [FREE_TIER_ENDPOINTS.GLOBAL_METRICS_QUOTES_LATEST],
+  'analyze_portfolio': [FREE_TIER_ENDPOINTS.CRYPTOCURRENCY_QUOTES_LATEST],
+  'check_alerts': [FREE_TIER_ENDPOINTS.CRYPTOCURRENCY_QUOTES_LATEST],
+  // Use the trending endpoints when available, otherwise fall back to listings
+  'get_trending_cryptocurrencies': [FREE_TIER_ENDPOINTS.CRYPTOCURRENCY_LISTINGS_LATEST],
+  'get_gainers_losers': [FREE_TIER_ENDPOINTS.CRYPTOCURRENCY_LISTINGS_LATEST],
   
   // Tools that require premium endpoints
-  'get_trending_cryptocurrencies': [PREMIUM_ENDPOINTS.TRENDING_LATEST],
-  'get_gainers_losers': [PREMIUM_ENDPOINTS.TRENDING_GAINERS_LOSERS],
   'calculate_technical_indicators': [PREMIUM_ENDPOINTS.HISTORICAL_OHLCV],
   'analyze_price_action': [PREMIUM_ENDPOINTS.HISTORICAL_OHLCV],
   'generate_trading_signals': [PREMIUM_ENDPOINTS.HISTORICAL_OHLCV],
@@ -95,24 +211,90 @@ export const TOOL_ENDPOINT_MAPPING = {
   'analyze_price_performance': [PREMIUM_ENDPOINTS.HISTORICAL_QUOTES],
   'compare_historical_performance': [PREMIUM_ENDPOINTS.HISTORICAL_QUOTES],
   'analyze_market_cycles': [PREMIUM_ENDPOINTS.HISTORICAL_OHLCV],
-  'calculate_risk_metrics': [PREMIUM_ENDPOINTS.HISTORICAL_QUOTES],
+  'calculate_risk_metrics': [PREMIUM_ENDPOINTS.HISTORICAL_OHLCV],
+  'correlation_matrix': [PREMIUM_ENDPOINTS.HISTORICAL_OHLCV],
   
-  // Altcoin season analysis may work with free tier data
-  'analyze_altcoin_season': [FREE_TIER_ENDPOINTS.CRYPTOCURRENCY_LISTINGS_LATEST],
+  // Altcoin season analysis works with free tier data (listings plus global metrics)
+  'analyze_altcoin_season': [FREE_TIER_ENDPOINTS.CRYPTOCURRENCY_LISTINGS_LATEST, FREE_TIER_ENDPOINTS.GLOBAL_METRICS_QUOTES_LATEST],
 };
 
 export class ApiTierManager {
   private tier: ApiTier;
   private config: ApiTierConfig;
+  private detectedPlan: DetectedPlan | null = null;
+  // Endpoints the API rejected at runtime (error 1006) regardless of tier
+  private deniedEndpoints = new Map<string, { reason: string; denied_at: string }>();
+  // Set while the API refuses the key as a whole (HTTP 402)
+  private keyFailure: { reason: string; failed_at: string } | null = null;
+  private listeners: Array<() => void> = [];
 
-  constructor(tier: ApiTier = ApiTier.FREE) {
+  constructor(tier: ApiTier = ApiTier.FREE, private options: ApiTierManagerOptions = {}) {
     this.tier = tier;
-    this.config = API_TIER_CONFIG[tier as keyof typeof API_TIER_CONFIG] || API_TIER_CONFIG[ApiTier.FREE];
+    this.config = resolveTierConfig(tier);
   }
 
   setTier(tier: ApiTier): void {
     this.tier = tier;
-    this.config = API_TIER_CONFIG[tier as keyof typeof API_TIER_CONFIG] || API_TIER_CONFIG[ApiTier.FREE];
+    this.config = resolveTierConfig(tier);
+    this.notifyChange();
+  }
+
+  // Applies the plan reported by /v1/key/info; its limits replace the tier defaults
+  applyDetectedPlan(plan: DetectedPlan): void {
+    this.detectedPlan = plan;
+    this.setTier(plan.tier);
+  }
+
+  getDetectedPlan(): DetectedPlan | null {
+    return this.detectedPlan;
+  }
+
+  // Returns true if the endpoint was newly marked, i.e. tool availability changed
+  markEndpointUnavailable(endpoint: string, reason: string): boolean {
+    if (this.deniedEndpoints.has(endpoint)) return false;
+
+    this.deniedEndpoints.set(endpoint, { reason, denied_at: new Date().toISOString() });
+    console.error(`[${new Date().toISOString()}] WARN: Endpoint rejected by API plan, disabling dependent tools`, {
+      endpoint,
+      reason,
+      tools: Object.keys(TOOL_ENDPOINT_MAPPING).filter(tool =>
+        (TOOL_ENDPOINT_MAPPING[tool as keyof typeof TOOL_ENDPOINT_MAPPING] as string[]).includes(endpoint)),
+    });
+    this.notifyChange();
+    return true;
+  }
+
+  getDeniedEndpoints(): Array<{ endpoint: string; reason: string; denied_at: string }> {
+    return Array.from(this.deniedEndpoints.entries()).map(([endpoint, info]) => ({ endpoint, ...info }));
+  }
+
+  // Tools stay listed: the failure clears as soon as a request succeeds again
+  setKeyFailure(reason: string | null): void {
+    if (reason === null) {
+      if (this.keyFailure) {
+        console.error(`[${new Date().toISOString()}] INFO: API key accepted again after payment-required failures`);
+      }
+      this.keyFailure = null;
+      return;
+    }
+
+    this.keyFailure = { reason, failed_at: new Date().toISOString() };
+    console.error(`[${new Date().toISOString()}] ERROR: API key refused with payment required, every endpoint is affected. Check the plan's credits and billing.`, {
+      reason,
+    });
+  }
+
+  getKeyFailure(): { reason: string; failed_at: string } | null {
+    return this.keyFailure;
+  }
+
+  // Called whenever the tier or the set of available tools changes
+  onChange(listener: () => void): void {
+    this.listeners.push(listener);
+  }
+
+  private notifyChange(): void {
+    this.listeners.forEach(listener => listener());
   }
 
   getTier(): ApiTier {
@@ -120,7 +302,7 @@ export class ApiTierManager {
   }
 
   isEndpointAvailable(endpoint: string): boolean {
-    return !Object.values(this.config.blockedEndpoints).includes(endpoint);
+    return !this.deniedEndpoints.has(endpoint) && !Object.values(this.config.blockedEndpoints).includes(endpoint);
   }
 
   isToolAvailable(toolName: string): boolean {
@@ -144,12 +326,103 @@ export class ApiTierManager {
 
   getRateLimits() {
     return {
-      maxCallsPerMonth: this.config.maxCallsPerMonth,
-      maxCallsPerMinute: this.config.maxCallsPerMinute,
+      maxCallsPerMonth: this.detectedPlan?.creditLimitMonthly || this.config.maxCallsPerMonth,
+      maxCallsPerMinute: this.detectedPlan?.rateLimitMinute || this.config.maxCallsPerMinute,
     };
   }
 
+  getMaxConvertsPerRequest(): number {
+    return this.config.maxConvertsPerRequest;
+  }
+
+  getHistoricalLimits() {
+    const maxDays = this.options.historicalDepthDays ?? this.config.maxHistoricalDays;
+    return {
+      max_days: maxDays,
+      earliest_date: maxDays > 0 ? new Date(Date.now() - maxDays * 24 * 60 * 60 * 1000).toISOString().split('T')[0] : null,
+      intervals: this.config.historicalIntervals,
+      range_policy: this.options.historicalRangePolicy || 'clamp',
+    };
+  }
+
+  // Fits a historical request to the plan: ranges starting before the earliest
+  // allowed date are clamped (or rejected under the 'reject' policy); ranges
+  // entirely out of reach and unsupported intervals always throw PlanLimitError.
+  resolveHistoricalRange(startDate: Date, endDate: Date, interval: string = 'daily'): HistoricalRange {
+    const limits = this.getHistoricalLimits();
+    const tierName = this.tier.toUpperCase();
+    const requestedStart = startDate.toISOString().split('T')[0];
+
+    if (!this.config.features.historicalData || limits.max_days <= 0) {
+      throw new PlanLimitError(`Historical data is not available on the ${tierName} plan. Upgrade at https://coinmarketcap.com/api/pricing/`);
+    }
+
+    if (!limits.intervals.includes(interval)) {
+      throw new PlanLimitError(
+        `Interval '${interval}' is not available on the ${tierName} plan. Available intervals: ${limits.intervals.join(', ')}`,
+      );
+    }
+
+    const earliest = new Date(Date.now() - limits.max_days * 24 * 60 * 60 * 1000);
+    earliest.setUTCHours(0, 0, 0, 0);
+    const result: HistoricalRange = {
+      start: startDate,
+      end: endDate,
+      clamped: false,
+      requested_start: requestedStart,
+      earliest_allowed: earliest.toISOString().split('T')[0],
+      max_days: limits.max_days,
+    };
+
+    if (startDate >= earliest) {
+      return result;
+    }
+
+    if (endDate < earliest) {
+      throw new PlanLimitError(
+        `The requested range (${requestedStart} to ${endDate.toISOString().split('T')[0]}) is older than the ` +
+        `${tierName} plan's ${limits.max_days}-day historical limit. The earliest available date is ${result.earliest_allowed}.`,
+      );
+    }
+
+    if (limits.range_policy === 'reject') {
+      throw new PlanLimitError(
+        `The requested start date ${requestedStart} is beyond the ${tierName} plan's ${limits.max_days}-day historical limit. ` +
+        `Use a start date on or after ${result.earliest_allowed}.`,
+      );
+    }
+
+    return { ...result, start: earliest, clamped: true };
+  }
+
+  // For analyses that need a fixed amount of history (indicator warm-up plus the
+  // requested period): clamping those ranges would quietly return a shorter or
+  // half-warmed result, so they are rejected up front instead.
+  requireHistoricalDepth(days: number, purpose: string): void {
+    const limits = this.getHistoricalLimits();
+    const tierName = this.tier.toUpperCase();
+
+    if (!this.config.features.historicalData || limits.max_days <= 0) {
+      throw new PlanLimitError(`Historical data is not available on the ${tierName} plan. Upgrade at https://coinmarketcap.com/api/pricing/`);
+    }
+
+    if (limits.max_days < days) {
+      throw new PlanLimitError(
+        `${purpose} needs ${days} days of daily history, but the ${tierName} plan reaches back ${limits.max_days} days. ` +
+        'Choose a shorter period or lookback, or upgrade at https://coinmarketcap.com/api/pricing/',
+      );
+    }
+  }
+
   generateUnavailableToolError(toolName: string): string {
+    const requiredEndpoints = (TOOL_ENDPOINT_MAPPING[toolName as keyof typeof TOOL_ENDPOINT_MAPPING] || []) as string[];
+    const denied = requiredEndpoints.find(endpoint => this.deniedEndpoints.has(endpoint));
+    if (denied) {
+      return `This tool (${toolName}) was disabled because the API rejected ${denied} for your plan ` +
+             `(${this.deniedEndpoints.get(denied)!.reason}). Current tier: ${this.tier.toUpperCase()}. ` +
+             'Upgrade at https://coinmarketcap.com/api/pricing/ and restart the server to re-enable it.';
+    }
+
     return `This tool (${toolName}) requires a paid CoinMarketCap API plan. ` +
            `Current tier: ${this.tier.toUpperCase()}. ` +
            'Upgrade to STARTUP plan or higher at https://coinmarketcap.com/api/pricing/ ' +
@@ -0,0 +1,60 @@
+import { CoinMarketCapClient } from '../api/client.js';
+import { ApiTierManager, DetectedPlan, mapPlanToTier } from './api-tiers.js';
+import { KeyInfo } from '../types/api.js';
+
+// Reads the plan behind the API key from /v1/key/info (free of credit charge)
+// and applies it to the tier manager. Returns null and leaves the configured
+// tier in place when the endpoint cannot be reached or reports no plan.
+export const detectApiTier = async (
+  client: CoinMarketCapClient,
+  tierManager: ApiTierManager,
+): Promise<DetectedPlan | null> => {
+  const configuredTier = tierManager.getTier();
+
+  try {
+    const response = await client.withRequestOptions({ priority: 'high', tool: 'tier_detection' }, () => client.getKeyInfo());
+    const data = (response.data || {}) as KeyInfo;
+    const creditLimitMonthly = Number(data.plan?.credit_limit_monthly);
+
+    if (!creditLimitMonthly) {
+      console.error(`[${new Date().toISOString()}] WARN: API key info did not include a monthly credit limit, keeping configured tier`, {
+        tier: configuredTier,
+      });
+      return null;
+    }
+
+    const plan: DetectedPlan = {
+      tier: mapPlanToTier(creditLimitMonthly),
+      creditLimitMonthly,
+      creditLimitDaily: Number(data.plan?.credit_limit_daily) || undefined,
+      rateLimitMinute: Number(data.plan?.rate_limit_minute) || undefined,
+      creditsUsedMonth: data.usage?.current_month?.credits_used,
+      creditsLeftMonth: data.usage?.current_month?.credits_left,
+      detectedAt: new Date().toISOString(),
+    };
+
+    if (plan.tier !== configuredTier) {
+      console.error(`[${new Date().toISOString()}] WARN: Detected API tier differs from CMC_API_TIER, using detected tier`, {
+        configured: configuredTier,
+        detected: plan.tier,
+      });
+    }
+
+    tierManager.applyDetectedPlan(plan);
+
+    console.error(`[${new Date().toISOString()}] INFO: API tier detected from key info`, {
+      tier: plan.tier,
+      creditLimitMonthly: plan.creditLimitMonthly,
+      rateLimitMinute: plan.rateLimitMinute,
+      availableTools: tierManager.getAvailableTools().length,
+    });
+
+    return plan;
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] WARN: API tier detection failed, keeping configured tier`, {
+      tier: configuredTier,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+};
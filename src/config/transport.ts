@@ -0,0 +1,90 @@
+// MCP transport configuration
+// Selected with --transport/--port/--host/--ws-port CLI flags or the
+// MCP_TRANSPORT/PORT/HOST/PRICE_STREAM_PORT environment variables. CLI flags take precedence.
+// HTTP transports and the price stream WebSocket are protected by MCP_AUTH_TOKEN
+// (a bearer token, required unless bound to loopback) and by Host/Origin
+// allow-lists against DNS rebinding (MCP_ALLOWED_HOSTS, MCP_ALLOWED_ORIGINS).
+
+export type TransportMode = 'stdio' | 'sse' | 'http';
+
+export const TRANSPORT_MODES: TransportMode[] = ['stdio', 'sse', 'http'];
+
+export interface TransportConfig {
+  mode: TransportMode;
+  host: string;
+  port: number;
+  sessionIdleTimeoutMs: number;
+  // Standalone price streaming WebSocket port; disabled when undefined
+  wsPort?: number;
+  // Bearer token HTTP and WebSocket clients must send; undefined disables the check (loopback only)
+  authToken?: string;
+  // Hostnames (without port) accepted in the Host header and in browser Origins
+  allowedHosts: string[];
+  // Extra exact Origin values accepted, e.g. https://agent.example.com
+  allowedOrigins: string[];
+}
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+const isLoopback = (host: string): boolean => LOOPBACK_HOSTS.includes(host) || host === '::1';
+
+const readList = (value: string | undefined): string[] =>
+  (value || '').split(',').map(item => item.trim()).filter(Boolean);
+
+const readFlag = (argv: string[], name: string): string | undefined => {
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === `--${name}`) {
+      return argv[i + 1];
+    }
+    if (arg.startsWith(`--${name}=`)) {
+      return arg.slice(name.length + 3);
+    }
+  }
+  return undefined;
+};
+
+export const resolveTransportConfig = (
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env,
+): TransportConfig => {
+  const mode = (readFlag(argv, 'transport') || env.MCP_TRANSPORT || 'stdio').toLowerCase() as TransportMode;
+  if (!TRANSPORT_MODES.includes(mode)) {
+    throw new Error(`Invalid transport '${mode}'. Must be one of: ${TRANSPORT_MODES.join(', ')}`);
+  }
+
+  const port = parseInt(readFlag(argv, 'port') || env.PORT || '3000', 10);
+  if (isNaN(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port '${readFlag(argv, 'port') || env.PORT}'`);
+  }
+
+  const wsPortValue = readFlag(argv, 'ws-port') || env.PRICE_STREAM_PORT;
+  const wsPort = wsPortValue ? parseInt(wsPortValue, 10) : undefined;
+  if (wsPort !== undefined && (isNaN(wsPort) || wsPort < 0 || wsPort > 65535)) {
+    throw new Error(`Invalid WebSocket port '${wsPortValue}'`);
+  }
+
+  const host = readFlag(argv, 'host') || env.HOST || '127.0.0.1';
+  const authToken = env.MCP_AUTH_TOKEN || undefined;
+  if (mode !== 'stdio' && !authToken && !isLoopback(host)) {
+    throw new Error(`Refusing to serve MCP on ${host} without authentication. Set MCP_AUTH_TOKEN or bind to 127.0.0.1`);
+  }
+  // The price stream spends API credits for its subscribers, so it is protected in every transport mode
+  if (wsPort !== undefined && !authToken && !isLoopback(host)) {
+    throw new Error(`Refusing to serve the price stream on ${host} without authentication. Set MCP_AUTH_TOKEN or bind to 127.0.0.1`);
+  }
+
+  // Wildcard binds accept any address, so only loopback names are trusted unless configured
+  const bindHost = ['0.0.0.0', '::', ''].includes(host) ? [] : [host.includes(':') && !host.startsWith('[') ? `[${host}]` : host];
+
+  return {
+    mode,
+    host,
+    port,
+    sessionIdleTimeoutMs: parseInt(env.SESSION_IDLE_TIMEOUT_SECONDS || '1800', 10) * 1000,
+    wsPort,
+    authToken,
+    allowedHosts: Array.from(new Set([...LOOPBACK_HOSTS, ...bindHost, ...readList(env.MCP_ALLOWED_HOSTS)])),
+    allowedOrigins: readList(env.MCP_ALLOWED_ORIGINS),
+  };
+};
@@ -3,8 +3,15 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   CallToolRequestSchema,
   ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
   McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import dotenv from 'dotenv';
 
@@ -14,36 +21,58 @@ dotenv.config();
 // Import our tool classes
 import { CoinMarketCapClient } from './api/client.js';
 import { CacheManager } from './api/cache.js';
+import { FileCacheBackend } from './api/cache-backends.js';
+import { CandleHistory } from './api/candle-history.js';
+import { CoinRegistry } from './api/coin-registry.js';
+import { CreditBudget, CreditBudgetMode } from './api/credit-budget.js';
 import { PriceDataTools } from './tools/price-data.js';
 import { MarketMetricsTools } from './tools/market-metrics.js';
 import { TechnicalAnalysisTools } from './tools/technical.js';
 import { HistoricalAnalysisTools } from './tools/historical.js';
+import { PortfolioTools } from './tools/portfolio.js';
+import { AlertTools } from './tools/alerts.js';
+import { RiskAnalysisTools } from './tools/risk.js';
+import { AlertStore } from './storage/alert-store.js';
+import { CandleStore } from './storage/candle-store.js';
+import { CreditLedger } from './storage/credit-ledger.js';
+import { getDataFilePath } from './storage/data-dir.js';
+import { resolveTransportConfig, TransportConfig } from './config/transport.js';
+import { McpHttpServer } from './transport/http-server.js';
+import { PricePoller } from './streaming/price-poller.js';
+import { PriceStreamServer } from './streaming/ws-server.js';
+import { QuoteResources } from './resources/quote-resources.js';
+import { MarketResources } from './resources/market-resources.js';
+import { ResourceProvider } from './resources/resource-provider.js';
+import { AnalystPrompts } from './prompts/analyst-prompts.js';
 import { sanitizeInput } from './utils/validators.js';
 import { ApiTierManager, ApiTier } from './config/api-tiers.js';
-import { RequestStats, ServerStats, RateLimitStatus, ApiTierStatus } from './types/api.js';
+import { detectApiTier } from './config/tier-detection.js';
+import { RequestStats, ServerStats, RateLimitStatus, ApiTierStatus, CreditUsageReport } from './types/api.js';
 
 class CoinMarketCapMCPServer {
-  private server: Server;
   private client: CoinMarketCapClient;
   private cache: CacheManager;
+  private coinRegistry: CoinRegistry;
   private priceDataTools: PriceDataTools;
   private marketMetricsTools: MarketMetricsTools;
   private technicalAnalysisTools: TechnicalAnalysisTools;
   private historicalAnalysisTools: HistoricalAnalysisTools;
+  private portfolioTools: PortfolioTools;
+  private alertTools: AlertTools;
+  private riskAnalysisTools: RiskAnalysisTools;
   private apiTierManager: ApiTierManager;
+  private creditLedger: CreditLedger;
+  private creditBudget: CreditBudget;
+  private transportConfig: TransportConfig;
+  private httpServer: McpHttpServer | null = null;
+  private pricePoller: PricePoller;
+  private priceStreamServer: PriceStreamServer | null = null;
+  private resourceProviders: ResourceProvider[];
+  private analystPrompts: AnalystPrompts;
+  private servers = new Set<Server>();
 
   constructor() {
-    this.server = new Server(
-      {
-        name: 'coinmarketcap-mcp-server',
-        version: '1.0.0',
-      },
-      {
-        capabilities: {
-          tools: {},
-        },
-      }
-    );
+    this.transportConfig = resolveTransportConfig();
 
     // Initialize API client and cache
     const apiKey = process.env.CMC_API_KEY;
@@ -52,77 +81,270 @@ class CoinMarketCapMCPServer {
     }
 
     const baseURL = process.env.CMC_BASE_URL || 'https://pro-api.coinmarketcap.com';
-    const maxRequestsPerMinute = parseInt(process.env.RATE_LIMIT_REQUESTS_PER_MINUTE || '100');
 
     // Initialize API tier manager
     const apiTierString = (process.env.CMC_API_TIER || 'free').toLowerCase();
     const apiTier = apiTierString as ApiTier;
-    this.apiTierManager = new ApiTierManager(apiTier);
+    this.apiTierManager = new ApiTierManager(apiTier, {
+      historicalRangePolicy: (process.env.HISTORICAL_RANGE_POLICY || 'clamp').toLowerCase() === 'reject' ? 'reject' : 'clamp',
+      historicalDepthDays: process.env.CMC_HISTORICAL_DEPTH_DAYS ? parseInt(process.env.CMC_HISTORICAL_DEPTH_DAYS, 10) : undefined,
+    });
 
     console.error(`[${new Date().toISOString()}] INFO: API Tier Configuration`, {
       tier: apiTier,
       availableTools: this.apiTierManager.getAvailableTools().length,
       unavailableTools: this.apiTierManager.getUnavailableTools().length,
-      features: this.apiTierManager.getFeatureSupport()
+      features: this.apiTierManager.getFeatureSupport(),
+    });
+
+    const maxRequestsPerMinute = this.resolveRequestsPerMinute();
+
+    // Credits spent are tracked per endpoint/tool/day and checked against the monthly budget
+    this.creditLedger = new CreditLedger();
+    this.creditBudget = new CreditBudget(this.creditLedger, this.apiTierManager, {
+      mode: (process.env.CREDIT_BUDGET_MODE || 'soft').toLowerCase() as CreditBudgetMode,
+      monthlyBudget: process.env.CREDIT_MONTHLY_BUDGET ? parseInt(process.env.CREDIT_MONTHLY_BUDGET, 10) : undefined,
+      warnPercent: parseFloat(process.env.CREDIT_BUDGET_WARN_PERCENT || '80'),
+      reservePercent: parseFloat(process.env.CREDIT_BUDGET_RESERVE_PERCENT || '90'),
+    });
+
+    this.client = new CoinMarketCapClient(apiKey, baseURL, maxRequestsPerMinute, {
+      burstSize: parseInt(process.env.RATE_LIMIT_BURST_SIZE || '10', 10),
+      maxQueueWaitMs: parseInt(process.env.RATE_LIMIT_MAX_WAIT_SECONDS || '30', 10) * 1000,
+      creditBudget: this.creditBudget,
+      onPlanRestriction: (endpoint, reason) => this.apiTierManager.markEndpointUnavailable(endpoint, reason),
+      onKeyFailure: reason => this.apiTierManager.setKeyFailure(reason),
     });
 
-    this.client = new CoinMarketCapClient(apiKey, baseURL, maxRequestsPerMinute);
+    // Tier detection and runtime plan restrictions change the rate limit and tool list
+    this.apiTierManager.onChange(() => {
+      this.client.setMaxRequestsPerMinute(this.resolveRequestsPerMinute());
+      this.servers.forEach(server => {
+        server.sendToolListChanged().catch(() => undefined);
+      });
+    });
 
     // Initialize cache
-    const cacheTTL = parseInt(process.env.CACHE_TTL_SECONDS || '300');
-    const cacheMaxKeys = parseInt(process.env.CACHE_MAX_KEYS || '1000');
-    this.cache = new CacheManager(cacheTTL, 60, cacheMaxKeys);
+    const cacheTTL = parseInt(process.env.CACHE_TTL_SECONDS || '300', 10);
+    const cacheMaxKeys = parseInt(process.env.CACHE_MAX_KEYS || '1000', 10);
+    const cacheBackend = (process.env.CACHE_BACKEND || 'memory').toLowerCase();
+    this.cache = new CacheManager(cacheTTL, 60, cacheMaxKeys, {
+      // The file backend keeps entries (and their TTLs) across restarts
+      persistentBackend: cacheBackend === 'file'
+        ? new FileCacheBackend(
+          process.env.CACHE_DIR || getDataFilePath('cache'),
+          parseInt(process.env.CACHE_DISK_MAX_KEYS || '10000', 10),
+        )
+        : undefined,
+      persistMinTtlSeconds: parseInt(process.env.CACHE_PERSIST_MIN_TTL_SECONDS || '120', 10),
+    });
+
+    // Symbols are resolved to CoinMarketCap ids through the coin map before quotes are requested
+    this.coinRegistry = new CoinRegistry(this.client);
+
+    // Closed daily candles are kept on disk and shared by the historical and technical tools
+    const candleHistory = new CandleHistory(this.client, this.cache, new CandleStore(), this.apiTierManager, this.coinRegistry);
 
     // Initialize tool classes
-    this.priceDataTools = new PriceDataTools(this.client, this.cache);
-    this.marketMetricsTools = new MarketMetricsTools(this.client, this.cache);
-    this.technicalAnalysisTools = new TechnicalAnalysisTools(this.client, this.cache);
-    this.historicalAnalysisTools = new HistoricalAnalysisTools(this.client, this.cache);
+    this.priceDataTools = new PriceDataTools(this.client, this.cache, this.coinRegistry, this.apiTierManager);
+    this.marketMetricsTools = new MarketMetricsTools(this.client, this.cache, this.apiTierManager);
+    this.technicalAnalysisTools = new TechnicalAnalysisTools(this.client, this.cache, candleHistory, this.coinRegistry);
+    this.historicalAnalysisTools = new HistoricalAnalysisTools(this.client, this.cache, candleHistory, this.coinRegistry);
+    this.portfolioTools = new PortfolioTools(this.cache, this.coinRegistry);
+    this.alertTools = new AlertTools(new AlertStore(), this.coinRegistry);
+    this.riskAnalysisTools = new RiskAnalysisTools(this.client, this.cache, candleHistory, this.coinRegistry);
+
+    // Live quote streaming shared by WebSocket clients and MCP resource subscriptions
+    const streamBudgetFraction = parseFloat(process.env.STREAM_BUDGET_FRACTION || '0.25');
+    this.pricePoller = new PricePoller(this.client, this.apiTierManager, this.coinRegistry, {
+      budgetFraction: streamBudgetFraction,
+      pollIntervalMs: parseInt(process.env.STREAM_POLL_INTERVAL_SECONDS || '0', 10) * 1000,
+    });
+    this.resourceProviders = [
+      new QuoteResources(this.client, this.cache, this.pricePoller, this.coinRegistry),
+      new MarketResources(this.client, this.cache, this.apiTierManager, this.coinRegistry, { budgetFraction: streamBudgetFraction }),
+    ];
+    this.analystPrompts = new AnalystPrompts(this.apiTierManager);
+  }
+
+  // Size the request queue from the plan; RATE_LIMIT_REQUESTS_PER_MINUTE can only lower it
+  private resolveRequestsPerMinute(): number {
+    const tierRequestsPerMinute = this.apiTierManager.getRateLimits().maxCallsPerMinute;
+    return Math.min(
+      parseInt(process.env.RATE_LIMIT_REQUESTS_PER_MINUTE || String(tierRequestsPerMinute), 10),
+      tierRequestsPerMinute,
+    );
+  }
+
+  // Each transport session gets its own MCP Server instance; the API client,
+  // cache and tier manager above are shared by all of them.
+  private createServer(getSessionId: () => string | undefined = () => undefined): Server {
+    const server = new Server(
+      {
+        name: 'coinmarketcap-mcp-server',
+        version: '1.0.0',
+      },
+      {
+        capabilities: {
+          tools: { listChanged: true },
+          resources: { subscribe: true },
+          prompts: {},
+        },
+      },
+    );
+
+    this.setupHandlers(server, getSessionId);
+    this.setupResourceHandlers(server, getSessionId);
+    this.setupPromptHandlers(server);
+
+    this.servers.add(server);
+    const closeResources = server.onclose;
+    server.onclose = () => {
+      this.servers.delete(server);
+      closeResources?.();
+    };
+    return server;
+  }
+
+  private setupResourceHandlers(server: Server, getSessionId: () => string | undefined): void {
+    // Resource subscriptions belong to this server (one per session) and end with it
+    const subscriptions = new Map<string, () => void>();
+
+    const findProvider = (uri: string) => this.resourceProviders.find(provider => provider.matches(uri));
+
+    server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: this.resourceProviders.flatMap(provider => provider.getResources()),
+    }));
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: this.resourceProviders.flatMap(provider => provider.getResourceTemplates()),
+    }));
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+      const provider = findProvider(uri);
+      if (!provider) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+      }
+      const contents = await this.client.withRequestOptions({ tool: 'resources/read' }, () => provider.readResource(uri));
+      return { contents: [contents] };
+    });
+
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      const { uri } = request.params;
+      const provider = findProvider(uri);
+      if (!provider) {
+        throw new McpError(ErrorCode.InvalidParams, `Resource does not support subscriptions: ${uri}`);
+      }
+      if (!subscriptions.has(uri)) {
+        subscriptions.set(uri, provider.subscribe(uri, () => {
+          server.sendResourceUpdated({ uri }).catch(error => {
+            console.error(`[${new Date().toISOString()}] WARN: Failed to send resource update`, {
+              sessionId: getSessionId(),
+              uri,
+              error: error instanceof Error ? error.message : error,
+            });
+          });
+        }));
+      }
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      const { uri } = request.params;
+      subscriptions.get(uri)?.();
+      subscriptions.delete(uri);
+      return {};
+    });
 
-    this.setupHandlers();
+    server.onclose = () => {
+      subscriptions.forEach(unsubscribe => unsubscribe());
+      subscriptions.clear();
+    };
+  }
+
+  private setupPromptHandlers(server: Server): void {
+    server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: this.analystPrompts.getPrompts(),
+    }));
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+      if (!this.analystPrompts.hasPrompt(name)) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+      }
+      try {
+        return this.analystPrompts.getPrompt(name, args);
+      } catch (error) {
+        throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+      }
+    });
   }
 
-  private setupHandlers(): void {
+  private setupHandlers(server: Server, getSessionId: () => string | undefined): void {
     // Handle tool listing
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       const allTools = [
         ...this.priceDataTools.getTools(),
         ...this.marketMetricsTools.getTools(),
         ...this.technicalAnalysisTools.getTools(),
         ...this.historicalAnalysisTools.getTools(),
+        ...this.portfolioTools.getTools(),
+        ...this.alertTools.getTools(),
+        ...this.riskAnalysisTools.getTools(),
         // Server management tools (always available)
         {
           name: 'get_server_info',
           description: 'Get information about the MCP server, its capabilities, and status',
-          inputSchema: { type: 'object', properties: {} }
+          inputSchema: { type: 'object', properties: {} },
         },
         {
           name: 'get_cache_stats',
           description: 'Get cache performance statistics and hit rates',
-          inputSchema: { type: 'object', properties: {} }
+          inputSchema: { type: 'object', properties: {} },
         },
         {
           name: 'get_rate_limit_status',
-          description: 'Get current rate limit status and API usage statistics',
-          inputSchema: { type: 'object', properties: {} }
+          description: 'Get current rate limit status, API usage statistics, request queue depth and estimated wait times',
+          inputSchema: { type: 'object', properties: {} },
         },
         {
           name: 'get_api_tier_status',
           description: 'Get current API tier status, available tools, and upgrade information',
-          inputSchema: { type: 'object', properties: {} }
+          inputSchema: { type: 'object', properties: {} },
+        },
+        {
+          name: 'get_credit_usage',
+          description: 'Get API credit usage for a month by endpoint, tool and day, compared against the monthly credit budget',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              month: {
+                type: 'string',
+                description: 'Month to report in YYYY-MM format (default: current month, UTC)',
+              },
+              days: {
+                type: 'number',
+                description: 'Number of most recent daily entries to include',
+                default: 31,
+                minimum: 1,
+                maximum: 31,
+              },
+            },
+          },
         },
       ];
 
       // Filter tools based on API tier availability (server management tools are always available)
-      const serverManagementTools = ['get_server_info', 'get_cache_stats', 'get_rate_limit_status', 'get_api_tier_status'];
+      const serverManagementTools = ['get_server_info', 'get_cache_stats', 'get_rate_limit_status', 'get_api_tier_status', 'get_credit_usage'];
       const availableTools = allTools.filter(tool => 
-        serverManagementTools.includes(tool.name) || this.apiTierManager.isToolAvailable(tool.name)
+        serverManagementTools.includes(tool.name) || this.apiTierManager.isToolAvailable(tool.name),
       );
 
       // Add tier information to tool descriptions
       const enhancedTools = availableTools.map(tool => ({
         ...tool,
-        description: tool.description + ` [${this.apiTierManager.getTier().toUpperCase()} tier]`
+        description: `${tool.description} [${this.apiTierManager.getTier().toUpperCase()} tier]`,
       }));
 
       return {
@@ -131,16 +353,17 @@ class CoinMarketCapMCPServer {
     });
 
     // Handle tool execution
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
       const { name, arguments: args } = request.params;
       const requestId = Math.random().toString(36).substring(7);
       const startTime = Date.now();
 
       console.error(`[${new Date().toISOString()}] INFO: Tool execution started`, {
         requestId,
+        sessionId: getSessionId(),
         toolName: name,
         argsProvided: !!args && Object.keys(args).length > 0,
-        argKeys: args ? Object.keys(args) : []
+        argKeys: args ? Object.keys(args) : [],
       });
 
       try {
@@ -152,7 +375,7 @@ class CoinMarketCapMCPServer {
             requestId,
             toolName: name,
             currentTier: this.apiTierManager.getTier(),
-            suggestion: 'Upgrade API plan or use available tools only'
+            suggestion: 'Upgrade API plan or use available tools only',
           });
 
           return {
@@ -180,22 +403,37 @@ class CoinMarketCapMCPServer {
         // Route to appropriate tool handler
         let result;
 
+        // API calls made while handling this tool are attributed to it in the credit ledger
+        const runTool = <T>(handler: () => Promise<T>) => this.client.withRequestOptions({ tool: name }, handler);
+
         // Price data tools
         const priceDataToolNames = this.priceDataTools.getTools().map(t => t.name);
         if (priceDataToolNames.includes(name)) {
-          result = await this.priceDataTools.handleToolCall(name, sanitizedArgs);
+          result = await runTool(() => this.priceDataTools.handleToolCall(name, sanitizedArgs));
         }
         // Market metrics tools
         else if (this.marketMetricsTools.getTools().map(t => t.name).includes(name)) {
-          result = await this.marketMetricsTools.handleToolCall(name, sanitizedArgs);
+          result = await runTool(() => this.marketMetricsTools.handleToolCall(name, sanitizedArgs));
         }
         // Technical analysis tools
         else if (this.technicalAnalysisTools.getTools().map(t => t.name).includes(name)) {
-          result = await this.technicalAnalysisTools.handleToolCall(name, sanitizedArgs);
+          result = await runTool(() => this.technicalAnalysisTools.handleToolCall(name, sanitizedArgs));
         }
         // Historical analysis tools
         else if (this.historicalAnalysisTools.getTools().map(t => t.name).includes(name)) {
-          result = await this.historicalAnalysisTools.handleToolCall(name, sanitizedArgs);
+          result = await runTool(() => this.historicalAnalysisTools.handleToolCall(name, sanitizedArgs));
+        }
+        // Portfolio tools
+        else if (this.portfolioTools.getTools().map(t => t.name).includes(name)) {
+          result = await runTool(() => this.portfolioTools.handleToolCall(name, sanitizedArgs));
+        }
+        // Alert tools
+        else if (this.alertTools.getTools().map(t => t.name).includes(name)) {
+          result = await runTool(() => this.alertTools.handleToolCall(name, sanitizedArgs));
+        }
+        // Risk analysis tools
+        else if (this.riskAnalysisTools.getTools().map(t => t.name).includes(name)) {
+          result = await runTool(() => this.riskAnalysisTools.handleToolCall(name, sanitizedArgs));
         }
         // Server info tools
         else if (name === 'get_server_info') {
@@ -206,10 +444,12 @@ class CoinMarketCapMCPServer {
           result = await this.getRateLimitStatus();
         } else if (name === 'get_api_tier_status') {
           result = await this.getApiTierStatus();
+        } else if (name === 'get_credit_usage') {
+          result = await this.getCreditUsage(sanitizedArgs);
         } else {
           const notFoundError = new McpError(
             ErrorCode.MethodNotFound,
-            `Tool '${name}' not found`
+            `Tool '${name}' not found`,
           );
           
           console.error(`[${new Date().toISOString()}] ERROR: Tool not found`, {
@@ -220,7 +460,10 @@ class CoinMarketCapMCPServer {
               ...this.marketMetricsTools.getTools().map(t => t.name),
               ...this.technicalAnalysisTools.getTools().map(t => t.name),
               ...this.historicalAnalysisTools.getTools().map(t => t.name),
-            ].slice(0, 5) // Log first 5 for brevity
+              ...this.portfolioTools.getTools().map(t => t.name),
+              ...this.alertTools.getTools().map(t => t.name),
+              ...this.riskAnalysisTools.getTools().map(t => t.name),
+            ].slice(0, 5), // Log first 5 for brevity
           });
           
           throw notFoundError;
@@ -235,7 +478,7 @@ class CoinMarketCapMCPServer {
           duration: `${duration}ms`,
           resultSize: `${resultSize} bytes`,
           resultType: typeof result,
-          hasData: !!result
+          hasData: !!result,
         });
 
         return {
@@ -257,7 +500,7 @@ class CoinMarketCapMCPServer {
           duration: `${duration}ms`,
           errorType: error instanceof Error ? error.constructor.name : typeof error,
           errorMessage,
-          stack: process.env.NODE_ENV === 'development' && error instanceof Error ? error.stack : undefined
+          stack: process.env.NODE_ENV === 'development' && error instanceof Error ? error.stack : undefined,
         });
 
         // Log additional context for specific error types
@@ -265,19 +508,19 @@ class CoinMarketCapMCPServer {
           console.error(`[${new Date().toISOString()}] WARN: Rate limit exceeded for tool execution`, {
             requestId,
             toolName: name,
-            suggestion: 'Consider implementing exponential backoff or caching'
+            suggestion: 'Consider implementing exponential backoff or caching',
           });
         } else if (errorMessage.includes('API key')) {
           console.error(`[${new Date().toISOString()}] ERROR: API authentication issue`, {
             requestId,
             toolName: name,
-            suggestion: 'Check CMC_API_KEY environment variable'
+            suggestion: 'Check CMC_API_KEY environment variable',
           });
         } else if (errorMessage.includes('Network') || errorMessage.includes('timeout')) {
           console.error(`[${new Date().toISOString()}] ERROR: Network connectivity issue`, {
             requestId,
             toolName: name,
-            suggestion: 'Check internet connection and CMC API status'
+            suggestion: 'Check internet connection and CMC API status',
           });
         }
 
@@ -300,15 +543,9 @@ class CoinMarketCapMCPServer {
     });
 
     // Error handling
-    this.server.onerror = (error) => {
+    server.onerror = (error) => {
       console.error('[MCP Error]', error);
     };
-
-    process.on('SIGINT', async () => {
-      console.error('Shutting down CoinMarketCap MCP Server...');
-      await this.server.close();
-      process.exit(0);
-    });
   }
 
   private async getServerInfo(): Promise<ServerStats> {
@@ -325,6 +562,13 @@ class CoinMarketCapMCPServer {
         'Market overview data',
         'Trending cryptocurrencies',
         'Raw technical data for LLM analysis',
+        'Technical indicators (RSI, MACD, SMA, EMA, Bollinger Bands)',
+        'Portfolio valuation with P&L and allocation',
+        'Persistent price alerts',
+        'Live price streaming (WebSocket and MCP resource subscriptions)',
+        'MCP resources for coin metadata, global metrics and top listings',
+        'MCP prompts for market briefs, due diligence and portfolio risk reviews',
+        'Monthly API credit tracking and budget enforcement',
       ],
       supported_cryptocurrencies: '10,000+',
       cache_enabled: true,
@@ -332,10 +576,21 @@ class CoinMarketCapMCPServer {
       uptime: process.uptime(),
       memory_usage: process.memoryUsage(),
       node_version: process.version,
+      transport: this.transportConfig.mode,
+      active_sessions: this.httpServer ? this.httpServer.getSessions().length : undefined,
       timestamp: new Date().toISOString(),
     };
   }
 
+  private async getCreditUsage(args: Record<string, unknown>): Promise<CreditUsageReport> {
+    const month = args.month === undefined ? undefined : String(args.month);
+    if (month !== undefined && !/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) {
+      throw new Error(`Invalid month '${month}'. Use YYYY-MM format`);
+    }
+    const days = Math.min(31, Math.max(1, Math.floor(Number(args.days) || 31)));
+    return this.creditBudget.getUsageReport(month, days);
+  }
+
   private async getCacheStats(): Promise<any> {
     const stats = this.cache.getStats();
     return {
@@ -343,13 +598,19 @@ class CoinMarketCapMCPServer {
         total_keys: stats.keys,
         cache_hits: stats.hits,
         cache_misses: stats.misses,
-        hit_rate: (stats.hitRate * 100).toFixed(2) + '%',
+        hit_rate: `${(stats.hitRate * 100).toFixed(2)}%`,
         memory_usage: {
           key_size: stats.ksize,
           value_size: stats.vsize,
           total_size: stats.ksize + stats.vsize,
         },
+        persistent: this.cache.isPersistent(),
       },
+      backends: this.cache.getBackendStats().map(backend => ({
+        ...backend,
+        hitRate: `${(backend.hitRate * 100).toFixed(2)}%`,
+      })),
+      coin_map: this.coinRegistry.getStats(),
       performance_impact: {
         estimated_api_calls_saved: stats.hits,
         estimated_latency_reduction: `${(stats.hits * 200).toLocaleString()}ms`,
@@ -368,6 +629,18 @@ class CoinMarketCapMCPServer {
         reset_time: new Date(stats.lastResetTime + 60000).toISOString(),
         time_until_reset: Math.max(0, stats.lastResetTime + 60000 - Date.now()),
       },
+      queue_status: stats.queue ? {
+        queue_depth: stats.queue.depth,
+        queued_by_priority: stats.queue.queuedByPriority,
+        estimated_wait_ms: stats.queue.estimatedWaitMs,
+        oldest_queued_ms: stats.queue.oldestQueuedMs,
+        average_wait_ms: stats.queue.averageWaitMs,
+        timed_out_requests: stats.queue.timedOutRequests,
+        max_wait_ms: stats.queue.maxWaitMs,
+        paused_for_ms: stats.queue.pausedForMs,
+        available_burst_tokens: stats.queue.availableTokens,
+        burst_size: stats.queue.burstSize,
+      } : undefined,
       recommendations: this.generateRateLimitRecommendations(stats),
       timestamp: new Date().toISOString(),
     };
@@ -390,6 +663,14 @@ class CoinMarketCapMCPServer {
     if (stats.remainingRequests < 10) {
       recommendations.push('Low remaining requests. Consider waiting before making more calls.');
     }
+
+    if (stats.queue && stats.queue.depth > 0) {
+      recommendations.push(`${stats.queue.depth} request(s) queued; new calls will wait about ${Math.ceil(stats.queue.estimatedWaitMs.normal / 1000)}s.`);
+    }
+
+    if (stats.queue && stats.queue.timedOutRequests > 0) {
+      recommendations.push('Some requests timed out in the queue. Raise RATE_LIMIT_MAX_WAIT_SECONDS or reduce call volume.');
+    }
     
     return recommendations;
   }
@@ -402,6 +683,13 @@ class CoinMarketCapMCPServer {
         unavailable_tools: this.apiTierManager.getUnavailableTools().length,
         feature_support: this.apiTierManager.getFeatureSupport(),
         rate_limits: this.apiTierManager.getRateLimits(),
+        historical_limits: this.apiTierManager.getHistoricalLimits(),
+      },
+      detection: {
+        enabled: (process.env.CMC_API_TIER_DETECTION || 'auto').toLowerCase() !== 'off',
+        detected_plan: this.apiTierManager.getDetectedPlan(),
+        runtime_restrictions: this.apiTierManager.getDeniedEndpoints(),
+        key_failure: this.apiTierManager.getKeyFailure(),
       },
       available_tools: this.apiTierManager.getAvailableTools(),
       unavailable_tools: this.apiTierManager.getUnavailableTools(),
@@ -414,7 +702,7 @@ class CoinMarketCapMCPServer {
         environment_variable: 'CMC_API_TIER',
         current_value: this.apiTierManager.getTier(),
         available_values: ['free', 'startup', 'standard', 'professional', 'enterprise'],
-        how_to_change: 'Set CMC_API_TIER=startup in your .env file and restart the server',
+        how_to_change: 'The tier is detected from your API key at startup. Set CMC_API_TIER and CMC_API_TIER_DETECTION=off to override it',
       },
       timestamp: new Date().toISOString(),
     };
@@ -428,7 +716,7 @@ class CoinMarketCapMCPServer {
       limitations.push('No access to historical price data (OHLCV)');
     }
     if (!features.trendingData) {
-      limitations.push('No access to trending cryptocurrencies data');
+      limitations.push('Trending and gainers/losers come from a listings proxy, without search-interest ranks');
     }
     if (!features.technicalIndicators) {
       limitations.push('Cannot access raw technical data for analysis');
@@ -440,6 +728,11 @@ class CoinMarketCapMCPServer {
       limitations.push('Limited to basic price and market data only');
     }
 
+    const historicalLimits = this.apiTierManager.getHistoricalLimits();
+    if (historicalLimits.max_days > 0) {
+      limitations.push(`Historical data limited to the last ${historicalLimits.max_days} days (since ${historicalLimits.earliest_date})`);
+    }
+
     return limitations;
   }
 
@@ -457,8 +750,8 @@ class CoinMarketCapMCPServer {
   }
 
   public async run(): Promise<void> {
-    const transport = new StdioServerTransport();
-    
+    const { mode } = this.transportConfig;
+
     console.error(`[${new Date().toISOString()}] INFO: Starting CoinMarketCap MCP Server...`);
     console.error(`[${new Date().toISOString()}] INFO: Environment:`, {
       nodeEnv: process.env.NODE_ENV || 'development',
@@ -466,25 +759,87 @@ class CoinMarketCapMCPServer {
       platform: process.platform,
       arch: process.arch,
       memoryUsage: process.memoryUsage(),
-      uptime: `${process.uptime()}s`
+      uptime: `${process.uptime()}s`,
     });
 
-    await this.server.connect(transport);
+    const { wsPort, host, authToken, allowedHosts, allowedOrigins } = this.transportConfig;
+    if (wsPort !== undefined) {
+      this.priceStreamServer = new PriceStreamServer(this.pricePoller, { host, port: wsPort, authToken, allowedHosts, allowedOrigins });
+      await this.priceStreamServer.start();
+    }
+
+    if (mode === 'stdio') {
+      const server = this.createServer();
+      await server.connect(new StdioServerTransport());
+
+      let shuttingDown = false;
+      const shutdown = async () => {
+        if (shuttingDown) return;
+        shuttingDown = true;
+        console.error('Shutting down CoinMarketCap MCP Server...');
+        await this.priceStreamServer?.stop();
+        await this.creditLedger.flush();
+        await server.close();
+        process.exit(0);
+      };
+      process.on('SIGINT', shutdown);
+      process.on('SIGTERM', shutdown);
+      // MCP clients usually stop a stdio server by closing its stdin rather than signalling it
+      process.stdin.on('end', shutdown);
+      process.stdin.on('close', shutdown);
+    } else {
+      const httpServer = new McpHttpServer({
+        config: this.transportConfig,
+        createMcpServer: (getSessionId) => this.createServer(getSessionId),
+        getHealth: () => ({
+          api_tier: this.apiTierManager.getTier(),
+          cache_keys: this.cache.getStats().keys,
+          rate_limit: this.client.getRequestStats(),
+          price_stream: {
+            ...this.pricePoller.getStatus(),
+            websocket_clients: this.priceStreamServer?.getClientCount() ?? null,
+          },
+        }),
+      });
+      await httpServer.start();
+      this.httpServer = httpServer;
+
+      const shutdown = async () => {
+        console.error('Shutting down CoinMarketCap MCP Server...');
+        await this.priceStreamServer?.stop();
+        await httpServer.stop();
+        await this.creditLedger.flush();
+        process.exit(0);
+      };
+      process.on('SIGINT', shutdown);
+      process.on('SIGTERM', shutdown);
+    }
     
+    // Detect the plan behind the API key unless the configured tier should be trusted as-is.
+    // This runs after the transport is up so a slow or unreachable API cannot hold up the
+    // client's handshake; the tool list is re-announced if the detected tier differs.
+    if ((process.env.CMC_API_TIER_DETECTION || 'auto').toLowerCase() !== 'off') {
+      void detectApiTier(this.client, this.apiTierManager);
+    }
+
     const allTools = [
       ...this.priceDataTools.getTools(),
       ...this.marketMetricsTools.getTools(),
       ...this.technicalAnalysisTools.getTools(),
       ...this.historicalAnalysisTools.getTools(),
+      ...this.portfolioTools.getTools(),
+      ...this.alertTools.getTools(),
+      ...this.riskAnalysisTools.getTools(),
     ];
 
-    console.error(`[${new Date().toISOString()}] INFO: CoinMarketCap MCP Server running on stdio transport`);
+    console.error(`[${new Date().toISOString()}] INFO: CoinMarketCap MCP Server running on ${mode} transport`);
     console.error(`[${new Date().toISOString()}] INFO: Server configuration:`, {
       totalTools: allTools.length,
       cacheEnabled: true,
       rateLimitingEnabled: true,
       apiProvider: 'CoinMarketCap Pro',
-      transport: 'stdio'
+      transport: mode,
+      ...(mode === 'stdio' ? {} : { host: this.transportConfig.host, port: this.transportConfig.port }),
     });
 
     console.error(`[${new Date().toISOString()}] INFO: Available tools by category:`);
@@ -493,6 +848,9 @@ class CoinMarketCapMCPServer {
       'Market Analysis': this.marketMetricsTools.getTools().length,
       'Technical Analysis': this.technicalAnalysisTools.getTools().length,
       'Historical Analysis': this.historicalAnalysisTools.getTools().length,
+      'Portfolio': this.portfolioTools.getTools().length,
+      'Alerts': this.alertTools.getTools().length,
+      'Risk Analysis': this.riskAnalysisTools.getTools().length,
     };
     
     Object.entries(toolsByCategory).forEach(([category, count]) => {
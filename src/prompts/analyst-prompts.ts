@@ -0,0 +1,277 @@
+import { GetPromptResult, Prompt } from '@modelcontextprotocol/sdk/types.js';
+import { ApiTierManager } from '../config/api-tiers.js';
+import { validateSymbol, validateSymbols } from '../utils/validators.js';
+
+type PromptArgs = Record<string, string | undefined>;
+
+interface Holding {
+  symbol: string;
+  amount: number;
+  purchase_price?: number;
+}
+
+const PERIOD_DAYS: Record<string, number> = { '7d': 7, '30d': 30, '90d': 90, '1y': 365 };
+
+const RISK_TOLERANCES = ['low', 'medium', 'high'];
+
+const toolCall = (name: string, args: Record<string, unknown>): string => `\`${name}\` with \`${JSON.stringify(args)}\``;
+
+// Prompts for recurring analyst workflows. Each one expands into a single user
+// message that spells out which tools to call, with which arguments, and the
+// report layout to produce, so every analyst gets the same structure. Steps the
+// current API plan cannot serve are left out and the report is told to say so.
+export class AnalystPrompts {
+  constructor(private tierManager: ApiTierManager) {}
+
+  getPrompts(): Prompt[] {
+    return [
+      {
+        name: 'morning_market_brief',
+        description: 'Daily market brief: global metrics, dominance, and a watchlist of coins with recent moves',
+        arguments: [
+          {
+            name: 'watchlist',
+            description: 'Comma-separated symbols to cover (default: BTC,ETH)',
+            required: false,
+          },
+          {
+            name: 'convert',
+            description: 'Quote currency for prices (default: USD)',
+            required: false,
+          },
+        ],
+      },
+      {
+        name: 'coin_due_diligence',
+        description: 'Due-diligence report on a single cryptocurrency: market position, price history and risks',
+        arguments: [
+          {
+            name: 'symbol',
+            description: 'Cryptocurrency symbol (e.g., SOL)',
+            required: true,
+          },
+          {
+            name: 'convert',
+            description: 'Quote currency for prices (default: USD)',
+            required: false,
+          },
+        ],
+      },
+      {
+        name: 'portfolio_risk_review',
+        description: 'Risk review of a set of holdings: concentration, volatility and exposure to market regime',
+        arguments: [
+          {
+            name: 'holdings',
+            description: 'Comma-separated SYMBOL:AMOUNT pairs, optionally with cost basis as SYMBOL:AMOUNT@PRICE (e.g., BTC:0.5@42000,ETH:4)',
+            required: true,
+          },
+          {
+            name: 'risk_tolerance',
+            description: `Investor risk tolerance: ${RISK_TOLERANCES.join(', ')} (default: medium)`,
+            required: false,
+          },
+          {
+            name: 'convert',
+            description: 'Quote currency for prices (default: USD)',
+            required: false,
+          },
+        ],
+      },
+    ];
+  }
+
+  hasPrompt(name: string): boolean {
+    return this.getPrompts().some(prompt => prompt.name === name);
+  }
+
+  getPrompt(name: string, args: PromptArgs = {}): GetPromptResult {
+    switch (name) {
+    case 'morning_market_brief':
+      return this.morningMarketBrief(args);
+    case 'coin_due_diligence':
+      return this.coinDueDiligence(args);
+    case 'portfolio_risk_review':
+      return this.portfolioRiskReview(args);
+    default:
+      throw new Error(`Unknown prompt: ${name}`);
+    }
+  }
+
+  private morningMarketBrief(args: PromptArgs): GetPromptResult {
+    const watchlist = validateSymbols((args.watchlist || 'BTC,ETH').split(',').map(symbol => symbol.trim()).filter(Boolean));
+    const convert = this.parseConvert(args.convert);
+    const historyPeriods = this.availablePeriods(['7d']);
+
+    const steps = [
+      `Call ${toolCall('get_market_overview', { include_defi: true })} for total market cap, volume and the top coins.`,
+      `Call ${toolCall('get_market_dominance', { timeframe: '30d' })} for BTC, ETH and altcoin dominance.`,
+      ...watchlist.map(symbol => `Call ${toolCall('get_crypto_price', { symbol, convert })}.`),
+      ...(historyPeriods.length > 0
+        ? watchlist.map(symbol => `Call ${toolCall('get_price_history', { symbol, periods: historyPeriods, convert })} for the week's range.`)
+        : []),
+    ];
+
+    const report = [
+      '## Market snapshot: total market cap, 24h volume and their changes, in two or three sentences',
+      '## Dominance: BTC, ETH and altcoin share, and what the split says about risk appetite',
+      `## Watchlist: one row per coin (${watchlist.join(', ')}) with price, 24h and 7d change, and a one-line comment`,
+      '## What to watch today: up to three bullet points drawn only from the data above',
+    ];
+
+    return this.buildPrompt(
+      `Morning market brief for ${watchlist.join(', ')}`,
+      'Prepare this morning\'s crypto market brief.',
+      steps,
+      report,
+      historyPeriods.length === 0 ? ['Weekly price ranges (get_price_history needs historical data, which the current API plan does not include)'] : [],
+    );
+  }
+
+  private coinDueDiligence(args: PromptArgs): GetPromptResult {
+    if (!args.symbol) {
+      throw new Error('Missing required argument: symbol');
+    }
+    const symbol = validateSymbol(args.symbol.trim());
+    const convert = this.parseConvert(args.convert);
+    const historyPeriods = this.availablePeriods(['7d', '30d', '90d', '1y']);
+
+    const steps = [
+      `Call ${toolCall('get_crypto_price', { symbol, convert })} for price, market cap, volume and supply.`,
+      ...(historyPeriods.length > 0
+        ? [`Call ${toolCall('get_price_history', { symbol, periods: historyPeriods, convert })} for performance across periods.`]
+        : []),
+      `Call ${toolCall('get_market_overview', { include_defi: true })} to place the coin against the whole market.`,
+      `Call ${toolCall('get_market_dominance', { timeframe: '90d' })} for the market regime.`,
+    ];
+
+    const report = [
+      `## Overview: what ${symbol} is, its rank, market cap and liquidity (volume / market cap)`,
+      '## Supply: circulating vs total and max supply, and any dilution risk this implies',
+      '## Performance: returns per period next to the overall market, with the largest drawdown seen',
+      '## Market context: how the current dominance regime tends to affect a coin of this size',
+      '## Risks and open questions: bullet points, each tied to a number above',
+      '## Summary: three sentences, no price targets or investment advice',
+    ];
+
+    return this.buildPrompt(
+      `Due-diligence report for ${symbol}`,
+      `Prepare a due-diligence report on ${symbol}.`,
+      steps,
+      report,
+      historyPeriods.length === 0 ? ['Price history and drawdowns (the current API plan does not include historical data)'] : [],
+    );
+  }
+
+  private portfolioRiskReview(args: PromptArgs): GetPromptResult {
+    if (!args.holdings) {
+      throw new Error('Missing required argument: holdings');
+    }
+    const holdings = this.parseHoldings(args.holdings);
+    const convert = this.parseConvert(args.convert);
+    const riskTolerance = (args.risk_tolerance || 'medium').toLowerCase();
+    if (!RISK_TOLERANCES.includes(riskTolerance)) {
+      throw new Error(`Invalid risk_tolerance. Must be one of: ${RISK_TOLERANCES.join(', ')}`);
+    }
+    const historyPeriods = this.availablePeriods(['30d', '90d']);
+    const withCostBasis = holdings.every(holding => holding.purchase_price !== undefined);
+
+    const steps = [
+      ...(withCostBasis && this.tierManager.isToolAvailable('analyze_portfolio')
+        ? [`Call ${toolCall('analyze_portfolio', { holdings, convert })} for value, P&L and allocation.`]
+        : holdings.map(holding => `Call ${toolCall('get_crypto_price', { symbol: holding.symbol, convert })} and value ${holding.amount} ${holding.symbol}.`)),
+      ...(historyPeriods.length > 0
+        ? holdings.map(holding => `Call ${toolCall('get_price_history', { symbol: holding.symbol, periods: historyPeriods, convert })} to gauge volatility.`)
+        : []),
+      `Call ${toolCall('get_market_dominance', { timeframe: '90d' })} for the market regime.`,
+      `Call ${toolCall('get_market_overview', { include_defi: false })} for overall market direction.`,
+    ];
+
+    const report = [
+      `## Holdings: table of symbol, amount, value, allocation %${withCostBasis ? ' and unrealized P&L' : ''}`,
+      '## Concentration: largest position and top-3 share; flag any single position above 40%',
+      '## Volatility: per-coin price range over the periods fetched, and which positions drive portfolio swings',
+      '## Market exposure: how much of the portfolio is BTC/ETH vs altcoins, against the current dominance trend',
+      `## Fit with a ${riskTolerance} risk tolerance: where the portfolio is out of line, as bullet points`,
+      '## Summary: three sentences, no investment advice',
+    ];
+
+    const positions = holdings
+      .map(holding => `${holding.amount} ${holding.symbol}${holding.purchase_price !== undefined ? ` bought at ${holding.purchase_price} ${convert}` : ''}`)
+      .join(', ');
+
+    return this.buildPrompt(
+      `Portfolio risk review (${holdings.map(holding => holding.symbol).join(', ')})`,
+      `Review the risk of this portfolio for an investor with ${riskTolerance} risk tolerance: ${positions}.`,
+      steps,
+      report,
+      historyPeriods.length === 0 ? ['Volatility from price history (the current API plan does not include historical data)'] : [],
+    );
+  }
+
+  private buildPrompt(description: string, task: string, steps: string[], report: string[], unavailable: string[]): GetPromptResult {
+    const text = [
+      task,
+      '',
+      'Gather the data first, in this order:',
+      ...steps.map((step, index) => `${index + 1}. ${step}`),
+      '',
+      'Then write the report with exactly these sections:',
+      ...report,
+      ...(unavailable.length > 0
+        ? ['', 'Not available on the current API plan, so skip it and mention the gap in one line:', ...unavailable.map(item => `- ${item}`)]
+        : []),
+      '',
+      'Use only figures returned by the tools, state the data timestamp, and keep the whole report under 400 words.',
+    ].join('\n');
+
+    return {
+      description,
+      messages: [
+        {
+          role: 'user',
+          content: { type: 'text', text },
+        },
+      ],
+    };
+  }
+
+  // Periods the plan's historical depth can serve in full; empty when history is unavailable
+  private availablePeriods(periods: string[]): string[] {
+    if (!this.tierManager.getFeatureSupport().historicalData) {
+      return [];
+    }
+    const { max_days } = this.tierManager.getHistoricalLimits();
+    return periods.filter(period => PERIOD_DAYS[period] <= max_days);
+  }
+
+  private parseConvert(convert?: string): string {
+    const value = (convert || 'USD').trim().toUpperCase();
+    if (!/^[A-Z]{2,10}$/.test(value)) {
+      throw new Error(`Invalid convert currency: ${convert}`);
+    }
+    return value;
+  }
+
+  private parseHoldings(input: string): Holding[] {
+    const holdings = input.split(',').map(entry => entry.trim()).filter(Boolean).map(entry => {
+      const match = entry.match(/^([A-Za-z0-9]+):([0-9]*\.?[0-9]+)(?:@([0-9]*\.?[0-9]+))?$/);
+      if (!match) {
+        throw new Error(`Invalid holding '${entry}'. Use SYMBOL:AMOUNT or SYMBOL:AMOUNT@PRICE`);
+      }
+      const holding: Holding = { symbol: validateSymbol(match[1]), amount: parseFloat(match[2]) };
+      if (match[3] !== undefined) {
+        holding.purchase_price = parseFloat(match[3]);
+      }
+      return holding;
+    });
+
+    if (holdings.length === 0) {
+      throw new Error('At least one holding is required');
+    }
+    if (holdings.length > 50) {
+      throw new Error('Maximum 50 holdings allowed');
+    }
+    return holdings;
+  }
+}
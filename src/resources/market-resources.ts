@@ -0,0 +1,364 @@
+import { Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { CoinMarketCapClient } from '../api/client.js';
+import { CacheManager } from '../api/cache.js';
+import { CoinRegistry } from '../api/coin-registry.js';
+import { ApiTierManager } from '../config/api-tiers.js';
+import { CryptocurrencyQuoteEntry, MarketMetrics } from '../types/index.js';
+import { validateSymbol } from '../utils/validators.js';
+import { logger } from '../utils/logger.js';
+import { ResourceContents, ResourceProvider } from './resource-provider.js';
+
+const COIN_INFO_URI_PATTERN = /^cmc:\/\/coin\/([^/]+)\/info$/i;
+const GLOBAL_URI_PATTERN = /^cmc:\/\/global\/latest$/i;
+const LISTINGS_URI_PATTERN = /^cmc:\/\/listings\/top\/([^/]+)$/i;
+
+const MONTH_MS = 30 * 24 * 60 * 60 * 1000;
+const MAX_LISTINGS = 200;
+
+type MarketTarget =
+  | { kind: 'coin_info'; uri: string; symbol: string }
+  | { kind: 'global'; uri: string }
+  | { kind: 'listings'; uri: string; limit: number };
+
+// How often a subscribed resource is re-fetched when the budget allows it.
+// Metadata rarely changes; global metrics and listings refresh every few minutes upstream.
+const BASE_POLL_INTERVAL_MS: Record<MarketTarget['kind'], number> = {
+  coin_info: 6 * 60 * 60 * 1000,
+  global: 5 * 60 * 1000,
+  listings: 5 * 60 * 1000,
+};
+
+export interface MarketResourcesOptions {
+  // Share of the plan's monthly call budget that subscription polling may spend
+  budgetFraction?: number;
+}
+
+// One coin as /v2/cryptocurrency/info returns it
+interface CoinInfo {
+  id: number;
+  symbol: string;
+  name: string;
+  slug: string;
+  category?: string;
+  description?: string;
+  logo?: string;
+  date_added?: string;
+  date_launched?: string | null;
+  tags?: string[] | null;
+  platform?: { name: string; symbol: string; token_address: string } | null;
+  urls?: Partial<Record<'website' | 'technical_doc' | 'explorer' | 'source_code' | 'twitter' | 'reddit' | 'message_board', string[]>>;
+}
+
+interface Watcher {
+  target: MarketTarget;
+  listeners: Set<() => void>;
+  timer: NodeJS.Timeout | null;
+  snapshot: string | null;
+}
+
+// Market context resources: coin metadata (cmc://coin/{symbol}/info), global
+// metrics (cmc://global/latest) and the top listings (cmc://listings/top/{n}).
+// Each subscribed URI is re-fetched on its own timer and subscribers are only
+// notified when the content actually changed.
+export class MarketResources implements ResourceProvider {
+  private watchers = new Map<string, Watcher>();
+  private readonly budgetFraction: number;
+
+  constructor(
+    private client: CoinMarketCapClient,
+    private cache: CacheManager,
+    private tierManager: ApiTierManager,
+    private registry: CoinRegistry,
+    options: MarketResourcesOptions = {},
+  ) {
+    this.budgetFraction = Math.min(1, Math.max(0.01, options.budgetFraction ?? 0.25));
+  }
+
+  getResourceTemplates(): ResourceTemplate[] {
+    return [
+      {
+        uriTemplate: 'cmc://coin/{symbol}/info',
+        name: 'Coin metadata',
+        description: 'Static metadata for a cryptocurrency: description, category, tags, platform, launch date and project links.',
+        mimeType: 'application/json',
+      },
+      {
+        uriTemplate: 'cmc://listings/top/{n}',
+        name: 'Top listings',
+        description: `Top n cryptocurrencies by market cap (1-${MAX_LISTINGS}) with USD price, volume and percent changes. Subscribe to receive updates.`,
+        mimeType: 'application/json',
+      },
+    ];
+  }
+
+  getResources(): Resource[] {
+    const resources: Resource[] = [
+      {
+        uri: 'cmc://global/latest',
+        name: 'Global market metrics',
+        description: 'Total market cap, 24h volume, BTC/ETH dominance and DeFi/stablecoin totals. Subscribe to receive updates.',
+        mimeType: 'application/json',
+      },
+      {
+        uri: 'cmc://listings/top/10',
+        name: 'Top 10 cryptocurrencies',
+        mimeType: 'application/json',
+      },
+    ];
+
+    // Other subscribed URIs are listed as concrete resources too
+    for (const uri of this.watchers.keys()) {
+      if (!resources.some(resource => resource.uri === uri)) {
+        resources.push({ uri, name: uri.replace('cmc://', ''), mimeType: 'application/json' });
+      }
+    }
+    return resources;
+  }
+
+  matches(uri: string): boolean {
+    return COIN_INFO_URI_PATTERN.test(uri) || GLOBAL_URI_PATTERN.test(uri) || LISTINGS_URI_PATTERN.test(uri);
+  }
+
+  async readResource(uri: string): Promise<ResourceContents> {
+    const target = this.parseUri(uri);
+    const content = await this.load(target, false);
+
+    return {
+      uri,
+      mimeType: 'application/json',
+      text: JSON.stringify(content, null, 2),
+    };
+  }
+
+  subscribe(uri: string, onUpdate: () => void): () => void {
+    const target = this.parseUri(uri);
+    let watcher = this.watchers.get(target.uri);
+    if (!watcher) {
+      watcher = { target, listeners: new Set(), timer: null, snapshot: null };
+      this.watchers.set(target.uri, watcher);
+      this.startWatching(watcher);
+    }
+
+    const listener = () => onUpdate();
+    watcher.listeners.add(listener);
+
+    return () => {
+      const current = this.watchers.get(target.uri);
+      if (!current) return;
+      current.listeners.delete(listener);
+      if (current.listeners.size === 0) {
+        if (current.timer) {
+          clearTimeout(current.timer);
+        }
+        this.watchers.delete(target.uri);
+      }
+    };
+  }
+
+  // Interval for one watcher; more subscribed URIs share the same monthly budget
+  getPollIntervalMs(kind: MarketTarget['kind']): number {
+    const { maxCallsPerMonth } = this.tierManager.getRateLimits();
+    const budgetFloor = MONTH_MS * Math.max(1, this.watchers.size) / (maxCallsPerMonth * this.budgetFraction);
+    return Math.ceil(Math.max(BASE_POLL_INTERVAL_MS[kind], budgetFloor));
+  }
+
+  private startWatching(watcher: Watcher): void {
+    // Baseline from the cache if possible so the first poll can tell whether anything changed
+    this.load(watcher.target, false)
+      .then(content => {
+        watcher.snapshot ??= JSON.stringify(content);
+      })
+      .catch(() => undefined)
+      .finally(() => this.schedule(watcher));
+  }
+
+  private schedule(watcher: Watcher): void {
+    if (this.watchers.get(watcher.target.uri) !== watcher) return;
+
+    watcher.timer = setTimeout(() => {
+      watcher.timer = null;
+      void this.poll(watcher);
+    }, this.getPollIntervalMs(watcher.target.kind));
+    watcher.timer.unref();
+  }
+
+  private async poll(watcher: Watcher): Promise<void> {
+    try {
+      // Background polling yields to interactive tool calls in the request queue
+      const content = await this.client.withRequestOptions({ priority: 'low', tool: 'resource_subscriptions' }, () =>
+        this.load(watcher.target, true));
+      const snapshot = JSON.stringify(content);
+
+      if (watcher.snapshot !== null && watcher.snapshot !== snapshot) {
+        for (const listener of watcher.listeners) {
+          try {
+            listener();
+          } catch (error) {
+            logger.warn('Resource listener failed', {
+              uri: watcher.target.uri,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          }
+        }
+      }
+      watcher.snapshot = snapshot;
+    } catch (error) {
+      logger.warn('Resource poll failed', {
+        uri: watcher.target.uri,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      this.schedule(watcher);
+    }
+  }
+
+  private parseUri(uri: string): MarketTarget {
+    const infoMatch = uri.match(COIN_INFO_URI_PATTERN);
+    if (infoMatch) {
+      const symbol = validateSymbol(decodeURIComponent(infoMatch[1]));
+      return { kind: 'coin_info', uri: `cmc://coin/${symbol}/info`, symbol };
+    }
+
+    if (GLOBAL_URI_PATTERN.test(uri)) {
+      return { kind: 'global', uri: 'cmc://global/latest' };
+    }
+
+    const listingsMatch = uri.match(LISTINGS_URI_PATTERN);
+    if (listingsMatch) {
+      const limit = Number(listingsMatch[1]);
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LISTINGS) {
+        throw new Error(`Invalid listings size '${listingsMatch[1]}'. Must be an integer between 1 and ${MAX_LISTINGS}`);
+      }
+      return { kind: 'listings', uri: `cmc://listings/top/${limit}`, limit };
+    }
+
+    throw new Error(`Unsupported market resource URI: ${uri}`);
+  }
+
+  // fresh skips the cached copy (used by subscription polling); the result is cached either way
+  private async load(target: MarketTarget, fresh: boolean): Promise<unknown> {
+    const cacheKey = this.cache.generateCacheKey('market_resource', { uri: target.uri });
+    if (!fresh) {
+      const cached = await this.cache.get(cacheKey);
+      if (cached) {
+        return cached;
+      }
+    }
+
+    switch (target.kind) {
+    case 'coin_info': {
+      const result = await this.fetchCoinInfo(target.symbol);
+      await this.cache.set(cacheKey, result, 3600); // Cache for 1 hour
+      return result;
+    }
+    case 'global': {
+      const result = await this.fetchGlobalMetrics();
+      await this.cache.set(cacheKey, result, 300); // Cache for 5 minutes
+      return result;
+    }
+    case 'listings': {
+      const result = await this.fetchListings(target.limit);
+      await this.cache.set(cacheKey, result, 300); // Cache for 5 minutes
+      return result;
+    }
+    }
+  }
+
+  private async fetchCoinInfo(symbol: string): Promise<unknown> {
+    // Look up by id when the ticker resolves, so duplicate tickers cannot return another coin
+    const resolution = await this.registry.resolveSymbol(symbol);
+    const key = resolution ? String(resolution.coin.id) : symbol;
+    const response = await this.client.getCryptocurrencyInfo(resolution ? { id: key } : { symbol });
+    const data = (response.data || {}) as Record<string, CoinInfo | CoinInfo[]>;
+    const entry = data[key];
+    const info = Array.isArray(entry) ? entry[0] : entry;
+    if (!info) {
+      throw new Error(`Cryptocurrency ${symbol} not found`);
+    }
+
+    const urls = info.urls || {};
+    return {
+      id: info.id,
+      symbol: info.symbol,
+      name: info.name,
+      slug: info.slug,
+      category: info.category,
+      description: info.description,
+      logo: info.logo,
+      date_added: info.date_added,
+      date_launched: info.date_launched ?? null,
+      tags: info.tags || [],
+      platform: info.platform
+        ? { name: info.platform.name, symbol: info.platform.symbol, token_address: info.platform.token_address }
+        : null,
+      links: {
+        website: urls.website || [],
+        technical_doc: urls.technical_doc || [],
+        explorer: urls.explorer || [],
+        source_code: urls.source_code || [],
+        twitter: urls.twitter || [],
+        reddit: urls.reddit || [],
+        message_board: urls.message_board || [],
+      },
+      data_source: 'CoinMarketCap',
+    };
+  }
+
+  private async fetchGlobalMetrics(): Promise<unknown> {
+    const response = await this.client.getGlobalMetricsQuotesLatest();
+    const data = (response.data || {}) as Partial<MarketMetrics>;
+    const quote: Partial<MarketMetrics['quote'][string]> = data.quote?.USD || {};
+
+    return {
+      total_market_cap: quote.total_market_cap || 0,
+      total_volume_24h: quote.total_volume_24h || 0,
+      total_market_cap_yesterday_percentage_change: quote.total_market_cap_yesterday_percentage_change ?? null,
+      total_volume_24h_yesterday_percentage_change: quote.total_volume_24h_yesterday_percentage_change ?? null,
+      btc_dominance: data.btc_dominance || 0,
+      eth_dominance: data.eth_dominance || 0,
+      altcoin_dominance: 100 - (data.btc_dominance || 0) - (data.eth_dominance || 0),
+      active_cryptocurrencies: data.active_cryptocurrencies || 0,
+      active_exchanges: data.active_exchanges || 0,
+      defi_market_cap: quote.defi_market_cap ?? data.defi_market_cap ?? null,
+      defi_volume_24h: quote.defi_volume_24h ?? data.defi_volume_24h ?? null,
+      stablecoin_market_cap: quote.stablecoin_market_cap ?? data.stablecoin_market_cap ?? null,
+      stablecoin_volume_24h: quote.stablecoin_volume_24h ?? data.stablecoin_volume_24h ?? null,
+      last_updated: data.last_updated || quote.last_updated || null,
+      data_source: 'CoinMarketCap',
+    };
+  }
+
+  private async fetchListings(limit: number): Promise<unknown> {
+    const response = await this.client.getCryptocurrencyListingsLatest({
+      limit,
+      sort: 'market_cap',
+      convert: 'USD',
+    });
+    const listings = (response.data || []) as CryptocurrencyQuoteEntry[];
+
+    return {
+      limit,
+      count: listings.length,
+      cryptocurrencies: listings.map(crypto => ({
+        rank: crypto.cmc_rank,
+        id: crypto.id,
+        symbol: crypto.symbol,
+        name: crypto.name,
+        slug: crypto.slug,
+        price: crypto.quote?.USD?.price || 0,
+        market_cap: crypto.quote?.USD?.market_cap || 0,
+        market_cap_dominance: crypto.quote?.USD?.market_cap_dominance || 0,
+        volume_24h: crypto.quote?.USD?.volume_24h || 0,
+        percent_change_1h: crypto.quote?.USD?.percent_change_1h || 0,
+        percent_change_24h: crypto.quote?.USD?.percent_change_24h || 0,
+        percent_change_7d: crypto.quote?.USD?.percent_change_7d || 0,
+        circulating_supply: crypto.circulating_supply || 0,
+      })),
+      last_updated: listings.reduce<string | null>((latest, crypto) => {
+        const updated = crypto.quote?.USD?.last_updated || crypto.last_updated;
+        return updated && (!latest || updated > latest) ? updated : latest;
+      }, null),
+      data_source: 'CoinMarketCap',
+    };
+  }
+}
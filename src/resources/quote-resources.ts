@@ -0,0 +1,101 @@
+import { Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { CoinMarketCapClient } from '../api/client.js';
+import { CacheManager } from '../api/cache.js';
+import { CoinRegistry } from '../api/coin-registry.js';
+import { PricePoller } from '../streaming/price-poller.js';
+import { validateSymbol } from '../utils/validators.js';
+import { ResourceContents, ResourceProvider } from './resource-provider.js';
+
+const QUOTE_URI_PATTERN = /^cmc:\/\/quotes\/([^/]+)$/i;
+
+// Live quote resources (cmc://quotes/{symbol}). Subscribing to one registers
+// the symbol with the shared PricePoller, which drives resources/updated notifications.
+export class QuoteResources implements ResourceProvider {
+  constructor(
+    private client: CoinMarketCapClient,
+    private cache: CacheManager,
+    private poller: PricePoller,
+    private registry: CoinRegistry,
+  ) {}
+
+  getResourceTemplates(): ResourceTemplate[] {
+    return [
+      {
+        uriTemplate: 'cmc://quotes/{symbol}',
+        name: 'Live quote',
+        description: 'Latest USD quote for a cryptocurrency. Subscribe to receive updates when the price changes.',
+        mimeType: 'application/json',
+      },
+    ];
+  }
+
+  // Symbols currently being streamed are listed as concrete resources
+  getResources(): Resource[] {
+    return this.poller.getSubscribedSymbols().map(symbol => ({
+      uri: `cmc://quotes/${symbol}`,
+      name: `${symbol} live quote`,
+      mimeType: 'application/json',
+    }));
+  }
+
+  matches(uri: string): boolean {
+    return QUOTE_URI_PATTERN.test(uri);
+  }
+
+  async readResource(uri: string): Promise<ResourceContents> {
+    const symbol = this.parseSymbol(uri);
+    const streamed = this.poller.getLatest(symbol);
+
+    const quote = streamed || await this.fetchQuote(symbol);
+
+    return {
+      uri,
+      mimeType: 'application/json',
+      text: JSON.stringify(quote, null, 2),
+    };
+  }
+
+  subscribe(uri: string, onUpdate: () => void): () => void {
+    const symbol = this.parseSymbol(uri);
+    return this.poller.subscribe([symbol], () => onUpdate());
+  }
+
+  private parseSymbol(uri: string): string {
+    const match = uri.match(QUOTE_URI_PATTERN);
+    if (!match) {
+      throw new Error(`Unsupported quote resource URI: ${uri}`);
+    }
+    return validateSymbol(decodeURIComponent(match[1]));
+  }
+
+  private async fetchQuote(symbol: string): Promise<unknown> {
+    const cacheKey = this.cache.generateCacheKey('quote_resource', { symbol });
+    const cached = await this.cache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const lookup = await this.registry.getLatestQuotes([symbol], { convert: 'USD' }, 'best_match');
+    const crypto = lookup.quotes.get(symbol);
+    const quote = crypto?.quote?.USD;
+    if (!quote) {
+      throw new Error(`Cryptocurrency ${symbol} not found`);
+    }
+
+    const result = {
+      symbol,
+      id: crypto.id,
+      name: crypto.name,
+      price: quote.price,
+      percent_change_1h: quote.percent_change_1h,
+      percent_change_24h: quote.percent_change_24h,
+      percent_change_7d: quote.percent_change_7d,
+      volume_24h: quote.volume_24h,
+      market_cap: quote.market_cap,
+      last_updated: quote.last_updated,
+    };
+
+    await this.cache.set(cacheKey, result, 60); // Cache for 1 minute
+    return result;
+  }
+}
@@ -0,0 +1,18 @@
+import { Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+// A family of cmc:// resources. The MCP resource handlers route each URI to
+// the first provider whose matches() accepts it.
+export interface ResourceProvider {
+  getResourceTemplates(): ResourceTemplate[];
+  getResources(): Resource[];
+  matches(uri: string): boolean;
+  readResource(uri: string): Promise<ResourceContents>;
+  // Returns the unsubscribe function
+  subscribe(uri: string, onUpdate: () => void): () => void;
+}
@@ -0,0 +1,119 @@
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { randomUUID } from 'crypto';
+import { AlertCondition } from '../types/index.js';
+import { getDataFilePath } from './data-dir.js';
+
+interface AlertFile {
+  version: number;
+  alerts: AlertCondition[];
+}
+
+// JSON-file backed alert storage. The whole file is small, so it is loaded
+// once and rewritten atomically (write to temp file, then rename) on change.
+export class AlertStore {
+  private alerts: AlertCondition[] | null = null;
+  private loading: Promise<AlertCondition[]> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string = getDataFilePath('alerts.json')) {}
+
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  async list(): Promise<AlertCondition[]> {
+    return [...(await this.load())];
+  }
+
+  async create(alert: Omit<AlertCondition, 'id' | 'created_at' | 'triggered'>): Promise<AlertCondition> {
+    const alerts = await this.load();
+    const created: AlertCondition = {
+      ...alert,
+      id: randomUUID(),
+      created_at: new Date().toISOString(),
+      triggered: false,
+    };
+    alerts.push(created);
+    await this.save();
+    return created;
+  }
+
+  async updateMany(updated: AlertCondition[]): Promise<void> {
+    if (updated.length === 0) return;
+    const alerts = await this.load();
+    for (const alert of updated) {
+      const index = alerts.findIndex(a => a.id === alert.id);
+      if (index !== -1) {
+        alerts[index] = alert;
+      }
+    }
+    await this.save();
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const alerts = await this.load();
+    const index = alerts.findIndex(alert => alert.id === id);
+    if (index === -1) {
+      return false;
+    }
+    alerts.splice(index, 1);
+    await this.save();
+    return true;
+  }
+
+  private async load(): Promise<AlertCondition[]> {
+    if (this.alerts) {
+      return this.alerts;
+    }
+
+    // Share one read so concurrent first calls cannot both move a corrupt file aside
+    this.loading = this.loading || this.read();
+    try {
+      this.alerts = await this.loading;
+    } finally {
+      this.loading = null;
+    }
+    return this.alerts;
+  }
+
+  private async read(): Promise<AlertCondition[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new Error(`Failed to read alerts file ${this.filePath}: ${error}`);
+      }
+      return [];
+    }
+
+    try {
+      const parsed = JSON.parse(content) as AlertFile;
+      if (!Array.isArray(parsed?.alerts)) {
+        throw new Error('missing alerts array');
+      }
+      return parsed.alerts;
+    } catch (error) {
+      // Move the unreadable file aside rather than overwrite the user's alerts on the next save
+      const backupPath = `${this.filePath}.corrupt-${Date.now()}`;
+      await fs.rename(this.filePath, backupPath);
+      console.error(`[${new Date().toISOString()}] ERROR: Alerts file ${this.filePath} is corrupt, moved it to ${backupPath} and starting empty:`, error);
+      return [];
+    }
+  }
+
+  private async save(): Promise<void> {
+    const snapshot: AlertFile = { version: 1, alerts: this.alerts || [] };
+
+    // Serialize writes so concurrent tool calls cannot interleave renames
+    this.writeQueue = this.writeQueue.catch(() => undefined).then(async () => {
+      await fs.mkdir(dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(snapshot, null, 2), 'utf8');
+      await fs.rename(tempPath, this.filePath);
+    });
+
+    return this.writeQueue;
+  }
+}
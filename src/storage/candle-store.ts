@@ -0,0 +1,143 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { getDataFilePath } from './data-dir.js';
+
+// A stored candle is the raw OHLCV quote object returned by the API. A null
+// entry records a closed period the API had no candle for (e.g. before listing),
+// so it is not requested again.
+export type StoredCandle = Record<string, unknown> | null;
+
+interface CandleFile {
+  version: number;
+  coin_id: number;
+  interval: string;
+  currency: string;
+  candles: Record<string, StoredCandle>;
+}
+
+interface SymbolFile {
+  version: number;
+  symbols: Record<string, number>;
+}
+
+// Local OHLCV store keyed by (coin id, interval, quote currency, day). Each
+// coin/interval/currency series lives in its own JSON file, loaded lazily and rewritten atomically on change.
+// A symbol -> coin id index lets symbol lookups find their coin without an API call.
+export class CandleStore {
+  private series = new Map<string, CandleFile>();
+  private symbols: Record<string, number> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private directory: string = getDataFilePath('candles')) {}
+
+  getDirectory(): string {
+    return this.directory;
+  }
+
+  async resolveCoinId(symbol: string): Promise<number | undefined> {
+    return (await this.loadSymbols())[symbol.toUpperCase()];
+  }
+
+  async rememberSymbol(symbol: string, coinId: number): Promise<void> {
+    const symbols = await this.loadSymbols();
+    if (symbols[symbol.toUpperCase()] === coinId) return;
+    symbols[symbol.toUpperCase()] = coinId;
+    const snapshot: SymbolFile = { version: 1, symbols };
+    await this.write('symbols.json', snapshot);
+  }
+
+  // Returns the stored entries for the given days; days never stored are omitted
+  async getCandles(coinId: number, interval: string, days: string[], currency: string = 'USD'): Promise<Map<string, StoredCandle>> {
+    const file = await this.loadSeries(coinId, interval, currency);
+    const result = new Map<string, StoredCandle>();
+    for (const day of days) {
+      if (day in file.candles) {
+        result.set(day, file.candles[day]);
+      }
+    }
+    return result;
+  }
+
+  async putCandles(coinId: number, interval: string, candles: Map<string, StoredCandle>, currency: string = 'USD'): Promise<void> {
+    if (candles.size === 0) return;
+    const file = await this.loadSeries(coinId, interval, currency);
+    for (const [day, candle] of candles) {
+      file.candles[day] = candle;
+    }
+    await this.write(this.seriesFileName(coinId, interval, currency), file);
+  }
+
+  async getStats(): Promise<{ directory: string; series: number; symbols: number }> {
+    let series = 0;
+    try {
+      series = (await fs.readdir(this.directory)).filter(file => /^\d+-\w+(-\w+)?\.json$/.test(file)).length;
+    } catch {
+      // Directory is created on first write
+    }
+    return {
+      directory: this.directory,
+      series,
+      symbols: Object.keys(await this.loadSymbols()).length,
+    };
+  }
+
+  private async loadSeries(coinId: number, interval: string, currency: string): Promise<CandleFile> {
+    const fileName = this.seriesFileName(coinId, interval, currency);
+    const loaded = this.series.get(fileName);
+    if (loaded) {
+      return loaded;
+    }
+
+    const parsed = await this.read<CandleFile>(fileName);
+    const file: CandleFile = {
+      version: 1,
+      coin_id: coinId,
+      interval,
+      currency,
+      candles: parsed?.candles && typeof parsed.candles === 'object' ? parsed.candles : {},
+    };
+    this.series.set(fileName, file);
+    return file;
+  }
+
+  private async loadSymbols(): Promise<Record<string, number>> {
+    if (!this.symbols) {
+      const parsed = await this.read<SymbolFile>('symbols.json');
+      this.symbols = parsed?.symbols && typeof parsed.symbols === 'object' ? parsed.symbols : {};
+    }
+    return this.symbols;
+  }
+
+  private async read<T>(fileName: string): Promise<T | null> {
+    const filePath = join(this.directory, fileName);
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf8')) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`[${new Date().toISOString()}] WARN: Failed to read candle file ${filePath}, starting empty:`, error);
+      }
+      return null;
+    }
+  }
+
+  private async write(fileName: string, content: unknown): Promise<void> {
+    const data = JSON.stringify(content);
+
+    // Serialize writes so concurrent tool calls cannot interleave renames
+    this.writeQueue = this.writeQueue.catch(() => undefined).then(async () => {
+      await fs.mkdir(this.directory, { recursive: true });
+      const filePath = join(this.directory, fileName);
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, data, 'utf8');
+      await fs.rename(tempPath, filePath);
+    });
+
+    return this.writeQueue;
+  }
+
+  // USD series keep the original file name so stores written before other
+  // currencies were supported stay valid
+  private seriesFileName(coinId: number, interval: string, currency: string): string {
+    return currency === 'USD' ? `${coinId}-${interval}.json` : `${coinId}-${interval}-${currency}.json`;
+  }
+}
@@ -0,0 +1,50 @@
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { getDataFilePath } from './data-dir.js';
+import { CoinMapEntry } from '../types/index.js';
+
+export interface CoinMapSnapshot {
+  version: number;
+  fetched_at: string;
+  coins: CoinMapEntry[];
+}
+
+// On-disk copy of the coin id map so a restart does not refetch it. The file
+// is replaced atomically on every save.
+export class CoinMapStore {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string = getDataFilePath('coin-map.json')) {}
+
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  async load(): Promise<CoinMapSnapshot | null> {
+    try {
+      const parsed = JSON.parse(await fs.readFile(this.filePath, 'utf8')) as CoinMapSnapshot;
+      if (!Array.isArray(parsed.coins) || typeof parsed.fetched_at !== 'string') {
+        return null;
+      }
+      return parsed;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`[${new Date().toISOString()}] WARN: Failed to read coin map ${this.filePath}, ignoring it:`, error);
+      }
+      return null;
+    }
+  }
+
+  async save(snapshot: CoinMapSnapshot): Promise<void> {
+    const data = JSON.stringify(snapshot);
+
+    this.writeQueue = this.writeQueue.catch(() => undefined).then(async () => {
+      await fs.mkdir(dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, data, 'utf8');
+      await fs.rename(tempPath, this.filePath);
+    });
+
+    return this.writeQueue;
+  }
+}
@@ -0,0 +1,154 @@
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { getDataFilePath } from './data-dir.js';
+
+export interface CreditCounter {
+  credits: number;
+  calls: number;
+}
+
+export interface MonthlyCreditUsage extends CreditCounter {
+  month: string; // YYYY-MM (UTC)
+  by_endpoint: Record<string, CreditCounter>;
+  by_tool: Record<string, CreditCounter>;
+  by_day: Record<string, CreditCounter>;
+  // Last x-cmc-plan-credits-remaining header seen, if the API sends it
+  reported_remaining?: number;
+  last_updated?: string;
+}
+
+interface LedgerFile {
+  version: number;
+  months: Record<string, MonthlyCreditUsage>;
+}
+
+// Months of history kept in the ledger file
+const RETAINED_MONTHS = 13;
+
+export const monthOf = (date: Date = new Date()): string => date.toISOString().slice(0, 7);
+
+const bump = (counters: Record<string, CreditCounter>, key: string, credits: number): void => {
+  const counter = counters[key] || (counters[key] = { credits: 0, calls: 0 });
+  counter.credits += credits;
+  counter.calls++;
+};
+
+// Persistent record of API credits spent, per endpoint, tool and day, grouped
+// by calendar month. Recording is synchronous in memory; the file is rewritten
+// atomically in the background, at most one write in flight at a time.
+export class CreditLedger {
+  private months: Record<string, MonthlyCreditUsage> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private dirty = false;
+  private writing = false;
+
+  constructor(private filePath: string = getDataFilePath('credits.json')) {}
+
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  async load(): Promise<void> {
+    if (this.months) return;
+
+    try {
+      const parsed = JSON.parse(await fs.readFile(this.filePath, 'utf8')) as LedgerFile;
+      this.months = parsed.months && typeof parsed.months === 'object' ? parsed.months : {};
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`[${new Date().toISOString()}] WARN: Failed to read credit ledger ${this.filePath}, starting empty:`, error);
+      }
+      this.months = {};
+    }
+  }
+
+  async getMonth(month: string = monthOf()): Promise<MonthlyCreditUsage> {
+    await this.load();
+    return this.months![month] || this.emptyMonth(month);
+  }
+
+  async listMonths(): Promise<string[]> {
+    await this.load();
+    return Object.keys(this.months!).sort();
+  }
+
+  // Average credits charged per call to an endpoint across the retained history
+  async getAverageCredits(endpoint: string): Promise<number | undefined> {
+    await this.load();
+    let credits = 0;
+    let calls = 0;
+    for (const usage of Object.values(this.months!)) {
+      const counter = usage.by_endpoint[endpoint];
+      if (counter) {
+        credits += counter.credits;
+        calls += counter.calls;
+      }
+    }
+    return calls > 0 ? credits / calls : undefined;
+  }
+
+  async record(endpoint: string, tool: string, credits: number, reportedRemaining?: number): Promise<MonthlyCreditUsage> {
+    await this.load();
+
+    const now = new Date();
+    const month = monthOf(now);
+    const usage = this.months![month] || (this.months![month] = this.emptyMonth(month));
+
+    usage.credits += credits;
+    usage.calls++;
+    bump(usage.by_endpoint, endpoint, credits);
+    bump(usage.by_tool, tool, credits);
+    bump(usage.by_day, now.toISOString().split('T')[0], credits);
+    if (reportedRemaining !== undefined) {
+      usage.reported_remaining = reportedRemaining;
+    }
+    usage.last_updated = now.toISOString();
+
+    this.prune();
+    this.scheduleSave();
+    return usage;
+  }
+
+  // Resolves once everything recorded so far is on disk. Every record already
+  // schedules its save, and a ledger never loaded has nothing to write: saving
+  // it would replace the file with empty months.
+  async flush(): Promise<void> {
+    if (this.months === null) return;
+    await this.writeQueue;
+  }
+
+  private emptyMonth(month: string): MonthlyCreditUsage {
+    return { month, credits: 0, calls: 0, by_endpoint: {}, by_tool: {}, by_day: {} };
+  }
+
+  private prune(): void {
+    const months = Object.keys(this.months!).sort();
+    for (const month of months.slice(0, Math.max(0, months.length - RETAINED_MONTHS))) {
+      delete this.months![month];
+    }
+  }
+
+  private scheduleSave(): void {
+    this.dirty = true;
+    if (this.writing) return;
+
+    this.writing = true;
+    this.writeQueue = this.writeQueue.catch(() => undefined).then(async () => {
+      try {
+        // Changes recorded while a write is in progress are picked up by the next loop
+        while (this.dirty) {
+          this.dirty = false;
+          const snapshot: LedgerFile = { version: 1, months: this.months || {} };
+          await fs.mkdir(dirname(this.filePath), { recursive: true });
+          const tempPath = `${this.filePath}.${process.pid}.tmp`;
+          await fs.writeFile(tempPath, JSON.stringify(snapshot, null, 2), 'utf8');
+          await fs.rename(tempPath, this.filePath);
+        }
+      } catch (error) {
+        console.error(`[${new Date().toISOString()}] WARN: Failed to write credit ledger ${this.filePath}:`, error);
+      } finally {
+        this.writing = false;
+      }
+    });
+  }
+}
@@ -0,0 +1,9 @@
+import { homedir } from 'os';
+import { join, resolve } from 'path';
+
+// Directory for state that must survive restarts (alerts, caches, ledgers).
+// Override with DATA_DIR, e.g. to point at a mounted Docker volume.
+export const getDataDir = (): string =>
+  process.env.DATA_DIR ? resolve(process.env.DATA_DIR) : join(homedir(), '.coinmarketcap-mcp');
+
+export const getDataFilePath = (fileName: string): string => join(getDataDir(), fileName);
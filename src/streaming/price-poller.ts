@@ -0,0 +1,219 @@
+import { CoinMarketCapClient } from '../api/client.js';
+import { CoinRegistry } from '../api/coin-registry.js';
+import { ApiTierManager } from '../config/api-tiers.js';
+import { logger } from '../utils/logger.js';
+
+const MONTH_MS = 30 * 24 * 60 * 60 * 1000;
+const MIN_POLL_INTERVAL_MS = 10000;
+
+export interface QuoteUpdate {
+  symbol: string;
+  id: number;
+  name: string;
+  price: number;
+  previous_price: number | null;
+  change_since_last_percent: number | null;
+  percent_change_1h: number;
+  percent_change_24h: number;
+  percent_change_7d: number;
+  volume_24h: number;
+  market_cap: number;
+  last_updated: string;
+  polled_at: string;
+}
+
+export type QuoteListener = (update: QuoteUpdate) => void;
+
+export interface PricePollerOptions {
+  // Share of the plan's per-minute and monthly call budget the poller may spend
+  budgetFraction?: number;
+  // Requested interval; raised automatically if it would exceed the budget
+  pollIntervalMs?: number;
+}
+
+interface Subscription {
+  symbols: Set<string>;
+  listener: QuoteListener;
+}
+
+// Background poller shared by every streaming consumer (WebSocket clients and
+// MCP resource subscriptions). All subscribed symbols are fetched with one
+// batched quotes call per tick, and listeners only hear about changed quotes.
+export class PricePoller {
+  private subscriptions = new Set<Subscription>();
+  private latest = new Map<string, QuoteUpdate>();
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private lastPollAt: number | null = null;
+  private pollCount = 0;
+  private lastError: string | null = null;
+  private readonly budgetFraction: number;
+  private readonly requestedIntervalMs: number;
+
+  constructor(
+    private client: CoinMarketCapClient,
+    private tierManager: ApiTierManager,
+    private registry: CoinRegistry,
+    options: PricePollerOptions = {},
+  ) {
+    this.budgetFraction = Math.min(1, Math.max(0.01, options.budgetFraction ?? 0.25));
+    this.requestedIntervalMs = options.pollIntervalMs ?? 0;
+  }
+
+  subscribe(symbols: string[], listener: QuoteListener): () => void {
+    const subscription: Subscription = {
+      symbols: new Set(symbols.map(symbol => symbol.toUpperCase())),
+      listener,
+    };
+    this.subscriptions.add(subscription);
+
+    // Hand out the last known quote straight away so consumers are not empty until the next tick
+    for (const symbol of subscription.symbols) {
+      const known = this.latest.get(symbol);
+      if (known) {
+        this.notify(subscription, known);
+      }
+    }
+
+    this.ensureRunning();
+
+    return () => {
+      this.subscriptions.delete(subscription);
+      if (this.subscriptions.size === 0) {
+        this.stop();
+      }
+    };
+  }
+
+  getLatest(symbol: string): QuoteUpdate | undefined {
+    return this.latest.get(symbol.toUpperCase());
+  }
+
+  getSubscribedSymbols(): string[] {
+    const symbols = new Set<string>();
+    for (const subscription of this.subscriptions) {
+      subscription.symbols.forEach(symbol => symbols.add(symbol));
+    }
+    return Array.from(symbols).sort();
+  }
+
+  // Interval that keeps the poller inside its share of both the per-minute and monthly budgets
+  getPollIntervalMs(): number {
+    const { maxCallsPerMinute, maxCallsPerMonth } = this.tierManager.getRateLimits();
+    const perMinuteFloor = 60000 / (maxCallsPerMinute * this.budgetFraction);
+    const perMonthFloor = MONTH_MS / (maxCallsPerMonth * this.budgetFraction);
+    return Math.ceil(Math.max(MIN_POLL_INTERVAL_MS, this.requestedIntervalMs, perMinuteFloor, perMonthFloor));
+  }
+
+  getStatus() {
+    const intervalMs = this.getPollIntervalMs();
+    return {
+      running: this.timer !== null || this.polling,
+      subscriptions: this.subscriptions.size,
+      symbols: this.getSubscribedSymbols(),
+      poll_interval_ms: intervalMs,
+      budget_fraction: this.budgetFraction,
+      estimated_calls_per_month: Math.round(MONTH_MS / intervalMs),
+      poll_count: this.pollCount,
+      last_poll: this.lastPollAt ? new Date(this.lastPollAt).toISOString() : null,
+      next_poll_in_ms: this.lastPollAt && this.timer ? Math.max(0, this.lastPollAt + intervalMs - Date.now()) : null,
+      last_error: this.lastError,
+    };
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private ensureRunning(): void {
+    if (this.timer || this.polling) return;
+
+    const intervalMs = this.getPollIntervalMs();
+    const sinceLast = this.lastPollAt === null ? Infinity : Date.now() - this.lastPollAt;
+    this.schedule(sinceLast >= intervalMs ? 0 : intervalMs - sinceLast);
+  }
+
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.poll();
+    }, delayMs);
+    this.timer.unref();
+  }
+
+  private async poll(): Promise<void> {
+    const symbols = this.getSubscribedSymbols();
+    if (symbols.length === 0) return;
+
+    this.polling = true;
+    this.lastPollAt = Date.now();
+    this.pollCount++;
+
+    try {
+      // Background polling yields to interactive tool calls in the request queue
+      const lookup = await this.client.withRequestOptions({ priority: 'low', tool: 'price_stream' }, () =>
+        this.registry.getLatestQuotes(symbols, { convert: 'USD' }, 'best_match'));
+      const polledAt = new Date().toISOString();
+
+      for (const symbol of symbols) {
+        const crypto = lookup.quotes.get(symbol);
+        const quote = crypto?.quote?.USD;
+        if (!quote || typeof quote.price !== 'number') continue;
+
+        const previous = this.latest.get(symbol);
+        if (previous && previous.price === quote.price && previous.last_updated === quote.last_updated) {
+          continue;
+        }
+
+        const update: QuoteUpdate = {
+          symbol,
+          id: crypto.id,
+          name: crypto.name,
+          price: quote.price,
+          previous_price: previous ? previous.price : null,
+          change_since_last_percent: previous && previous.price > 0
+            ? ((quote.price - previous.price) / previous.price) * 100
+            : null,
+          percent_change_1h: quote.percent_change_1h,
+          percent_change_24h: quote.percent_change_24h,
+          percent_change_7d: quote.percent_change_7d,
+          volume_24h: quote.volume_24h,
+          market_cap: quote.market_cap,
+          last_updated: quote.last_updated,
+          polled_at: polledAt,
+        };
+        this.latest.set(symbol, update);
+
+        for (const subscription of this.subscriptions) {
+          if (subscription.symbols.has(symbol)) {
+            this.notify(subscription, update);
+          }
+        }
+      }
+
+      this.lastError = null;
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      logger.warn('Price poll failed', { symbols: symbols.length, error: this.lastError });
+    } finally {
+      this.polling = false;
+      if (this.subscriptions.size > 0) {
+        this.schedule(this.getPollIntervalMs());
+      }
+    }
+  }
+
+  private notify(subscription: Subscription, update: QuoteUpdate): void {
+    try {
+      subscription.listener(update);
+    } catch (error) {
+      logger.warn('Quote listener failed', {
+        symbol: update.symbol,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
@@ -0,0 +1,153 @@
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import { PricePoller } from './price-poller.js';
+import { validateSymbols } from '../utils/validators.js';
+import { logger } from '../utils/logger.js';
+import { RequestCheckConfig, isAuthorized, validateHostAndOrigin } from '../transport/request-checks.js';
+
+interface ClientState {
+  symbols: Set<string>;
+  unsubscribe: (() => void) | null;
+}
+
+export interface PriceStreamServerOptions extends RequestCheckConfig {
+  host: string;
+  port: number;
+}
+
+// Standalone WebSocket endpoint for live quotes. The upgrade request passes the
+// same Host/Origin and bearer token checks as the HTTP transport.
+//
+// Client -> server:  { "type": "subscribe", "symbols": ["BTC", "ETH"] }
+//                    { "type": "unsubscribe", "symbols": ["ETH"] }
+//                    { "type": "status" }
+// Server -> client:  { "type": "quote", "data": QuoteUpdate }
+//                    { "type": "subscribed", "symbols": [...], "poll_interval_ms": n }
+//                    { "type": "status", "data": {...} }
+//                    { "type": "error", "message": "..." }
+export class PriceStreamServer {
+  private wss: WebSocketServer | null = null;
+  private clients = new Map<WebSocket, ClientState>();
+
+  constructor(
+    private poller: PricePoller,
+    private options: PriceStreamServerOptions,
+  ) {}
+
+  async start(): Promise<void> {
+    const { host, port } = this.options;
+
+    this.wss = new WebSocketServer({
+      host,
+      port,
+      verifyClient: ({ req }, callback) => {
+        const headerError = validateHostAndOrigin(req, this.options);
+        if (headerError) {
+          logger.warn('Price stream connection rejected', { reason: headerError });
+          callback(false, 403, headerError);
+        } else if (!isAuthorized(req, this.options)) {
+          logger.warn('Price stream connection rejected', { reason: 'missing or invalid bearer token' });
+          callback(false, 401, 'Unauthorized', { 'WWW-Authenticate': 'Bearer' });
+        } else {
+          callback(true);
+        }
+      },
+    });
+    await new Promise<void>((resolve, reject) => {
+      this.wss!.once('listening', () => resolve());
+      this.wss!.once('error', reject);
+    });
+
+    this.wss.on('connection', (socket) => this.handleConnection(socket));
+
+    logger.info('Price stream WebSocket server listening', {
+      url: `ws://${host}:${port}`,
+      pollIntervalMs: this.poller.getPollIntervalMs(),
+    });
+  }
+
+  async stop(): Promise<void> {
+    for (const [socket, state] of this.clients) {
+      state.unsubscribe?.();
+      socket.close(1001, 'Server shutting down');
+    }
+    this.clients.clear();
+
+    if (this.wss) {
+      await new Promise<void>(resolve => this.wss!.close(() => resolve()));
+      this.wss = null;
+    }
+  }
+
+  getClientCount(): number {
+    return this.clients.size;
+  }
+
+  private handleConnection(socket: WebSocket): void {
+    const state: ClientState = { symbols: new Set(), unsubscribe: null };
+    this.clients.set(socket, state);
+    logger.info('Price stream client connected', { clients: this.clients.size });
+
+    socket.on('message', (raw) => this.handleMessage(socket, state, raw));
+    socket.on('close', () => {
+      state.unsubscribe?.();
+      this.clients.delete(socket);
+      logger.info('Price stream client disconnected', { clients: this.clients.size });
+    });
+    socket.on('error', (error) => {
+      logger.warn('Price stream client error', { error: error.message });
+    });
+  }
+
+  private handleMessage(socket: WebSocket, state: ClientState, raw: RawData): void {
+    let message: { type?: string; symbols?: string[] };
+    try {
+      message = JSON.parse(raw.toString());
+    } catch {
+      this.send(socket, { type: 'error', message: 'Messages must be JSON' });
+      return;
+    }
+
+    try {
+      switch (message.type) {
+      case 'subscribe':
+        validateSymbols(message.symbols || []).forEach(symbol => state.symbols.add(symbol));
+        this.resubscribe(socket, state);
+        break;
+      case 'unsubscribe':
+        (message.symbols || []).forEach(symbol => state.symbols.delete(symbol.toUpperCase()));
+        this.resubscribe(socket, state);
+        break;
+      case 'status':
+        this.send(socket, { type: 'status', data: this.poller.getStatus() });
+        break;
+      default:
+        this.send(socket, { type: 'error', message: `Unknown message type: ${message.type}` });
+      }
+    } catch (error) {
+      this.send(socket, { type: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  // The poller works on immutable symbol sets, so a changed set is a new subscription
+  private resubscribe(socket: WebSocket, state: ClientState): void {
+    state.unsubscribe?.();
+    state.unsubscribe = null;
+
+    const symbols = Array.from(state.symbols);
+    this.send(socket, {
+      type: 'subscribed',
+      symbols,
+      poll_interval_ms: this.poller.getPollIntervalMs(),
+    });
+
+    if (symbols.length > 0) {
+      state.unsubscribe = this.poller.subscribe(symbols, update => this.send(socket, { type: 'quote', data: update }));
+    }
+  }
+
+  private send(socket: WebSocket, payload: unknown): void {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(payload));
+    }
+  }
+}
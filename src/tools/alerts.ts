@@ -0,0 +1,283 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { CoinReference, CoinRegistry, COIN_REFERENCE_PROPERTIES, isDisambiguation, referenceLabel } from '../api/coin-registry.js';
+import { AlertStore } from '../storage/alert-store.js';
+import { AlertCondition } from '../types/index.js';
+import { validateSymbol } from '../utils/validators.js';
+
+const ALERT_CONDITIONS = ['above', 'below', 'change_percent'];
+const ALERT_TIMEFRAMES = ['1h', '24h', '7d'];
+
+export class AlertTools {
+  constructor(
+    private store: AlertStore,
+    private registry: CoinRegistry,
+  ) {}
+
+  getTools(): Tool[] {
+    return [
+      {
+        name: 'create_alert',
+        description: 'Create a persistent price alert (price above/below a level, or percent change over 1h/24h/7d)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ...COIN_REFERENCE_PROPERTIES,
+            condition: {
+              type: 'string',
+              enum: ALERT_CONDITIONS,
+              description: 'above/below compare the USD price to threshold; change_percent compares the percent change over timeframe',
+            },
+            threshold: {
+              type: 'number',
+              description: 'USD price level, or percent change (positive = rise of at least, negative = drop of at least)',
+            },
+            timeframe: {
+              type: 'string',
+              enum: ALERT_TIMEFRAMES,
+              description: 'Percent change window used by change_percent alerts',
+              default: '24h',
+            },
+          },
+          required: ['condition', 'threshold'],
+        },
+      },
+      {
+        name: 'list_alerts',
+        description: 'List stored price alerts and their trigger state',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            symbol: {
+              type: 'string',
+              description: 'Only list alerts for this symbol',
+            },
+            include_triggered: {
+              type: 'boolean',
+              description: 'Include alerts that have already triggered',
+              default: true,
+            },
+          },
+        },
+      },
+      {
+        name: 'delete_alert',
+        description: 'Delete a stored price alert by id',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              description: 'Alert id returned by create_alert or list_alerts',
+            },
+          },
+          required: ['id'],
+        },
+      },
+      {
+        name: 'check_alerts',
+        description: 'Evaluate all pending alerts against fresh quotes and report the ones that triggered',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
+    ];
+  }
+
+  async handleToolCall(name: string, args: any): Promise<any> {
+    switch (name) {
+    case 'create_alert':
+      return this.createAlert(args);
+    case 'list_alerts':
+      return this.listAlerts(args);
+    case 'delete_alert':
+      return this.deleteAlert(args);
+    case 'check_alerts':
+      return this.checkAlerts();
+    default:
+      throw new Error(`Unknown tool: ${name}`);
+    }
+  }
+
+  private async createAlert(args: CoinReference & {
+    condition: AlertCondition['condition'];
+    threshold: number;
+    timeframe?: AlertCondition['timeframe'];
+  }): Promise<any> {
+    const { condition, threshold, timeframe = '24h' } = args;
+    if (args.symbol) {
+      validateSymbol(args.symbol);
+    }
+
+    if (!ALERT_CONDITIONS.includes(condition)) {
+      throw new Error(`Invalid condition. Must be one of: ${ALERT_CONDITIONS.join(', ')}`);
+    }
+    if (!ALERT_TIMEFRAMES.includes(timeframe)) {
+      throw new Error(`Invalid timeframe. Must be one of: ${ALERT_TIMEFRAMES.join(', ')}`);
+    }
+    if (typeof threshold !== 'number' || !isFinite(threshold)) {
+      throw new Error('Threshold must be a number');
+    }
+    if (condition !== 'change_percent' && threshold <= 0) {
+      throw new Error('Price thresholds must be greater than 0');
+    }
+    if (condition === 'change_percent' && threshold === 0) {
+      throw new Error('Percent change threshold cannot be 0');
+    }
+
+    // Pin the alert to a coin id so later checks cannot drift to another coin sharing the ticker
+    const coin = await this.registry.lookup(args);
+    if (isDisambiguation(coin)) {
+      return coin;
+    }
+
+    const alert = await this.store.create({ symbol: coin.symbol, coin_id: coin.id, condition, threshold, timeframe });
+
+    return {
+      alert,
+      message: `Alert created: ${this.describeAlert(alert)}`,
+      storage: this.store.getFilePath(),
+    };
+  }
+
+  private async listAlerts(args: {
+    symbol?: string;
+    include_triggered?: boolean;
+  }): Promise<any> {
+    const { include_triggered = true } = args;
+    const symbol = args.symbol ? validateSymbol(args.symbol) : undefined;
+
+    const alerts = (await this.store.list())
+      .filter(alert => !symbol || alert.symbol === symbol)
+      .filter(alert => include_triggered || !alert.triggered);
+
+    return {
+      alerts: alerts.map(alert => ({ ...alert, description: this.describeAlert(alert) })),
+      count: alerts.length,
+      pending: alerts.filter(alert => !alert.triggered).length,
+      triggered: alerts.filter(alert => alert.triggered).length,
+      last_updated: new Date().toISOString(),
+    };
+  }
+
+  private async deleteAlert(args: { id: string }): Promise<any> {
+    const { id } = args;
+    if (!id) {
+      throw new Error('Alert id is required');
+    }
+
+    const deleted = await this.store.delete(id);
+    if (!deleted) {
+      throw new Error(`Alert ${id} not found`);
+    }
+
+    return {
+      deleted: true,
+      id,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  private async checkAlerts(): Promise<any> {
+    const pending = (await this.store.list()).filter(alert => !alert.triggered);
+
+    if (pending.length === 0) {
+      return {
+        checked: 0,
+        triggered_alerts: [],
+        pending_alerts: [],
+        message: 'No pending alerts to check',
+        checked_at: new Date().toISOString(),
+      };
+    }
+
+    // Alerts created before coin ids were stored fall back to the best match for their ticker
+    const references = pending.map(alert => this.alertReference(alert));
+
+    // Always fetch fresh quotes, alerts must not be evaluated against cached prices
+    const lookup = await this.registry.getLatestQuotes(references, { convert: 'USD' }, 'best_match');
+
+    const now = new Date().toISOString();
+    const triggered: AlertCondition[] = [];
+    const stillPending: Array<AlertCondition & { current_price?: number; current_percent_change?: number }> = [];
+    const unpricedSymbols: string[] = [];
+
+    for (const alert of pending) {
+      const crypto = lookup.quotes.get(referenceLabel(this.alertReference(alert)));
+      const quote = crypto?.quote?.USD;
+
+      if (!quote || typeof quote.price !== 'number') {
+        if (!unpricedSymbols.includes(alert.symbol)) {
+          unpricedSymbols.push(alert.symbol);
+        }
+        stillPending.push(alert);
+        continue;
+      }
+
+      const percentChange: number | undefined = quote[`percent_change_${alert.timeframe}`];
+
+      if (this.isTriggered(alert, quote.price, percentChange)) {
+        const updated: AlertCondition = {
+          ...alert,
+          triggered: true,
+          triggered_at: now,
+          trigger_price: quote.price,
+          trigger_percent_change: percentChange,
+        };
+        triggered.push(updated);
+      } else {
+        stillPending.push({
+          ...alert,
+          current_price: quote.price,
+          current_percent_change: percentChange,
+        });
+      }
+    }
+
+    await this.store.updateMany(triggered);
+
+    return {
+      checked: pending.length,
+      triggered_alerts: triggered.map(alert => ({ ...alert, description: this.describeAlert(alert) })),
+      pending_alerts: stillPending.map(alert => ({ ...alert, description: this.describeAlert(alert) })),
+      unpriced_symbols: unpricedSymbols,
+      message: triggered.length > 0
+        ? `${triggered.length} alert(s) triggered`
+        : 'No alerts triggered',
+      checked_at: now,
+    };
+  }
+
+  private alertReference(alert: AlertCondition): CoinReference {
+    return alert.coin_id !== undefined ? { id: alert.coin_id, symbol: alert.symbol } : { symbol: alert.symbol };
+  }
+
+  private isTriggered(alert: AlertCondition, price: number, percentChange?: number): boolean {
+    switch (alert.condition) {
+    case 'above':
+      return price >= alert.threshold;
+    case 'below':
+      return price <= alert.threshold;
+    case 'change_percent':
+      if (typeof percentChange !== 'number') return false;
+      return alert.threshold > 0 ? percentChange >= alert.threshold : percentChange <= alert.threshold;
+    default:
+      return false;
+    }
+  }
+
+  private describeAlert(alert: AlertCondition): string {
+    switch (alert.condition) {
+    case 'above':
+      return `${alert.symbol} price above $${alert.threshold}`;
+    case 'below':
+      return `${alert.symbol} price below $${alert.threshold}`;
+    case 'change_percent':
+      return alert.threshold > 0
+        ? `${alert.symbol} up ${alert.threshold}% or more over ${alert.timeframe}`
+        : `${alert.symbol} down ${Math.abs(alert.threshold)}% or more over ${alert.timeframe}`;
+    default:
+      return `${alert.symbol} ${alert.condition} ${alert.threshold}`;
+    }
+  }
+}
@@ -1,11 +1,37 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { CoinMarketCapClient } from '../api/client.js';
 import { CacheManager } from '../api/cache.js';
+import { CandleHistory } from '../api/candle-history.js';
+import {
+  CoinReference,
+  CoinRegistry,
+  COIN_REFERENCE_LIST_PROPERTIES,
+  COIN_REFERENCE_PROPERTIES,
+  DisambiguationResult,
+  ResolvedCoin,
+  isDisambiguation,
+  referenceLabel,
+  toCoinReferences,
+} from '../api/coin-registry.js';
+import { PlanLimitError } from '../config/api-tiers.js';
+import { OhlcvCandle } from '../types/index.js';
+import { CYCLE_PARAMETERS, CYCLE_WARMUP_DAYS, CycleCandle, analyzeCycles } from '../utils/cycles.js';
+import { formatConfidence, formatDuration } from '../utils/formatters.js';
+import { validateCurrency } from '../utils/validators.js';
+
+const CYCLE_PERIODS = ['1y', '2y', '4y', 'max'];
+
+// CoinMarketCap's daily history starts here; 'max' asks for all of it
+const HISTORY_START = '2013-04-28';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 export class HistoricalAnalysisTools {
   constructor(
     private client: CoinMarketCapClient,
     private cache: CacheManager,
+    private candleHistory: CandleHistory,
+    private registry: CoinRegistry,
   ) {}
 
   getTools(): Tool[] {
@@ -16,9 +42,11 @@ export class HistoricalAnalysisTools {
         inputSchema: {
           type: 'object',
           properties: {
-            symbol: {
+            ...COIN_REFERENCE_PROPERTIES,
+            convert: {
               type: 'string',
-              description: 'Cryptocurrency symbol (e.g., BTC, ETH)',
+              description: 'Quote currency for prices and volumes (USD, EUR, BTC, etc.)',
+              default: 'USD',
             },
             time_start: {
               type: 'string',
@@ -30,12 +58,11 @@ export class HistoricalAnalysisTools {
             },
             interval: {
               type: 'string',
-              enum: ['1d', '1h'],
-              description: 'Data interval',
+              enum: ['1d'],
+              description: 'Data interval (daily candles only)',
               default: '1d',
             },
           },
-          required: ['symbol'],
         },
       },
       {
@@ -44,9 +71,11 @@ export class HistoricalAnalysisTools {
         inputSchema: {
           type: 'object',
           properties: {
-            symbol: {
+            ...COIN_REFERENCE_PROPERTIES,
+            convert: {
               type: 'string',
-              description: 'Cryptocurrency symbol',
+              description: 'Quote currency for prices and volumes (USD, EUR, BTC, etc.)',
+              default: 'USD',
             },
             periods: {
               type: 'array',
@@ -58,7 +87,6 @@ export class HistoricalAnalysisTools {
               default: ['7d', '30d', '90d'],
             },
           },
-          required: ['symbol'],
         },
       },
       {
@@ -67,11 +95,11 @@ export class HistoricalAnalysisTools {
         inputSchema: {
           type: 'object',
           properties: {
-            symbols: {
-              type: 'array',
-              items: { type: 'string' },
-              description: 'Array of cryptocurrency symbols to compare',
-              maxItems: 10,
+            ...COIN_REFERENCE_LIST_PROPERTIES,
+            convert: {
+              type: 'string',
+              description: 'Quote currency for prices and volumes (USD, EUR, BTC, etc.)',
+              default: 'USD',
             },
             timeframe: {
               type: 'string',
@@ -80,7 +108,27 @@ export class HistoricalAnalysisTools {
               default: '30d',
             },
           },
-          required: ['symbols'],
+        },
+      },
+      {
+        name: 'analyze_market_cycles',
+        description: 'Classify a cryptocurrency\'s long-run daily history into accumulation, markup, distribution and markdown phases from drawdown from ATH, moving-average slopes and volatility regimes',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ...COIN_REFERENCE_PROPERTIES,
+            period: {
+              type: 'string',
+              enum: CYCLE_PERIODS,
+              description: 'History to classify. A 220-day moving-average warm-up is fetched on top, and the plan must reach back far enough for both (max uses all it allows)',
+              default: '4y',
+            },
+            convert: {
+              type: 'string',
+              description: 'Quote currency the history is measured in (USD, EUR, BTC, etc.)',
+              default: 'USD',
+            },
+          },
         },
       },
     ];
@@ -89,44 +137,61 @@ export class HistoricalAnalysisTools {
   async handleToolCall(name: string, args: Record<string, unknown>): Promise<unknown> {
     switch (name) {
     case 'get_historical_data':
-      return this.getHistoricalData(args as { symbol: string; time_start?: string; time_end?: string; interval?: string });
+      return this.getHistoricalData(args as CoinReference & { time_start?: string; time_end?: string; interval?: string; convert?: string });
     case 'get_price_history':
-      return this.getPriceHistory(args as { symbol: string; periods?: string[] });
+      return this.getPriceHistory(args as CoinReference & { periods?: string[]; convert?: string });
     case 'compare_historical_data':
-      return this.compareHistoricalData(args as { symbols: string[]; timeframe?: string });
+      return this.compareHistoricalData(args as { symbols?: string[]; ids?: number[]; slugs?: string[]; timeframe?: string; convert?: string });
+    case 'analyze_market_cycles':
+      return this.analyzeMarketCycles(args as CoinReference & { period?: string; convert?: string });
     default:
       throw new Error(`Unknown tool: ${name}`);
     }
   }
 
-  private async getHistoricalData(args: {
-    symbol: string;
+  private async getHistoricalData(args: CoinReference & {
     time_start?: string;
     time_end?: string;
     interval?: string;
+    convert?: string;
   }): Promise<any> {
     const { 
-      symbol, 
       time_start, 
       time_end, 
       interval = '1d',
     } = args;
+    const currency = validateCurrency(args.convert || 'USD');
+
+    // History is served from the daily candle store
+    if (interval !== '1d') {
+      throw new Error('Invalid interval. Only daily (1d) data is available');
+    }
+
+    const coin = await this.registry.lookup(args);
+    if (isDisambiguation(coin)) {
+      return coin;
+    }
+    const { symbol } = coin;
 
     // Set default time range if not provided
     const endDate = time_end ? new Date(time_end) : new Date();
-    const startDate = time_start ? new Date(time_start) : new Date(endDate.getTime() - 30 * 24 * 60 * 60 * 1000);
+    const requestedStart = time_start ? new Date(time_start) : new Date(endDate.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+    // Fit the range to the plan's historical depth; throws if the plan cannot serve it
+    const range = this.candleHistory.resolveRange(requestedStart, endDate);
+    const startDate = range.start;
 
     const cacheKey = this.cache.generateCacheKey('historical_data', {
-      symbol, time_start: startDate.toISOString(), time_end: endDate.toISOString(), interval,
+      id: coin.id, symbol, time_start: startDate.toISOString(), time_end: endDate.toISOString(), interval, convert: currency,
     });
     
-    const result = this.cache.get(cacheKey);
+    const result = await this.cache.get(cacheKey);
     if (result) {
       return result;
     }
 
     try {
-      const historicalData = await this.getHistoricalDataForPeriod(symbol, startDate, endDate);
+      const historicalData = await this.getHistoricalDataForPeriod(coin, startDate, endDate, currency);
       
       if (!historicalData || historicalData.length === 0) {
         throw new Error(`No historical data available for ${symbol}`);
@@ -134,6 +199,8 @@ export class HistoricalAnalysisTools {
 
       const rawHistoricalData = {
         symbol: symbol.toUpperCase(),
+        id: coin.id,
+        convert_currency: currency,
         period: {
           start_date: startDate.toISOString().split('T')[0],
           end_date: endDate.toISOString().split('T')[0],
@@ -142,41 +209,52 @@ export class HistoricalAnalysisTools {
         },
         historical_quotes: historicalData.map(quote => ({
           timestamp: quote.time_close || quote.timestamp,
-          open: quote.quote?.USD?.open || quote.open,
-          high: quote.quote?.USD?.high || quote.high,
-          low: quote.quote?.USD?.low || quote.low,
-          close: quote.quote?.USD?.close || quote.close || quote.price,
-          volume: quote.quote?.USD?.volume || quote.volume,
-          market_cap: quote.quote?.USD?.market_cap || quote.market_cap,
+          open: quote.quote?.[currency]?.open || quote.open,
+          high: quote.quote?.[currency]?.high || quote.high,
+          low: quote.quote?.[currency]?.low || quote.low,
+          close: quote.quote?.[currency]?.close || quote.close,
+          volume: quote.quote?.[currency]?.volume || quote.volume,
+          market_cap: quote.quote?.[currency]?.market_cap || quote.market_cap,
         })),
         metadata: {
           total_data_points: historicalData.length,
           data_source: 'CoinMarketCap',
           last_updated: new Date().toISOString(),
+          range_adjustment: range.clamped ? {
+            requested_start: range.requested_start,
+            served_start: range.earliest_allowed,
+            reason: `Current API plan allows ${range.max_days} days of history`,
+          } : undefined,
         },
       };
 
-      this.cache.set(cacheKey, rawHistoricalData, 600); // Cache for 10 minutes
+      await this.cache.set(cacheKey, rawHistoricalData, 600); // Cache for 10 minutes
       return rawHistoricalData;
     } catch (error) {
       throw new Error(`Failed to get historical data for ${symbol}: ${error}`);
     }
   }
 
-  private async getPriceHistory(args: {
-    symbol: string;
+  private async getPriceHistory(args: CoinReference & {
     periods?: string[];
+    convert?: string;
   }): Promise<any> {
     const { 
-      symbol, 
       periods = ['7d', '30d', '90d'],
     } = args;
+    const currency = validateCurrency(args.convert || 'USD');
+
+    const coin = await this.registry.lookup(args);
+    if (isDisambiguation(coin)) {
+      return coin;
+    }
+    const { symbol } = coin;
 
     const cacheKey = this.cache.generateCacheKey('price_history', {
-      symbol, periods,
+      id: coin.id, symbol, periods, convert: currency,
     });
     
-    const result = this.cache.get(cacheKey);
+    const result = await this.cache.get(cacheKey);
     if (result) {
       return result;
     }
@@ -184,6 +262,8 @@ export class HistoricalAnalysisTools {
     try {
       const priceHistory: any = {
         symbol: symbol.toUpperCase(),
+        id: coin.id,
+        convert_currency: currency,
         price_data: {},
         last_updated: new Date().toISOString(),
       };
@@ -192,32 +272,34 @@ export class HistoricalAnalysisTools {
         try {
           const days = this.periodToDays(period);
           const endDate = new Date();
-          const startDate = new Date(endDate.getTime() - days * 24 * 60 * 60 * 1000);
+          const range = this.candleHistory.resolveRange(new Date(endDate.getTime() - days * 24 * 60 * 60 * 1000), endDate);
+          const startDate = range.start;
           
-          const historicalData = await this.getHistoricalDataForPeriod(symbol, startDate, endDate);
+          const historicalData = await this.getHistoricalDataForPeriod(coin, startDate, endDate, currency);
           
           if (historicalData && historicalData.length > 0) {
             priceHistory.price_data[period] = {
               start_date: startDate.toISOString().split('T')[0],
               end_date: endDate.toISOString().split('T')[0],
+              clamped_to_plan_limit: range.clamped || undefined,
               data_points: historicalData.length,
               prices: historicalData.map(d => ({
                 date: d.time_close || d.timestamp,
-                price: d.quote?.USD?.close || d.quote?.USD?.price || d.price,
-                volume: d.quote?.USD?.volume || d.volume,
+                price: d.quote?.[currency]?.close,
+                volume: d.quote?.[currency]?.volume || d.volume,
               })),
-              first_price: historicalData[0]?.quote?.USD?.close || historicalData[0]?.quote?.USD?.price || historicalData[0]?.price,
-              last_price: historicalData[historicalData.length - 1]?.quote?.USD?.close || historicalData[historicalData.length - 1]?.price,
+              first_price: historicalData[0]?.quote?.[currency]?.close,
+              last_price: historicalData[historicalData.length - 1]?.quote?.[currency]?.close,
             };
           }
         } catch (error) {
           priceHistory.price_data[period] = {
-            error: `Data unavailable for ${period}`,
+            error: error instanceof PlanLimitError ? error.message : `Data unavailable for ${period}`,
           };
         }
       }
 
-      this.cache.set(cacheKey, priceHistory, 600); // Cache for 10 minutes
+      await this.cache.set(cacheKey, priceHistory, 600); // Cache for 10 minutes
       return priceHistory;
     } catch (error) {
       throw new Error(`Failed to get price history for ${symbol}: ${error}`);
@@ -225,19 +307,30 @@ export class HistoricalAnalysisTools {
   }
 
   private async compareHistoricalData(args: {
-    symbols: string[];
+    symbols?: string[];
+    ids?: number[];
+    slugs?: string[];
     timeframe?: string;
+    convert?: string;
   }): Promise<any> {
     const { 
-      symbols, 
       timeframe = '30d',
     } = args;
+    const currency = validateCurrency(args.convert || 'USD');
+
+    const references = toCoinReferences(args);
+    if (references.length === 0) {
+      throw new Error('At least one of symbols, ids or slugs is required');
+    }
+    if (references.length > 10) {
+      throw new Error('Maximum 10 cryptocurrencies allowed');
+    }
 
     const cacheKey = this.cache.generateCacheKey('historical_comparison', {
-      symbols: symbols.join(','), timeframe,
+      coins: references.map(referenceLabel).join(','), timeframe, convert: currency,
     });
     
-    const result = this.cache.get(cacheKey);
+    const result = await this.cache.get(cacheKey);
     if (result) {
       return result;
     }
@@ -248,36 +341,45 @@ export class HistoricalAnalysisTools {
       const startDate = new Date(endDate.getTime() - days * 24 * 60 * 60 * 1000);
 
       const comparisons = [];
+      const ambiguous: DisambiguationResult[] = [];
       
-      for (const symbol of symbols) {
+      for (const reference of references) {
+        const label = referenceLabel(reference);
         try {
-          const historicalData = await this.getHistoricalDataForPeriod(symbol, startDate, endDate);
+          const coin = await this.registry.lookup(reference);
+          if (isDisambiguation(coin)) {
+            ambiguous.push(coin);
+            continue;
+          }
+          const historicalData = await this.getHistoricalDataForPeriod(coin, startDate, endDate, currency);
           
           if (historicalData && historicalData.length > 0) {
             comparisons.push({
-              symbol: symbol.toUpperCase(),
+              symbol: coin.symbol.toUpperCase(),
+              id: coin.id,
               timeframe,
               data_available: true,
               data_points: historicalData.length,
               price_data: {
-                start_price: historicalData[0]?.quote?.USD?.close || historicalData[0]?.quote?.USD?.price || historicalData[0]?.price,
-                end_price: historicalData[historicalData.length - 1]?.quote?.USD?.close || historicalData[historicalData.length - 1]?.price,
-                highest_price: Math.max(...historicalData.map(d => d.quote?.USD?.high || d.quote?.USD?.price || d.price || 0)),
-                lowest_price: Math.min(...historicalData.map(d => d.quote?.USD?.low || d.quote?.USD?.price || d.price || Infinity)),
+                start_price: historicalData[0]?.quote?.[currency]?.close,
+                end_price: historicalData[historicalData.length - 1]?.quote?.[currency]?.close,
+                highest_price: Math.max(...historicalData.map(d => d.quote?.[currency]?.high || 0)),
+                lowest_price: Math.min(...historicalData.map(d => d.quote?.[currency]?.low || Infinity)),
               },
               volume_data: {
-                total_volume: historicalData.reduce((sum, d) => sum + (d.quote?.USD?.volume || d.volume || 0), 0),
-                average_volume: historicalData.reduce((sum, d) => sum + (d.quote?.USD?.volume || d.volume || 0), 0) / historicalData.length,
+                total_volume: historicalData.reduce((sum, d) => sum + (d.quote?.[currency]?.volume || d.volume || 0), 0),
+                average_volume: historicalData.reduce((sum, d) => sum + (d.quote?.[currency]?.volume || d.volume || 0), 0) / historicalData.length,
               },
               raw_historical_data: historicalData.map(d => ({
                 date: d.time_close || d.timestamp,
-                price: d.quote?.USD?.close || d.quote?.USD?.price || d.price,
-                volume: d.quote?.USD?.volume || d.volume,
+                price: d.quote?.[currency]?.close,
+                volume: d.quote?.[currency]?.volume || d.volume,
               })),
             });
           } else {
             comparisons.push({
-              symbol: symbol.toUpperCase(),
+              symbol: coin.symbol.toUpperCase(),
+              id: coin.id,
               timeframe,
               data_available: false,
               error: 'No historical data available',
@@ -285,7 +387,7 @@ export class HistoricalAnalysisTools {
           }
         } catch (error) {
           comparisons.push({
-            symbol: symbol.toUpperCase(),
+            symbol: label,
             timeframe,
             data_available: false,
             error: `Failed to fetch data: ${error}`,
@@ -300,52 +402,192 @@ export class HistoricalAnalysisTools {
           timeframe,
           total_days: days,
         },
+        convert_currency: currency,
         cryptocurrencies: comparisons,
+        // Ambiguous symbols are not compared; each lists the coins it could mean
+        disambiguation_required: ambiguous,
         metadata: {
-          total_symbols_requested: symbols.length,
+          total_symbols_requested: references.length,
           successful_data_fetches: comparisons.filter(c => c.data_available).length,
           data_source: 'CoinMarketCap',
           last_updated: new Date().toISOString(),
         },
       };
 
-      this.cache.set(cacheKey, comparison, 600); // Cache for 10 minutes
+      await this.cache.set(cacheKey, comparison, 600); // Cache for 10 minutes
       return comparison;
     } catch (error) {
       throw new Error(`Failed to compare historical data: ${error}`);
     }
   }
 
+  private async analyzeMarketCycles(args: CoinReference & {
+    period?: string;
+    convert?: string;
+  }): Promise<any> {
+    const { period = '4y' } = args;
+    const currency = validateCurrency(args.convert || 'USD');
+
+    if (!CYCLE_PERIODS.includes(period)) {
+      throw new Error(`Invalid period. Must be one of: ${CYCLE_PERIODS.join(', ')}`);
+    }
+
+    const coin = await this.registry.lookup(args);
+    if (isDisambiguation(coin)) {
+      return coin;
+    }
+    const { symbol } = coin;
+
+    const cacheKey = this.cache.generateCacheKey('market_cycles', {
+      id: coin.id, symbol, period, convert: currency,
+    });
+
+    const result = await this.cache.get(cacheKey);
+    if (result) {
+      return result;
+    }
+
+    // A fixed period plus its warm-up must fit the plan's historical depth; 'max' takes
+    // whatever the plan allows as long as at least one phase can be classified
+    this.candleHistory.requireDepth(
+      period === 'max' ? CYCLE_WARMUP_DAYS + CYCLE_PARAMETERS.min_phase_days : this.periodToDays(period) + CYCLE_WARMUP_DAYS,
+      `A ${period} cycle analysis with a ${CYCLE_WARMUP_DAYS}-day moving-average warm-up`,
+    );
+    const endDate = new Date();
+    const requestedStart = period === 'max'
+      ? new Date(`${HISTORY_START}T00:00:00Z`)
+      : new Date(endDate.getTime() - (this.periodToDays(period) + CYCLE_WARMUP_DAYS) * DAY_MS);
+    const range = this.candleHistory.resolveRange(requestedStart, endDate);
+
+    try {
+      const historicalData = await this.getHistoricalDataForPeriod(coin, range.start, endDate, currency);
+      const candles: CycleCandle[] = historicalData
+        .map(d => ({
+          date: String(d.time_close || d.timestamp || '').split('T')[0],
+          close: d.quote?.[currency]?.close || 0,
+        }))
+        .filter(candle => candle.close > 0);
+
+      if (candles.length < CYCLE_WARMUP_DAYS + CYCLE_PARAMETERS.min_phase_days) {
+        throw new Error(
+          `Not enough price history: ${candles.length} daily closes, at least ${CYCLE_WARMUP_DAYS + CYCLE_PARAMETERS.min_phase_days} needed`,
+        );
+      }
+
+      const analysis = analyzeCycles(candles);
+      const { days } = analysis;
+      const durationDays = (start: string, end: string): number =>
+        Math.round((new Date(end).getTime() - new Date(start).getTime()) / DAY_MS) + 1;
+      const toPercent = (value: number): number => Number((value * 100).toFixed(2));
+
+      const phases = analysis.spans.map(span => {
+        const first = days[span.start_index];
+        const last = days[span.end_index];
+        const closes = days.slice(span.start_index, span.end_index + 1).map(day => day.close);
+        const duration = durationDays(first.date, last.date);
+        return {
+          phase: span.phase,
+          start_date: first.date,
+          end_date: last.date,
+          duration_days: duration,
+          duration: formatDuration(duration),
+          start_price: first.close,
+          end_price: last.close,
+          change_percent: toPercent(last.close / first.close - 1),
+          high: Math.max(...closes),
+          low: Math.min(...closes),
+        };
+      });
+
+      const today = days[days.length - 1];
+      const current = phases[phases.length - 1];
+      const timeInPhase = (phase: string): number =>
+        phases.filter(span => span.phase === phase).reduce((sum, span) => sum + span.duration_days, 0);
+
+      const cycleData = {
+        symbol: symbol.toUpperCase(),
+        id: coin.id,
+        convert_currency: currency,
+        period: {
+          requested: period,
+          start_date: days[0].date,
+          end_date: today.date,
+          classified_days: days.length,
+          warmup_days: CYCLE_WARMUP_DAYS,
+          clamped_to_plan_limit: range.clamped || undefined,
+        },
+        current_phase: {
+          phase: current.phase,
+          since: current.start_date,
+          duration_days: current.duration_days,
+          duration: formatDuration(current.duration_days),
+          confidence: analysis.current_confidence,
+          confidence_text: formatConfidence(analysis.current_confidence).text,
+          // Share of each phase's conditions that hold today
+          scores: today.scores,
+          indicators: {
+            price: today.close,
+            // Highest close in the fetched history, which may start after the coin's real ATH
+            all_time_high: today.all_time_high,
+            drawdown_from_ath_percent: toPercent(today.drawdown),
+            [`sma${CYCLE_PARAMETERS.fast_ma}`]: today.fast_ma,
+            [`sma${CYCLE_PARAMETERS.slow_ma}`]: today.slow_ma,
+            [`sma${CYCLE_PARAMETERS.fast_ma}_slope_percent`]: toPercent(today.fast_ma_slope),
+            [`sma${CYCLE_PARAMETERS.slow_ma}_slope_percent`]: toPercent(today.slow_ma_slope),
+            volatility_30d_percent: toPercent(today.volatility),
+            volatility_median_percent: toPercent(analysis.volatility_median),
+            volatility_regime: today.high_volatility ? 'high' : 'low',
+          },
+        },
+        phases,
+        summary: {
+          phase_count: phases.length,
+          days_in_phase: {
+            accumulation: timeInPhase('accumulation'),
+            markup: timeInPhase('markup'),
+            distribution: timeInPhase('distribution'),
+            markdown: timeInPhase('markdown'),
+          },
+        },
+        methodology: {
+          ...CYCLE_PARAMETERS,
+          description: 'Each day takes the phase whose conditions hold most often; runs shorter than min_phase_days are folded into a neighbouring phase',
+        },
+        metadata: {
+          data_source: 'CoinMarketCap',
+          last_updated: new Date().toISOString(),
+        },
+      };
+
+      await this.cache.set(cacheKey, cycleData, 3600); // Cache for 1 hour
+      return cycleData;
+    } catch (error) {
+      throw new Error(`Failed to analyze market cycles for ${symbol}: ${error}`);
+    }
+  }
+
   private periodToDays(period: string): number {
     const periodMap: Record<string, number> = {
       '7d': 7,
       '30d': 30,
       '90d': 90,
       '1y': 365,
+      '2y': 730,
+      '4y': 1460,
     };
     return periodMap[period] || 30;
   }
 
-  private async getHistoricalDataForPeriod(symbol: string, startDate: Date, endDate: Date): Promise<any[]> {
+  private async getHistoricalDataForPeriod(coin: ResolvedCoin, startDate: Date, endDate: Date, currency: string): Promise<OhlcvCandle[]> {
     try {
-      const startISO = startDate.toISOString().split('T')[0];
-      const endISO = endDate.toISOString().split('T')[0];
-      
-      const response = await this.client.getCryptocurrencyOHLCVHistorical({
-        symbol: symbol.toUpperCase(),
-        time_start: startISO,
-        time_end: endISO,
-        interval: 'daily',
-      });
-      
-      if (response?.data) {
-        const data = response.data as any;
-        return data.quotes || [];
-      }
-      
-      return [];
+      // Closed candles come from the local candle store; only gaps hit the API
+      return await this.candleHistory.getDailyCandles(coin, startDate, endDate, currency);
     } catch (error) {
-      console.error(`[${new Date().toISOString()}] WARN: Failed to fetch historical data for ${symbol}:`, error);
+      // Plan limits are reported to the caller rather than looking like missing data
+      if (error instanceof PlanLimitError) {
+        throw error;
+      }
+      console.error(`[${new Date().toISOString()}] WARN: Failed to fetch historical data for ${coin.symbol}:`, error);
       return [];
     }
   }
@@ -1,11 +1,78 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { CoinMarketCapClient } from '../api/client.js';
 import { CacheManager } from '../api/cache.js';
+import { ApiTierManager, PlanLimitError, PREMIUM_ENDPOINTS } from '../config/api-tiers.js';
+import { CryptocurrencyQuoteEntry, MarketMetrics, PercentChangeKey, TrendingData } from '../types/index.js';
+import {
+  DOMINANCE_SERIES,
+  DOMINANCE_TREND_THRESHOLD,
+  DominanceHistory,
+  DominanceSeries,
+  DominanceTrend,
+  dominanceCrossovers,
+  dominanceTrend,
+  GlobalMetricsHistoricalQuote,
+  roundPoints,
+  toDominancePoint,
+} from '../utils/dominance.js';
+import { validateLimit } from '../utils/validators.js';
+
+const DOMINANCE_TIMEFRAMES: Record<string, number> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+  '180d': 180,
+  '1y': 365,
+};
+
+const TRENDING_PERIODS = ['24h', '7d', '30d'];
+
+const TRENDING_SORTS = ['search_score', 'price_change', 'volume'];
+
+const GAINERS_LOSERS_PERIODS = ['1h', '24h', '7d', '30d'];
+
+// The gainers/losers endpoint cannot filter by volume or market cap; pages of at
+// most this many coins are fetched until enough pass the floors
+const GAINERS_LOSERS_PAGE_SIZE = 200;
+const GAINERS_LOSERS_MAX_PAGES = 5;
+
+// Listings (by market cap) ranked when the plan lacks the gainers/losers endpoint
+const FALLBACK_UNIVERSE = 500;
+
+const SEASON_TIMEFRAMES = ['7d', '30d', '90d'];
+
+// Share of altcoins beating BTC at or above which it is altcoin season, and at or below which it is bitcoin season
+const ALTCOIN_SEASON_THRESHOLD = 75;
+const BITCOIN_SEASON_THRESHOLD = 25;
+
+// Fallback for listings whose tags are missing; tagged stablecoins are excluded regardless
+const STABLECOIN_SYMBOLS = new Set(['USDT', 'USDC', 'DAI', 'BUSD', 'TUSD', 'USDP', 'FDUSD', 'USDD', 'PYUSD', 'USDE', 'GUSD', 'FRAX', 'LUSD', 'EURC', 'EURS']);
+
+// Altcoin season index over one timeframe; null when BTC or every altcoin lacks the change
+interface SeasonIndex {
+  index: number | null;
+  classification: string | null;
+  outperforming?: number;
+  compared: number;
+  btc_change_percent: number | null;
+  median_altcoin_change_percent?: number;
+}
+
+const isStablecoin = (crypto: CryptocurrencyQuoteEntry): boolean =>
+  STABLECOIN_SYMBOLS.has(String(crypto.symbol).toUpperCase()) ||
+  (Array.isArray(crypto.tags) && crypto.tags.some(tag => (typeof tag === 'string' ? tag : String(tag.slug)).includes('stablecoin')));
+
+const classifySeason = (index: number): string => {
+  if (index >= ALTCOIN_SEASON_THRESHOLD) return 'altcoin_season';
+  if (index <= BITCOIN_SEASON_THRESHOLD) return 'bitcoin_season';
+  return 'neutral';
+};
 
 export class MarketMetricsTools {
   constructor(
     private client: CoinMarketCapClient,
     private cache: CacheManager,
+    private tierManager: ApiTierManager,
   ) {}
 
   getTools(): Tool[] {
@@ -26,22 +93,27 @@ export class MarketMetricsTools {
       },
       {
         name: 'get_market_dominance',
-        description: 'Get raw market dominance data (BTC, ETH, altcoins) without analysis',
+        description: 'Get BTC, ETH, stablecoin and other dominance: the current snapshot plus, on plans with historical global metrics, a daily series over the timeframe with trend directions and crossover events',
         inputSchema: {
           type: 'object',
           properties: {
             timeframe: {
               type: 'string',
-              enum: ['30d', '90d'],
-              description: 'Data timeframe',
+              enum: Object.keys(DOMINANCE_TIMEFRAMES),
+              description: 'Period of the dominance time series (clamped to the plan\'s historical depth)',
               default: '90d',
             },
+            include_series: {
+              type: 'boolean',
+              description: 'Include the daily dominance points, not only trends and events',
+              default: true,
+            },
           },
         },
       },
       {
         name: 'get_trending_cryptocurrencies',
-        description: 'Get currently trending cryptocurrencies based on search volume and social metrics',
+        description: 'Get currently trending cryptocurrencies ranked by CoinMarketCap search interest. On plans without the trending endpoint, falls back to a labeled proxy built from the top movers and the highest volume',
         inputSchema: {
           type: 'object',
           properties: {
@@ -52,15 +124,75 @@ export class MarketMetricsTools {
               maximum: 50,
               default: 20,
             },
+            time_period: {
+              type: 'string',
+              enum: TRENDING_PERIODS,
+              description: 'Window of search interest the ranking covers',
+              default: '24h',
+            },
             sort_by: {
               type: 'string',
-              enum: ['search_score', 'social_score', 'price_change', 'volume'],
-              description: 'Sorting criteria',
+              enum: TRENDING_SORTS,
+              description: 'Sorting criteria (search_score keeps the search-interest ranking)',
               default: 'search_score',
             },
           },
         },
       },
+      {
+        name: 'get_gainers_losers',
+        description: 'Get the top gaining and losing cryptocurrencies over a period. Uses the gainers/losers endpoint when the plan includes it, otherwise ranks the top listings by percent change',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            time_period: {
+              type: 'string',
+              enum: GAINERS_LOSERS_PERIODS,
+              description: 'Period of the percent change',
+              default: '24h',
+            },
+            limit: {
+              type: 'number',
+              description: 'Number of gainers and of losers to return',
+              minimum: 1,
+              maximum: 100,
+              default: 10,
+            },
+            min_volume_24h: {
+              type: 'number',
+              description: 'Exclude coins with less 24h volume (USD)',
+              default: 1000000,
+            },
+            min_market_cap: {
+              type: 'number',
+              description: 'Exclude coins with a smaller market cap (USD)',
+              default: 10000000,
+            },
+          },
+        },
+      },
+      {
+        name: 'analyze_altcoin_season',
+        description: 'Altcoin season index: the share of the top non-stablecoin altcoins outperforming BTC over 7d, 30d and 90d, with BTC dominance and the coins driving it',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            top_n: {
+              type: 'number',
+              description: 'Number of altcoins by market cap to compare against BTC (stablecoins excluded)',
+              minimum: 10,
+              maximum: 200,
+              default: 50,
+            },
+            timeframe: {
+              type: 'string',
+              enum: SEASON_TIMEFRAMES,
+              description: 'Timeframe whose index drives the classification',
+              default: '90d',
+            },
+          },
+        },
+      },
     ];
   }
 
@@ -72,6 +204,10 @@ export class MarketMetricsTools {
       return this.getMarketDominance(args);
     case 'get_trending_cryptocurrencies':
       return this.getTrendingCryptocurrencies(args);
+    case 'get_gainers_losers':
+      return this.getGainersLosers(args);
+    case 'analyze_altcoin_season':
+      return this.analyzeAltcoinSeason(args);
     default:
       throw new Error(`Unknown tool: ${name}`);
     }
@@ -82,7 +218,7 @@ export class MarketMetricsTools {
 
     const cacheKey = this.cache.generateCacheKey('market_overview', { include_defi });
     
-    const result = this.cache.get(cacheKey);
+    const result = await this.cache.get(cacheKey);
     if (result) {
       return result;
     }
@@ -132,19 +268,23 @@ export class MarketMetricsTools {
         };
       }
 
-      this.cache.set(cacheKey, marketOverview, 300); // Cache for 5 minutes
+      await this.cache.set(cacheKey, marketOverview, 300); // Cache for 5 minutes
       return marketOverview;
     } catch (error) {
       throw new Error(`Failed to get market overview: ${error}`);
     }
   }
 
-  private async getMarketDominance(args: { timeframe?: string }): Promise<any> {
-    const { timeframe = '90d' } = args;
+  private async getMarketDominance(args: { timeframe?: string; include_series?: boolean }): Promise<any> {
+    const { timeframe = '90d', include_series = true } = args;
+
+    if (!(timeframe in DOMINANCE_TIMEFRAMES)) {
+      throw new Error(`Invalid timeframe. Must be one of: ${Object.keys(DOMINANCE_TIMEFRAMES).join(', ')}`);
+    }
 
-    const cacheKey = this.cache.generateCacheKey('market_dominance', { timeframe });
+    const cacheKey = this.cache.generateCacheKey('market_dominance', { timeframe, include_series });
     
-    const result = this.cache.get(cacheKey);
+    const result = await this.cache.get(cacheKey);
     if (result) {
       return result;
     }
@@ -152,95 +292,490 @@ export class MarketMetricsTools {
     try {
       // Get current global metrics
       const globalResponse = await this.client.getGlobalMetricsQuotesLatest();
-      const globalData = globalResponse.data as any;
+      const globalData = globalResponse.data as Partial<MarketMetrics>;
+      // Derived like the historical series, so the current values line up with it
+      const current = toDominancePoint(globalData);
 
       const dominanceData = {
         current_dominance: {
-          btc_dominance: globalData.btc_dominance || 0,
-          eth_dominance: globalData.eth_dominance || 0,
-          altcoin_dominance: 100 - (globalData.btc_dominance || 0) - (globalData.eth_dominance || 0),
-          stablecoin_dominance: globalData.stablecoin_dominance || 0,
+          btc_dominance: current.btc ?? 0,
+          eth_dominance: current.eth ?? 0,
+          altcoin_dominance: 100 - (current.btc ?? 0) - (current.eth ?? 0),
+          stablecoin_dominance: current.stablecoins === null ? null : roundPoints(current.stablecoins),
+          others_dominance: current.others === null ? null : roundPoints(current.others),
         },
         market_metrics: {
           total_market_cap: globalData.quote?.USD?.total_market_cap || 0,
           total_volume_24h: globalData.quote?.USD?.total_volume_24h || 0,
           active_cryptocurrencies: globalData.active_cryptocurrencies || 0,
-          market_cap_change_24h: globalData.quote?.USD?.market_cap_change_24h || 0,
+          market_cap_change_24h: globalData.quote?.USD?.total_market_cap_yesterday_percentage_change ?? 0,
         },
         timeframe,
+        historical: await this.getDominanceHistory(timeframe, include_series),
         last_updated: globalData.last_updated || new Date().toISOString(),
         data_source: 'CoinMarketCap',
       };
 
-      this.cache.set(cacheKey, dominanceData, 300); // Cache for 5 minutes
+      await this.cache.set(cacheKey, dominanceData, 300); // Cache for 5 minutes
       return dominanceData;
     } catch (error) {
       throw new Error(`Failed to get market dominance data: ${error}`);
     }
   }
 
+  // Daily dominance over the timeframe; plans without the history get the reason instead
+  private async getDominanceHistory(timeframe: string, includeSeries: boolean): Promise<DominanceHistory> {
+    let premium;
+    try {
+      premium = await this.tryPremiumEndpoint(PREMIUM_ENDPOINTS.GLOBAL_METRICS_HISTORICAL, 'historical global metrics', async () => {
+        const endDate = new Date();
+        const range = this.tierManager.resolveHistoricalRange(
+          new Date(endDate.getTime() - DOMINANCE_TIMEFRAMES[timeframe] * 24 * 60 * 60 * 1000),
+          endDate,
+        );
+        const response = await this.client.getGlobalMetricsQuotesHistorical({
+          time_start: range.start.toISOString(),
+          time_end: endDate.toISOString(),
+          interval: 'daily',
+        });
+        return { range, quotes: ((response.data as { quotes?: GlobalMetricsHistoricalQuote[] } | undefined)?.quotes || []) };
+      });
+    } catch (error) {
+      if (error instanceof PlanLimitError) {
+        return { available: false, reason: error.message };
+      }
+      throw error;
+    }
+
+    if (!premium.data) {
+      return { available: false, reason: premium.fallback_reason };
+    }
+
+    const { range, quotes } = premium.data;
+    const points = quotes.map(toDominancePoint).filter(point => point.date && point.btc !== null);
+    if (points.length < 2) {
+      return { available: false, reason: `Only ${points.length} historical dominance point(s) returned` };
+    }
+
+    const trends = {} as Record<DominanceSeries, DominanceTrend | null>;
+    for (const series of DOMINANCE_SERIES) {
+      const values = points.map(point => point[series]).filter((value): value is number => value !== null);
+      trends[series] = values.length >= 2 ? dominanceTrend(values) : null;
+    }
+
+    return {
+      available: true,
+      source_endpoint: PREMIUM_ENDPOINTS.GLOBAL_METRICS_HISTORICAL,
+      interval: 'daily',
+      start_date: points[0].date,
+      end_date: points[points.length - 1].date,
+      clamped_to_plan_limit: range.clamped || undefined,
+      data_points: points.length,
+      trends,
+      events: dominanceCrossovers(points),
+      series: includeSeries
+        ? points.map(point => ({
+          date: point.date,
+          btc_dominance: point.btc === null ? null : roundPoints(point.btc),
+          eth_dominance: point.eth === null ? null : roundPoints(point.eth),
+          stablecoin_dominance: point.stablecoins === null ? null : roundPoints(point.stablecoins),
+          others_dominance: point.others === null ? null : roundPoints(point.others),
+        }))
+        : undefined,
+      methodology: {
+        others: '100 minus BTC, ETH and stablecoin dominance; null on days without stablecoin data',
+        trend_threshold_points: DOMINANCE_TREND_THRESHOLD,
+      },
+    };
+  }
+
   private async getTrendingCryptocurrencies(args: {
     limit?: number;
+    time_period?: string;
     sort_by?: string;
   }): Promise<any> {
-    const { limit = 20, sort_by = 'search_score' } = args;
+    const { limit = 20, time_period = '24h', sort_by = 'search_score' } = args;
+
+    if (!TRENDING_PERIODS.includes(time_period)) {
+      throw new Error(`Invalid time_period. Must be one of: ${TRENDING_PERIODS.join(', ')}`);
+    }
+    if (!TRENDING_SORTS.includes(sort_by)) {
+      throw new Error(`Invalid sort_by. Must be one of: ${TRENDING_SORTS.join(', ')}`);
+    }
 
-    const cacheKey = this.cache.generateCacheKey('trending_cryptos', { limit, sort_by });
+    const cacheKey = this.cache.generateCacheKey('trending_cryptos', { limit, time_period, sort_by });
     
-    const result = this.cache.get(cacheKey);
+    const result = await this.cache.get(cacheKey);
     if (result) {
       return result;
     }
 
     try {
-      // Get trending data (this would use CoinMarketCap's trending endpoint if available)
-      // For now, we'll use top gainers/losers as a proxy for trending
-      const trendingResponse = await this.client.getCryptocurrencyListingsLatest({
-        limit: limit * 2, // Get more to filter
-        sort: 'percent_change_24h',
-        sort_dir: 'desc',
+      const premium = await this.tryPremiumEndpoint(PREMIUM_ENDPOINTS.TRENDING_LATEST, 'trending', async () => {
+        const trendingResponse = await this.client.getCryptocurrencyTrendingLatest({ limit, time_period });
+        return trendingResponse.data as CryptocurrencyQuoteEntry[];
       });
-      
-      const trendingData = trendingResponse.data as any[];
 
-      // Also get top volume cryptocurrencies
-      const volumeResponse = await this.client.getCryptocurrencyListingsLatest({
-        limit,
-        sort: 'volume_24h',
-        sort_dir: 'desc',
-      });
-      
-      const volumeData = volumeResponse.data as any[];
-
-      const trending = {
-        trending_by_price_change: trendingData.slice(0, limit).map(crypto => ({
+      let trending: unknown;
+      if (premium.data) {
+        const changeKey = `percent_change_${time_period}` as PercentChangeKey;
+        const ranked: TrendingData[] = premium.data.map((crypto, index) => ({
+          id: crypto.id,
           symbol: crypto.symbol,
           name: crypto.name,
+          slug: crypto.slug,
+          rank: index + 1,
+          status: crypto.is_active === 0 ? 'inactive' : 'active',
           price: crypto.quote?.USD?.price || 0,
-          percent_change_24h: crypto.quote?.USD?.percent_change_24h || 0,
           volume_24h: crypto.quote?.USD?.volume_24h || 0,
-          market_cap_rank: crypto.cmc_rank || 0,
-        })),
-        trending_by_volume: volumeData.map(crypto => ({
+          market_cap: crypto.quote?.USD?.market_cap || 0,
+          percent_change_24h: crypto.quote?.USD?.percent_change_24h || 0,
+          avg_price_change: crypto.quote?.USD?.[changeKey] || 0,
+          search_interval: time_period,
+        }));
+        if (sort_by === 'price_change') {
+          ranked.sort((a, b) => b.avg_price_change - a.avg_price_change);
+        } else if (sort_by === 'volume') {
+          ranked.sort((a, b) => b.volume_24h - a.volume_24h);
+        }
+
+        trending = {
+          source: 'trending_latest',
+          source_endpoint: PREMIUM_ENDPOINTS.TRENDING_LATEST,
+          time_period,
+          trending: ranked,
+          metadata: {
+            total_cryptocurrencies_analyzed: ranked.length,
+            sort_criteria: sort_by,
+            data_timestamp: new Date().toISOString(),
+            data_source: 'CoinMarketCap',
+          },
+        };
+      } else {
+        trending = await this.getTrendingProxy(limit, sort_by, premium.fallback_reason as string);
+      }
+
+      await this.cache.set(cacheKey, trending, 300); // Cache for 5 minutes
+      return trending;
+    } catch (error) {
+      throw new Error(`Failed to get trending cryptocurrencies: ${error}`);
+    }
+  }
+
+  // Top movers and highest volume from the listings: no search-interest data, so no time_period
+  private async getTrendingProxy(limit: number, sortBy: string, fallbackReason: string): Promise<unknown> {
+    const trendingResponse = await this.client.getCryptocurrencyListingsLatest({
+      limit: limit * 2, // Get more to filter
+      sort: 'percent_change_24h',
+      sort_dir: 'desc',
+    });
+    
+    const trendingData = trendingResponse.data as CryptocurrencyQuoteEntry[];
+
+    // Also get top volume cryptocurrencies
+    const volumeResponse = await this.client.getCryptocurrencyListingsLatest({
+      limit,
+      sort: 'volume_24h',
+      sort_dir: 'desc',
+    });
+    
+    const volumeData = volumeResponse.data as CryptocurrencyQuoteEntry[];
+
+    return {
+      source: 'listings_proxy',
+      source_endpoint: '/v1/cryptocurrency/listings/latest',
+      fallback_reason: fallbackReason,
+      note: 'Proxy only: coins are ranked by 24h price change and 24h volume, not by search interest',
+      trending_by_price_change: trendingData.slice(0, limit).map(crypto => ({
+        symbol: crypto.symbol,
+        name: crypto.name,
+        price: crypto.quote?.USD?.price || 0,
+        percent_change_24h: crypto.quote?.USD?.percent_change_24h || 0,
+        volume_24h: crypto.quote?.USD?.volume_24h || 0,
+        market_cap_rank: crypto.cmc_rank || 0,
+      })),
+      trending_by_volume: volumeData.map(crypto => ({
+        symbol: crypto.symbol,
+        name: crypto.name,
+        price: crypto.quote?.USD?.price || 0,
+        volume_24h: crypto.quote?.USD?.volume_24h || 0,
+        volume_change_24h: crypto.quote?.USD?.volume_change_24h || 0,
+        market_cap_rank: crypto.cmc_rank || 0,
+      })),
+      metadata: {
+        total_cryptocurrencies_analyzed: trendingData.length + volumeData.length,
+        sort_criteria: sortBy,
+        data_timestamp: new Date().toISOString(),
+        data_source: 'CoinMarketCap',
+      },
+    };
+  }
+
+  // Runs a premium-endpoint request when the plan allows it. When the plan lacks
+  // the endpoint, or the API rejects it, the reason is returned instead so the
+  // caller can fall back to free data.
+  private async tryPremiumEndpoint<T>(
+    endpoint: string,
+    label: string,
+    request: () => Promise<T>,
+  ): Promise<{ data?: T; fallback_reason?: string }> {
+    if (!this.tierManager.isEndpointAvailable(endpoint)) {
+      return { fallback_reason: `The ${label} endpoint is not available on the ${this.tierManager.getTier().toUpperCase()} plan` };
+    }
+
+    try {
+      return { data: await request() };
+    } catch (error) {
+      // A plan rejection marks the endpoint unavailable; anything else is a real failure
+      if (this.tierManager.isEndpointAvailable(endpoint)) {
+        throw error;
+      }
+      return { fallback_reason: `The API rejected the ${label} endpoint for this plan` };
+    }
+  }
+
+  private async getGainersLosers(args: {
+    time_period?: string;
+    limit?: number;
+    min_volume_24h?: number;
+    min_market_cap?: number;
+  }): Promise<any> {
+    const { time_period = '24h', min_volume_24h = 1000000, min_market_cap = 10000000 } = args;
+    const limit = validateLimit(args.limit ?? 10, 100);
+
+    if (!GAINERS_LOSERS_PERIODS.includes(time_period)) {
+      throw new Error(`Invalid time_period. Must be one of: ${GAINERS_LOSERS_PERIODS.join(', ')}`);
+    }
+    if (typeof min_volume_24h !== 'number' || min_volume_24h < 0 || typeof min_market_cap !== 'number' || min_market_cap < 0) {
+      throw new Error('min_volume_24h and min_market_cap must be non-negative numbers');
+    }
+
+    const cacheKey = this.cache.generateCacheKey('gainers_losers', { time_period, limit, min_volume_24h, min_market_cap });
+
+    const result = await this.cache.get(cacheKey);
+    if (result) {
+      return result;
+    }
+
+    const changeKey = `percent_change_${time_period}` as PercentChangeKey;
+    const passesFloors = (crypto: CryptocurrencyQuoteEntry): boolean =>
+      (crypto.quote?.USD?.volume_24h || 0) >= min_volume_24h &&
+      (crypto.quote?.USD?.market_cap || 0) >= min_market_cap &&
+      typeof crypto.quote?.USD?.[changeKey] === 'number';
+    const toEntry = (crypto: CryptocurrencyQuoteEntry) => ({
+      symbol: crypto.symbol,
+      name: crypto.name,
+      id: crypto.id,
+      market_cap_rank: crypto.cmc_rank || 0,
+      price: crypto.quote?.USD?.price || 0,
+      percent_change: crypto.quote?.USD?.[changeKey],
+      volume_24h: crypto.quote?.USD?.volume_24h || 0,
+      market_cap: crypto.quote?.USD?.market_cap || 0,
+    });
+
+    try {
+      // Over-fetch so the first page usually survives the floors, then page on while short
+      const pageSize = Math.min(limit * 3, GAINERS_LOSERS_PAGE_SIZE);
+      const fetchPassing = async (sortDir: 'asc' | 'desc'): Promise<CryptocurrencyQuoteEntry[]> => {
+        const passing: CryptocurrencyQuoteEntry[] = [];
+        for (let page = 0; page < GAINERS_LOSERS_MAX_PAGES && passing.length < limit; page++) {
+          const response = await this.client.getCryptocurrencyTrendingGainersLosers({
+            start: page * pageSize + 1,
+            limit: pageSize,
+            time_period,
+            // The only sort the endpoint accepts; time_period selects the window
+            sort: 'percent_change_24h',
+            sort_dir: sortDir,
+          });
+          const data = (response.data || []) as CryptocurrencyQuoteEntry[];
+          passing.push(...data.filter(passesFloors));
+          if (data.length < pageSize) break;
+        }
+        return passing;
+      };
+      const premium = await this.tryPremiumEndpoint(PREMIUM_ENDPOINTS.TRENDING_GAINERS_LOSERS, 'gainers/losers', async () => ({
+        gainers: await fetchPassing('desc'),
+        losers: await fetchPassing('asc'),
+      }));
+      const fallbackReason = premium.fallback_reason;
+      let { gainers, losers } = premium.data || { gainers: [] as CryptocurrencyQuoteEntry[], losers: [] as CryptocurrencyQuoteEntry[] };
+
+      if (fallbackReason) {
+        const listingsResponse = await this.client.getCryptocurrencyListingsLatest({
+          limit: FALLBACK_UNIVERSE,
+          sort: 'market_cap',
+          sort_dir: 'desc',
+          volume_24h_min: min_volume_24h,
+          market_cap_min: min_market_cap,
+        });
+        const ranked = (listingsResponse.data as CryptocurrencyQuoteEntry[])
+          .filter(passesFloors)
+          .sort((a, b) => b.quote.USD[changeKey] - a.quote.USD[changeKey]);
+        gainers = ranked.filter(crypto => crypto.quote.USD[changeKey] > 0);
+        losers = ranked.filter(crypto => crypto.quote.USD[changeKey] < 0).reverse();
+      }
+
+      const shortfall = gainers.length < limit || losers.length < limit;
+      const gainersLosers = {
+        time_period,
+        source: fallbackReason ? 'listings_latest' : 'trending_gainers_losers',
+        source_endpoint: fallbackReason ? '/v1/cryptocurrency/listings/latest' : PREMIUM_ENDPOINTS.TRENDING_GAINERS_LOSERS,
+        fallback_reason: fallbackReason,
+        filters: {
+          min_volume_24h,
+          min_market_cap,
+          // The fallback only sees the largest coins by market cap
+          universe: fallbackReason ? `Top ${FALLBACK_UNIVERSE} by market cap` : undefined,
+        },
+        gainers: gainers.slice(0, limit).map(toEntry),
+        losers: losers.slice(0, limit).map(toEntry),
+        shortfall: shortfall
+          ? {
+            requested: limit,
+            gainers_returned: Math.min(gainers.length, limit),
+            losers_returned: Math.min(losers.length, limit),
+            reason: fallbackReason
+              ? `Fewer coins in the top ${FALLBACK_UNIVERSE} by market cap passed the volume and market cap floors with a ${time_period} change in that direction`
+              : `Not enough coins from the endpoint passed the volume and market cap floors (checked up to ${GAINERS_LOSERS_MAX_PAGES} pages per direction)`,
+          }
+          : undefined,
+        metadata: {
+          data_timestamp: new Date().toISOString(),
+          data_source: 'CoinMarketCap',
+        },
+      };
+
+      await this.cache.set(cacheKey, gainersLosers, 300); // Cache for 5 minutes
+      return gainersLosers;
+    } catch (error) {
+      throw new Error(`Failed to get gainers and losers: ${error}`);
+    }
+  }
+
+  private async analyzeAltcoinSeason(args: {
+    top_n?: number;
+    timeframe?: string;
+  }): Promise<any> {
+    const { timeframe = '90d' } = args;
+    const topN = validateLimit(args.top_n ?? 50, 200);
+
+    if (topN < 10) {
+      throw new Error('top_n must be at least 10');
+    }
+    if (!SEASON_TIMEFRAMES.includes(timeframe)) {
+      throw new Error(`Invalid timeframe. Must be one of: ${SEASON_TIMEFRAMES.join(', ')}`);
+    }
+
+    const cacheKey = this.cache.generateCacheKey('altcoin_season', { top_n: topN, timeframe });
+
+    const result = await this.cache.get(cacheKey);
+    if (result) {
+      return result;
+    }
+
+    try {
+      // Over-fetch so the comparison set still holds top_n coins once BTC and stablecoins are removed
+      const listingsResponse = await this.client.getCryptocurrencyListingsLatest({
+        limit: topN + 50,
+        sort: 'market_cap',
+        sort_dir: 'desc',
+      });
+      const listings = listingsResponse.data as CryptocurrencyQuoteEntry[];
+
+      const globalResponse = await this.client.getGlobalMetricsQuotesLatest();
+      const globalData = globalResponse.data as Partial<MarketMetrics>;
+
+      const btc = listings.find(crypto => crypto.id === 1 || crypto.symbol === 'BTC');
+      if (!btc) {
+        throw new Error('BTC is missing from the listings');
+      }
+
+      const altcoins = listings
+        .filter(crypto => crypto !== btc && !isStablecoin(crypto))
+        .slice(0, topN);
+      const excludedStablecoins = listings
+        .filter(crypto => isStablecoin(crypto) && (crypto.cmc_rank ?? Infinity) <= (altcoins[altcoins.length - 1]?.cmc_rank ?? 0))
+        .map(crypto => crypto.symbol);
+
+      const changeOf = (crypto: CryptocurrencyQuoteEntry, period: string): number | null => {
+        const change = crypto.quote?.USD?.[`percent_change_${period}` as PercentChangeKey];
+        return typeof change === 'number' ? change : null;
+      };
+
+      const indices: Record<string, SeasonIndex> = {};
+      for (const period of SEASON_TIMEFRAMES) {
+        const btcChange = changeOf(btc, period);
+        const compared = altcoins.filter(crypto => changeOf(crypto, period) !== null);
+        if (btcChange === null || compared.length === 0) {
+          indices[period] = { index: null, classification: null, btc_change_percent: btcChange, compared: compared.length };
+          continue;
+        }
+
+        const changes = compared.map(crypto => changeOf(crypto, period) as number).sort((a, b) => a - b);
+        const outperforming = changes.filter(change => change > btcChange).length;
+        const index = Math.round((outperforming / compared.length) * 100);
+        indices[period] = {
+          index,
+          classification: classifySeason(index),
+          outperforming,
+          compared: compared.length,
+          btc_change_percent: btcChange,
+          median_altcoin_change_percent: changes[Math.floor(changes.length / 2)],
+        };
+      }
+
+      // The coins whose performance relative to BTC moves the headline index the most
+      const btcHeadline = changeOf(btc, timeframe) ?? 0;
+      const relative = altcoins
+        .filter(crypto => changeOf(crypto, timeframe) !== null)
+        .map(crypto => ({
           symbol: crypto.symbol,
           name: crypto.name,
-          price: crypto.quote?.USD?.price || 0,
-          volume_24h: crypto.quote?.USD?.volume_24h || 0,
-          volume_change_24h: crypto.quote?.USD?.volume_change_24h || 0,
-          market_cap_rank: crypto.cmc_rank || 0,
-        })),
+          id: crypto.id,
+          market_cap_rank: crypto.cmc_rank,
+          percent_change: changeOf(crypto, timeframe) as number,
+          vs_btc_percent: Number(((changeOf(crypto, timeframe) as number) - btcHeadline).toFixed(2)),
+        }))
+        .sort((a, b) => b.vs_btc_percent - a.vs_btc_percent);
+
+      const headline = indices[timeframe];
+      const btcDominance = globalData.btc_dominance || 0;
+
+      const season = {
+        altcoin_season_index: headline.index,
+        classification: headline.classification,
+        timeframe,
+        thresholds: {
+          altcoin_season: ALTCOIN_SEASON_THRESHOLD,
+          bitcoin_season: BITCOIN_SEASON_THRESHOLD,
+        },
+        indices,
+        btc_dominance: btcDominance,
+        btc_dominance_change_24h: globalData.btc_dominance_24h_percentage_change ?? null,
+        eth_dominance: globalData.eth_dominance || 0,
+        // Same definition as in get_market_overview and get_market_dominance
+        altcoin_dominance: 100 - btcDominance - (globalData.eth_dominance || 0),
+        non_btc_dominance: 100 - btcDominance,
+        drivers: {
+          top_outperformers: relative.filter(coin => coin.vs_btc_percent > 0).slice(0, 10),
+          top_underperformers: relative.filter(coin => coin.vs_btc_percent < 0).slice(-10).reverse(),
+        },
+        universe: {
+          top_n: topN,
+          altcoins_compared: altcoins.length,
+          excluded_stablecoins: excludedStablecoins,
+        },
         metadata: {
-          total_cryptocurrencies_analyzed: trendingData.length + volumeData.length,
-          sort_criteria: sort_by,
+          methodology: `Share of the top ${topN} altcoins by market cap (excluding BTC and stablecoins) whose USD performance beats BTC's`,
           data_timestamp: new Date().toISOString(),
           data_source: 'CoinMarketCap',
         },
       };
 
-      this.cache.set(cacheKey, trending, 300); // Cache for 5 minutes
-      return trending;
+      await this.cache.set(cacheKey, season, 300); // Cache for 5 minutes
+      return season;
     } catch (error) {
-      throw new Error(`Failed to get trending cryptocurrencies: ${error}`);
+      throw new Error(`Failed to analyze altcoin season: ${error}`);
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,246 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { CacheManager } from '../api/cache.js';
+import { CoinRegistry, COIN_REFERENCE_PROPERTIES, referenceLabel } from '../api/coin-registry.js';
+import { CryptocurrencyQuoteEntry, PortfolioAnalysis, PortfolioHolding } from '../types/index.js';
+import { validateCurrency, validateSymbol } from '../utils/validators.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// YYYY-MM-DD that is a real calendar day, not in the future
+const parsePurchaseDate = (value: string, label: string): number => {
+  const time = /^\d{4}-\d{2}-\d{2}$/.test(value) ? Date.parse(`${value}T00:00:00Z`) : NaN;
+  if (isNaN(time) || new Date(time).toISOString().slice(0, 10) !== value) {
+    throw new Error(`Invalid purchase_date for ${label}: must be a YYYY-MM-DD date`);
+  }
+  if (time > Date.now()) {
+    throw new Error(`Invalid purchase_date for ${label}: must not be in the future`);
+  }
+  return time;
+};
+
+export class PortfolioTools {
+  constructor(
+    private cache: CacheManager,
+    private registry: CoinRegistry,
+  ) {}
+
+  getTools(): Tool[] {
+    return [
+      {
+        name: 'analyze_portfolio',
+        description: 'Value a portfolio of holdings at current prices with cost basis, P&L and allocation percentages',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            holdings: {
+              type: 'array',
+              description: 'Portfolio holdings, each identified by symbol, id or slug. Multiple lots of the same coin are combined.',
+              items: {
+                type: 'object',
+                properties: {
+                  ...COIN_REFERENCE_PROPERTIES,
+                  amount: {
+                    type: 'number',
+                    description: 'Quantity held',
+                    minimum: 0,
+                  },
+                  purchase_price: {
+                    type: 'number',
+                    description: 'Price paid per unit, in the convert currency',
+                    minimum: 0,
+                  },
+                  purchase_date: {
+                    type: 'string',
+                    description: 'Purchase date (YYYY-MM-DD), used for the holding period and annualized return',
+                  },
+                },
+                required: ['amount', 'purchase_price'],
+              },
+              minItems: 1,
+              maxItems: 50,
+            },
+            convert: {
+              type: 'string',
+              description: 'Currency to value the portfolio in (USD, EUR, BTC, etc.)',
+              default: 'USD',
+            },
+          },
+          required: ['holdings'],
+        },
+      },
+    ];
+  }
+
+  async handleToolCall(name: string, args: any): Promise<any> {
+    switch (name) {
+    case 'analyze_portfolio':
+      return this.analyzePortfolio(args);
+    default:
+      throw new Error(`Unknown tool: ${name}`);
+    }
+  }
+
+  private async analyzePortfolio(args: {
+    holdings: PortfolioHolding[];
+    convert?: string;
+  }): Promise<any> {
+    const { holdings } = args;
+    const currency = validateCurrency(args.convert || 'USD');
+
+    if (!Array.isArray(holdings) || holdings.length === 0) {
+      throw new Error('At least one holding is required');
+    }
+
+    for (const holding of holdings) {
+      if (holding.symbol) {
+        validateSymbol(holding.symbol);
+      }
+      const label = referenceLabel(holding);
+      if (!label) {
+        throw new Error('Each holding needs a symbol, id or slug');
+      }
+      if (typeof holding.amount !== 'number' || holding.amount < 0) {
+        throw new Error(`Invalid amount for ${label}: must be a non-negative number`);
+      }
+      if (typeof holding.purchase_price !== 'number' || holding.purchase_price < 0) {
+        throw new Error(`Invalid purchase_price for ${label}: must be a non-negative number`);
+      }
+      if (holding.purchase_date !== undefined) {
+        parsePurchaseDate(holding.purchase_date, label);
+      }
+    }
+
+    const cacheKey = this.cache.generateCacheKey('portfolio_analysis', { holdings, convert: currency });
+
+    const result = await this.cache.get(cacheKey);
+    if (result) {
+      return result;
+    }
+
+    try {
+      // One batched quotes call for the whole portfolio
+      const lookup = await this.registry.getLatestQuotes(
+        holdings.map(holding => ({ symbol: holding.symbol, id: holding.id, slug: holding.slug })),
+        { convert: currency },
+      );
+
+      // Valuing a guessed coin would be wrong, so ambiguous tickers stop the analysis
+      if (lookup.ambiguous.length > 0) {
+        return {
+          disambiguation_required: true,
+          message: 'Some holdings use tickers shared by several cryptocurrencies. Add the id or slug of the intended coin to those holdings and call again.',
+          ambiguous: lookup.ambiguous,
+        };
+      }
+
+      // Combine lots of the same coin into a single position. The purchase date of a
+      // position is the cost-weighted average of its lots, known only if every lot has one.
+      const positions = new Map<string, {
+        id?: number;
+        symbol: string;
+        amount: number;
+        cost_basis: number;
+        dated_cost_time: number;
+        undated_lots: number;
+      }>();
+      for (const holding of holdings) {
+        const label = referenceLabel(holding);
+        const coin = lookup.coins.get(label);
+        const key = coin?.id !== undefined ? String(coin.id) : label;
+        const position = positions.get(key) || {
+          id: coin?.id, symbol: coin?.symbol || label, amount: 0, cost_basis: 0, dated_cost_time: 0, undated_lots: 0,
+        };
+        const cost = holding.amount * holding.purchase_price;
+        position.amount += holding.amount;
+        position.cost_basis += cost;
+        if (holding.purchase_date !== undefined) {
+          position.dated_cost_time += cost * parsePurchaseDate(holding.purchase_date, label);
+        } else {
+          position.undated_lots++;
+        }
+        positions.set(key, position);
+      }
+      const quoteByKey = new Map<string, CryptocurrencyQuoteEntry>();
+      lookup.quotes.forEach((crypto, label) => {
+        const coin = lookup.coins.get(label);
+        quoteByKey.set(coin?.id !== undefined ? String(coin.id) : label, crypto);
+      });
+
+      // Holdings without a quote are reported apart: valuing them at 0 would show a -100% loss
+      const unpricedHoldings: Array<{ id?: number; symbol: string; amount: number; cost_basis: number }> = [];
+      const valued: PortfolioAnalysis['holdings'] = [];
+      for (const [key, position] of Array.from(positions.entries())) {
+        const currentPrice = quoteByKey.get(key)?.quote?.[currency]?.price;
+        if (typeof currentPrice !== 'number') {
+          unpricedHoldings.push({ id: position.id, symbol: position.symbol, amount: position.amount, cost_basis: position.cost_basis });
+          continue;
+        }
+
+        const currentValue = position.amount * currentPrice;
+        const pnl = currentValue - position.cost_basis;
+        const holding: PortfolioAnalysis['holdings'][number] = {
+          id: position.id,
+          symbol: position.symbol,
+          amount: position.amount,
+          current_price: currentPrice,
+          current_value: currentValue,
+          cost_basis: position.cost_basis,
+          pnl,
+          pnl_percentage: position.cost_basis > 0 ? (pnl / position.cost_basis) * 100 : 0,
+          allocation_percentage: 0,
+        };
+
+        if (position.undated_lots === 0 && position.cost_basis > 0) {
+          const purchaseTime = position.dated_cost_time / position.cost_basis;
+          const heldDays = Math.floor((Date.now() - purchaseTime) / DAY_MS);
+          holding.average_purchase_date = new Date(purchaseTime).toISOString().split('T')[0];
+          holding.holding_period_days = heldDays;
+          // Annualizing less than a year of returns extrapolates noise
+          if (heldDays >= 365) {
+            holding.annualized_return_percentage = (Math.pow(currentValue / position.cost_basis, 365 / heldDays) - 1) * 100;
+          }
+        }
+        valued.push(holding);
+      }
+
+      const totalValue = valued.reduce((sum, h) => sum + h.current_value, 0);
+      const totalCost = valued.reduce((sum, h) => sum + h.cost_basis, 0);
+      const totalPnl = totalValue - totalCost;
+
+      for (const holding of valued) {
+        holding.allocation_percentage = totalValue > 0 ? (holding.current_value / totalValue) * 100 : 0;
+      }
+      valued.sort((a, b) => b.current_value - a.current_value);
+
+      const analysis: PortfolioAnalysis = {
+        total_value: totalValue,
+        total_cost: totalCost,
+        total_pnl: totalPnl,
+        total_pnl_percentage: totalCost > 0 ? (totalPnl / totalCost) * 100 : 0,
+        holdings: valued,
+        allocation: valued.map(h => ({
+          symbol: h.symbol,
+          percentage: h.allocation_percentage,
+        })),
+      };
+
+      const portfolioData = {
+        ...analysis,
+        convert_currency: currency,
+        positions_count: valued.length,
+        // Not included in any total above
+        unpriced_holdings: unpricedHoldings,
+        symbol_collisions: Array.from(lookup.coins.values())
+          .map(coin => coin.collision)
+          .filter(collision => collision !== undefined),
+        last_updated: new Date().toISOString(),
+        data_source: 'CoinMarketCap',
+      };
+
+      await this.cache.set(cacheKey, portfolioData, 60); // Cache for 1 minute
+      return portfolioData;
+    } catch (error) {
+      throw new Error(`Failed to analyze portfolio: ${error}`);
+    }
+  }
+}
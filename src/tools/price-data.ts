@@ -1,12 +1,39 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { CoinMarketCapClient } from '../api/client.js';
 import { CacheManager } from '../api/cache.js';
-import { CryptoQuote, SupportedCurrency, SortBy } from '../types/index.js';
+import {
+  CoinReference,
+  CoinRegistry,
+  COIN_REFERENCE_LIST_PROPERTIES,
+  COIN_REFERENCE_PROPERTIES,
+  isDisambiguation,
+  toCoinReferences,
+} from '../api/coin-registry.js';
+import { ApiTierManager } from '../config/api-tiers.js';
+import {
+  CryptocurrencyQuoteEntry,
+  CryptoQuote,
+  PriceConversionData,
+  PriceConversionEntry,
+  SupportedCurrency,
+  SortBy,
+} from '../types/index.js';
+import { validateSymbol } from '../utils/validators.js';
+
+const MAX_CONVERSION_TARGETS = 20;
+
+interface FiatCurrency {
+  id: number;
+  name: string;
+  symbol: string;
+}
 
 export class PriceDataTools {
   constructor(
     private client: CoinMarketCapClient,
     private cache: CacheManager,
+    private registry: CoinRegistry,
+    private tierManager: ApiTierManager,
   ) {}
 
   getTools(): Tool[] {
@@ -17,10 +44,7 @@ export class PriceDataTools {
         inputSchema: {
           type: 'object',
           properties: {
-            symbol: {
-              type: 'string',
-              description: 'Cryptocurrency symbol (e.g., BTC, ETH, ADA)',
-            },
+            ...COIN_REFERENCE_PROPERTIES,
             convert: {
               type: 'string',
               description: 'Currency to convert to (USD, EUR, BTC, etc.)',
@@ -32,7 +56,6 @@ export class PriceDataTools {
               default: false,
             },
           },
-          required: ['symbol'],
         },
       },
       {
@@ -41,12 +64,7 @@ export class PriceDataTools {
         inputSchema: {
           type: 'object',
           properties: {
-            symbols: {
-              type: 'array',
-              items: { type: 'string' },
-              description: 'Array of cryptocurrency symbols',
-              maxItems: 50,
-            },
+            ...COIN_REFERENCE_LIST_PROPERTIES,
             convert: {
               type: 'string',
               description: 'Currency to convert to',
@@ -59,7 +77,6 @@ export class PriceDataTools {
               default: 'market_cap',
             },
           },
-          required: ['symbols'],
         },
       },
       {
@@ -110,7 +127,7 @@ export class PriceDataTools {
       },
       {
         name: 'search_cryptocurrencies',
-        description: 'Search for cryptocurrencies by name or symbol',
+        description: 'Search all listed cryptocurrencies by name, symbol or slug (typo tolerant). Reports tickers shared by several coins.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -135,6 +152,35 @@ export class PriceDataTools {
           required: ['query'],
         },
       },
+      {
+        name: 'convert_amount',
+        description: 'Convert an amount of a cryptocurrency or fiat currency into one or more fiat or crypto currencies, at the latest rate or at a historical time',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ...COIN_REFERENCE_PROPERTIES,
+            symbol: {
+              type: 'string',
+              description: 'Source cryptocurrency or fiat symbol (e.g., BTC, USD). If several coins share a crypto symbol, a list of candidates is returned instead.',
+            },
+            amount: {
+              type: 'number',
+              description: 'Amount of the source currency to convert',
+            },
+            convert: {
+              type: 'array',
+              items: { type: 'string' },
+              description: `Target currencies, fiat or crypto (e.g., ["USD", "EUR", "ETH"]); at most ${MAX_CONVERSION_TARGETS}`,
+              default: ['USD'],
+            },
+            time: {
+              type: 'string',
+              description: 'Convert at this past time (ISO 8601 or YYYY-MM-DD) instead of the latest rate; needs historical data on the API plan',
+            },
+          },
+          required: ['amount'],
+        },
+      },
     ];
   }
 
@@ -148,37 +194,45 @@ export class PriceDataTools {
       return this.getTopCryptocurrencies(args);
     case 'search_cryptocurrencies':
       return this.searchCryptocurrencies(args);
+    case 'convert_amount':
+      return this.convertAmount(args);
     default:
       throw new Error(`Unknown tool: ${name}`);
     }
   }
 
   private async getCryptoPrice(args: {
-    symbol: string;
+    symbol?: string;
+    id?: number;
+    slug?: string;
     convert?: string;
     include_technical?: boolean;
   }): Promise<any> {
-    const { symbol, convert = 'USD', include_technical = false } = args;
-    const cacheKey = this.cache.generateCacheKey('crypto_price', { symbol, convert });
-    
-    let result = this.cache.get(cacheKey);
-    if (result) {
-      return result;
-    }
+    const { convert = 'USD', include_technical = false } = args;
+    const label = args.symbol || args.slug || String(args.id ?? '');
 
     try {
-      const response = await this.client.getCryptocurrencyQuotesLatest({
-        symbol: symbol.toUpperCase(),
+      const coin = await this.registry.lookup(args);
+      if (isDisambiguation(coin)) {
+        return coin;
+      }
+
+      const cacheKey = this.cache.generateCacheKey('crypto_price', { id: coin.id, symbol: coin.symbol, convert });
+      let result = await this.cache.get(cacheKey);
+      if (result) {
+        return result;
+      }
+
+      const quotes = await this.registry.fetchQuotes([coin], {
         convert: convert.toUpperCase(),
         aux: 'num_market_pairs,cmc_rank,date_added,tags,platform,max_supply,circulating_supply,total_supply',
       });
 
-      const responseData = response.data as any;
-      if (!responseData || !responseData[symbol.toUpperCase()]) {
-        throw new Error(`Cryptocurrency ${symbol} not found`);
+      const crypto = quotes.get(coin);
+      if (!crypto) {
+        throw new Error(`Cryptocurrency ${label} not found`);
       }
 
-      const crypto = responseData[symbol.toUpperCase()][0];
       const quote = crypto.quote[convert.toUpperCase()];
 
       result = {
@@ -206,38 +260,45 @@ export class PriceDataTools {
         platform: crypto.platform,
         last_updated: quote.last_updated,
         convert_currency: convert.toUpperCase(),
+        symbol_collision: coin.collision,
       };
 
-      this.cache.set(cacheKey, result, 60); // Cache for 1 minute
+      await this.cache.set(cacheKey, result, 60); // Cache for 1 minute
       return result;
     } catch (error) {
-      throw new Error(`Failed to get price for ${symbol}: ${error}`);
+      throw new Error(`Failed to get price for ${label}: ${error}`);
     }
   }
 
   private async getMultiplePrices(args: {
-    symbols: string[];
+    symbols?: string[];
+    ids?: number[];
+    slugs?: string[];
     convert?: string;
     sort_by?: string;
   }): Promise<any> {
-    const { symbols, convert = 'USD', sort_by = 'market_cap' } = args;
-    const symbolsStr = symbols.map(s => s.toUpperCase()).join(',');
-    const cacheKey = this.cache.generateCacheKey('multiple_prices', { symbols: symbolsStr, convert, sort_by });
-    
-    let result = this.cache.get(cacheKey);
+    const { convert = 'USD', sort_by = 'market_cap' } = args;
+    const references = toCoinReferences(args);
+    if (references.length === 0) {
+      throw new Error('At least one of symbols, ids or slugs is required');
+    }
+    if (references.length > 50) {
+      throw new Error('Maximum 50 cryptocurrencies allowed');
+    }
+
+    const cacheKey = this.cache.generateCacheKey('multiple_prices', { references, convert, sort_by });
+    let result = await this.cache.get(cacheKey);
     if (result) {
       return result;
     }
 
     try {
-      const response = await this.client.getCryptocurrencyQuotesLatest({
-        symbol: symbolsStr,
+      const lookup = await this.registry.getLatestQuotes(references, {
         convert: convert.toUpperCase(),
         aux: 'num_market_pairs,cmc_rank,date_added,tags,platform,max_supply,circulating_supply,total_supply',
       });
 
-      const prices = Object.values(response.data as any).map((cryptoArray: any) => {
-        const crypto = cryptoArray[0];
+      const prices = Array.from(lookup.quotes.values()).map(crypto => {
         const quote = crypto.quote[convert.toUpperCase()];
 
         return {
@@ -263,15 +324,23 @@ export class PriceDataTools {
         return (bVal as number) - (aVal as number);
       });
 
+      const symbolCollisions = Array.from(lookup.coins.values())
+        .map(coin => coin.collision)
+        .filter(collision => collision !== undefined);
+
       result = {
         cryptocurrencies: prices,
         count: prices.length,
+        not_found: lookup.not_found,
+        // Ambiguous symbols are not priced; each lists the coins it could mean
+        disambiguation_required: lookup.ambiguous,
+        symbol_collisions: symbolCollisions,
         convert_currency: convert.toUpperCase(),
         sorted_by: sort_by,
         last_updated: new Date().toISOString(),
       };
 
-      this.cache.set(cacheKey, result, 60);
+      await this.cache.set(cacheKey, result, 60);
       return result;
     } catch (error) {
       throw new Error(`Failed to get multiple prices: ${error}`);
@@ -301,7 +370,7 @@ export class PriceDataTools {
       limit, convert, sort, price_min, price_max, market_cap_min, market_cap_max,
     });
     
-    let result = this.cache.get(cacheKey);
+    let result = await this.cache.get(cacheKey);
     if (result) {
       return result;
     }
@@ -360,7 +429,7 @@ export class PriceDataTools {
         last_updated: new Date().toISOString(),
       };
 
-      this.cache.set(cacheKey, result, 120); // Cache for 2 minutes
+      await this.cache.set(cacheKey, result, 120); // Cache for 2 minutes
       return result;
     } catch (error) {
       throw new Error(`Failed to get top cryptocurrencies: ${error}`);
@@ -375,57 +444,190 @@ export class PriceDataTools {
     const { query, limit = 10, convert = 'USD' } = args;
     const cacheKey = this.cache.generateCacheKey('search_cryptocurrencies', { query, limit, convert });
     
-    let result = this.cache.get(cacheKey);
+    let result = await this.cache.get(cacheKey);
     if (result) {
       return result;
     }
 
     try {
-      // Get top cryptocurrencies and filter by search term
-      const response = await this.client.getCryptocurrencyListingsLatest({
-        start: 1,
-        limit: 1000, // Get more to search through
-        convert: convert.toUpperCase(),
-        sort: 'market_cap',
-        sort_dir: 'desc',
-      });
+      const currency = convert.toUpperCase();
+      const candidates = await this.registry.search(query, limit);
 
-      const searchTerm = query.toLowerCase();
-      const matches = (response.data as any[])
-        .filter((crypto: any) => 
-          crypto.name.toLowerCase().includes(searchTerm) ||
-          crypto.symbol.toLowerCase().includes(searchTerm) ||
-          crypto.slug.toLowerCase().includes(searchTerm),
-        )
-        .slice(0, limit)
-        .map((crypto: any) => {
-          const quote = crypto.quote[convert.toUpperCase()];
-          return {
-            id: crypto.id,
-            name: crypto.name,
-            symbol: crypto.symbol,
-            slug: crypto.slug,
-            rank: crypto.cmc_rank,
-            price: quote.price,
-            market_cap: quote.market_cap,
-            volume_24h: quote.volume_24h,
-            percent_change_24h: quote.percent_change_24h,
-            last_updated: quote.last_updated,
-          };
+      // One quotes call by id prices every match, however far down the rankings it is
+      let quotes: Record<string, CryptocurrencyQuoteEntry | CryptocurrencyQuoteEntry[]> = {};
+      if (candidates.length > 0) {
+        const response = await this.client.getCryptocurrencyQuotesLatest({
+          id: candidates.map(candidate => candidate.id).join(','),
+          convert: currency,
         });
+        quotes = (response.data || {}) as Record<string, CryptocurrencyQuoteEntry | CryptocurrencyQuoteEntry[]>;
+      }
+
+      const matches = candidates.map(candidate => {
+        const crypto = quotes[String(candidate.id)];
+        const quote = (Array.isArray(crypto) ? crypto[0] : crypto)?.quote?.[currency];
+        return {
+          id: candidate.id,
+          name: candidate.name,
+          symbol: candidate.symbol,
+          slug: candidate.slug,
+          rank: candidate.rank,
+          match_type: candidate.match_type,
+          platform: candidate.platform?.name ?? null,
+          token_address: candidate.platform?.token_address ?? null,
+          symbol_shared_by: candidate.symbol_shared_by,
+          price: quote?.price ?? null,
+          market_cap: quote?.market_cap ?? null,
+          volume_24h: quote?.volume_24h ?? null,
+          percent_change_24h: quote?.percent_change_24h ?? null,
+          last_updated: quote?.last_updated ?? null,
+        };
+      });
 
       result = {
         query,
         matches,
         count: matches.length,
-        convert_currency: convert.toUpperCase(),
+        ambiguous_symbols: Array.from(new Set(matches.filter(match => match.symbol_shared_by > 1).map(match => match.symbol))),
+        convert_currency: currency,
         last_updated: new Date().toISOString(),
       };
 
-      this.cache.set(cacheKey, result, 300); // Cache for 5 minutes
+      await this.cache.set(cacheKey, result, 300); // Cache for 5 minutes
       return result;
     } catch (error) {
       throw new Error(`Failed to search cryptocurrencies: ${error}`);
     }
   }
-}
\ No newline at end of file
+
+  private async convertAmount(args: CoinReference & {
+    amount: number;
+    convert?: string[] | string;
+    time?: string;
+  }): Promise<any> {
+    const { amount } = args;
+    const label = args.symbol || args.slug || String(args.id ?? '');
+
+    if (typeof amount !== 'number' || !isFinite(amount) || amount <= 0) {
+      throw new Error('Amount must be a positive number');
+    }
+
+    const requested = typeof args.convert === 'string' ? args.convert.split(',') : (args.convert || ['USD']);
+    const targets = Array.from(new Set(requested.map(currency => currency.trim()).filter(Boolean).map(validateSymbol)));
+    if (targets.length === 0) {
+      throw new Error('At least one target currency is required');
+    }
+    if (targets.length > MAX_CONVERSION_TARGETS) {
+      throw new Error(`Maximum ${MAX_CONVERSION_TARGETS} target currencies allowed`);
+    }
+
+    let time: string | undefined;
+    if (args.time) {
+      const date = new Date(args.time);
+      if (isNaN(date.getTime())) {
+        throw new Error(`Invalid time '${args.time}'. Use ISO 8601 or YYYY-MM-DD`);
+      }
+      if (date.getTime() > Date.now()) {
+        throw new Error('Time cannot be in the future');
+      }
+      // Historical rates follow the plan's historical depth; throws PlanLimitError otherwise
+      this.tierManager.resolveHistoricalRange(date, date);
+      time = date.toISOString();
+    }
+
+    try {
+      // Fiat sources (e.g. 100 USD to BTC) are not in the coin map; the API takes their fiat id
+      const fiat = args.symbol && args.id === undefined && !args.slug ? await this.findFiat(args.symbol) : undefined;
+      const coin = fiat || await this.registry.lookup(args);
+      if (isDisambiguation(coin)) {
+        return coin;
+      }
+
+      const cacheKey = this.cache.generateCacheKey('price_conversion', {
+        id: coin.id, symbol: coin.symbol, fiat: !!fiat, amount, convert: targets.join(','), time,
+      });
+      let result = await this.cache.get(cacheKey);
+      if (result) {
+        return result;
+      }
+
+      // Plans cap the currencies per request, so larger target lists take several calls
+      const perRequest = this.tierManager.getMaxConvertsPerRequest();
+      const conversions = [];
+      const unavailable: string[] = [];
+      let source: PriceConversionEntry | undefined;
+
+      for (let i = 0; i < targets.length; i += perRequest) {
+        const chunk = targets.slice(i, i + perRequest);
+        const response = await this.client.getPriceConversion({
+          amount,
+          ...(coin.id !== undefined ? { id: String(coin.id) } : { symbol: coin.symbol }),
+          time,
+          convert: chunk.join(','),
+        });
+        const data = response.data as PriceConversionData;
+        const conversion = Array.isArray(data) ? data[0] : data;
+        if (!conversion) {
+          throw new Error(`Cryptocurrency ${label} not found`);
+        }
+        source = source || conversion;
+
+        for (const currency of chunk) {
+          const quote = conversion.quote?.[currency];
+          if (quote && typeof quote.price === 'number') {
+            conversions.push({
+              currency,
+              amount: quote.price,
+              rate: quote.price / amount,
+              last_updated: quote.last_updated,
+            });
+          } else {
+            unavailable.push(currency);
+          }
+        }
+      }
+
+      // The target list is never empty, so the loop has either set a source or thrown
+      if (!source) {
+        throw new Error(`Cryptocurrency ${label} not found`);
+      }
+
+      result = {
+        id: source.id,
+        name: source.name,
+        symbol: source.symbol,
+        source_type: fiat ? 'fiat' : 'cryptocurrency',
+        amount,
+        time: time || null,
+        conversions,
+        unavailable_currencies: unavailable,
+        last_updated: source.last_updated,
+        symbol_collision: 'collision' in coin ? coin.collision : undefined,
+      };
+
+      // Past rates do not change, latest ones go stale quickly
+      await this.cache.set(cacheKey, result, time ? 86400 : 60);
+      return result;
+    } catch (error) {
+      throw new Error(`Failed to convert ${amount} ${label}: ${error}`);
+    }
+  }
+
+  // Without the fiat map the symbol is looked up as a cryptocurrency as before
+  private async findFiat(symbol: string): Promise<FiatCurrency | undefined> {
+    const cacheKey = this.cache.generateCacheKey('fiat_map');
+    let fiats = await this.cache.get<FiatCurrency[]>(cacheKey);
+    if (!fiats) {
+      try {
+        const response = await this.client.getFiatMap({ limit: 5000 });
+        fiats = ((response.data || []) as FiatCurrency[]).map(fiat => ({ id: fiat.id, name: fiat.name, symbol: fiat.symbol }));
+      } catch (error) {
+        console.error(`[${new Date().toISOString()}] WARN: Failed to load the fiat map:`, error);
+        return undefined;
+      }
+      await this.cache.set(cacheKey, fiats, 86400); // Cache for 24 hours
+    }
+    const upperSymbol = symbol.toUpperCase();
+    return fiats.find(fiat => fiat.symbol === upperSymbol);
+  }
+}
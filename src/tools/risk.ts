@@ -0,0 +1,624 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { CoinMarketCapClient } from '../api/client.js';
+import { CacheManager } from '../api/cache.js';
+import { CandleHistory } from '../api/candle-history.js';
+import {
+  CoinRegistry,
+  COIN_REFERENCE_LIST_PROPERTIES,
+  DisambiguationResult,
+  ResolvedCoin,
+  isDisambiguation,
+  referenceLabel,
+  toCoinReferences,
+} from '../api/coin-registry.js';
+import { PlanLimitError } from '../config/api-tiers.js';
+import { formatBeta, formatCorrelation, formatDrawdown, formatSharpeRatio, formatVolatility } from '../utils/formatters.js';
+import {
+  annualizedVolatility,
+  calculateBeta,
+  calculateMaxDrawdown,
+  calculateReturns,
+  historicalVaR,
+  mean,
+  parametricVaR,
+  pearsonCorrelation,
+  rollingCorrelation,
+  sharpeRatio,
+  sortinoRatio,
+  spearmanCorrelation,
+  TRADING_DAYS_PER_YEAR,
+} from '../utils/risk.js';
+import { validateConfidenceLevels, validateCurrency, validatePeriod, validateRiskFreeRate } from '../utils/validators.js';
+
+const RISK_PERIODS = ['30d', '90d', '180d', '1y'];
+
+// Fewer daily returns than this make volatility and VaR meaningless
+const MIN_RETURNS = 10;
+
+const toPercent = (value: number): number => Number((value * 100).toFixed(4));
+
+const round = (value: number | null): number | null => (value === null ? null : Number(value.toFixed(4)));
+
+interface DailyClose {
+  date: string;
+  close: number;
+}
+
+interface AlignedReturns {
+  dates: string[];
+  returns: number[][];
+}
+
+interface VaRPercent {
+  var_percent: number;
+  cvar_percent: number;
+}
+
+type RatioResult = { value: number } & ReturnType<typeof formatSharpeRatio>;
+
+type CoinRiskMetrics = {
+  symbol: string;
+  id?: number;
+  data_available: false;
+  error: string;
+} | {
+  symbol: string;
+  id?: number;
+  data_available: true;
+  observations: number;
+  start_date: string;
+  end_date: string;
+  total_return_percent: number;
+  annualized_return_percent: number;
+  annualized_volatility: { percent: number } & ReturnType<typeof formatVolatility>;
+  sharpe_ratio: RatioResult | null;
+  sortino_ratio: RatioResult | null;
+  max_drawdown: {
+    percent: number;
+    text: string;
+    peak_date: string;
+    peak_price: number;
+    trough_date: string;
+    trough_price: number;
+    recovery_date: string | null;
+  };
+  value_at_risk: Array<{ confidence: number; historical: VaRPercent; parametric: VaRPercent }>;
+};
+
+interface RiskMetricsResult {
+  period: {
+    requested: string;
+    start_date: string;
+    end_date: string;
+    clamped_to_plan_limit?: boolean;
+  };
+  parameters: {
+    risk_free_rate_percent: number;
+    confidence_levels: number[];
+    annualization_days: number;
+    var_horizon: string;
+  };
+  convert_currency: string;
+  cryptocurrencies: CoinRiskMetrics[];
+  disambiguation_required: DisambiguationResult[];
+  metadata: { data_source: string; last_updated: string };
+}
+
+type CorrelationPair = { pair: string[]; pearson: number } & ReturnType<typeof formatCorrelation>;
+
+interface CorrelationMatrixResult {
+  timeframe: string;
+  period: {
+    start_date: string;
+    end_date: string;
+    aligned_observations: number;
+    clamped_to_plan_limit?: boolean;
+  };
+  convert_currency: string;
+  assets: Array<{ label: string; symbol: string; id?: number; data_points: number }>;
+  correlation: {
+    labels: string[];
+    pearson: Array<Array<number | null>>;
+    spearman: Array<Array<number | null>>;
+  };
+  diversification: {
+    average_pairwise_correlation: number | null;
+    average_text: string | null;
+    most_correlated: CorrelationPair | null;
+    least_correlated: CorrelationPair | null;
+  };
+  beta: {
+    benchmark: { symbol: string; id?: number };
+    values: Array<{ symbol: string; id?: number; beta: number | null; text?: string; volatility?: string; observations: number }>;
+  };
+  rolling_correlation_vs_btc: {
+    window_days: number;
+    values: Array<{
+      symbol: string;
+      id?: number;
+      latest: number | null;
+      average: number | null;
+      min: number | null;
+      max: number | null;
+      series?: Array<{ date: string; correlation: number }>;
+    }>;
+  };
+  unavailable: Array<{ symbol: string; id?: number; error: string }>;
+  disambiguation_required: DisambiguationResult[];
+  metadata: { data_source: string; last_updated: string };
+}
+
+interface RiskMetricsArgs {
+  symbols?: string[];
+  ids?: number[];
+  slugs?: string[];
+  period?: string;
+  risk_free_rate?: number;
+  confidence_levels?: number[];
+  convert?: string;
+}
+
+interface CorrelationMatrixArgs {
+  symbols?: string[];
+  ids?: number[];
+  slugs?: string[];
+  timeframe?: string;
+  benchmark?: string;
+  benchmark_id?: number;
+  rolling_window?: number;
+  include_series?: boolean;
+  convert?: string;
+}
+
+// Daily returns of several close series over the dates they all have
+const alignReturns = (series: DailyClose[][]): AlignedReturns => {
+  const byDate = series.map(closes => new Map(closes.map(candle => [candle.date, candle.close])));
+  const dates = series[0]
+    .map(candle => candle.date)
+    .filter(date => byDate.every(closes => closes.has(date)))
+    .sort();
+  return {
+    dates: dates.slice(1),
+    returns: byDate.map(closes => calculateReturns(dates.map(date => closes.get(date) as number))),
+  };
+};
+
+export class RiskAnalysisTools {
+  constructor(
+    private client: CoinMarketCapClient,
+    private cache: CacheManager,
+    private candleHistory: CandleHistory,
+    private registry: CoinRegistry,
+  ) {}
+
+  getTools(): Tool[] {
+    return [
+      {
+        name: 'calculate_risk_metrics',
+        description: 'Calculate risk metrics from daily OHLCV data: annualized volatility, Sharpe and Sortino ratios, max drawdown, and historical and parametric VaR/CVaR',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ...COIN_REFERENCE_LIST_PROPERTIES,
+            period: {
+              type: 'string',
+              enum: RISK_PERIODS,
+              description: 'Lookback period of daily closes',
+              default: '90d',
+            },
+            risk_free_rate: {
+              type: 'number',
+              description: 'Annual risk-free rate in percent (e.g., 4 for 4%) used by Sharpe and Sortino',
+              default: 0,
+            },
+            confidence_levels: {
+              type: 'array',
+              items: { type: 'number' },
+              description: 'VaR/CVaR confidence levels between 0 and 1',
+              default: [0.95, 0.99],
+            },
+            convert: {
+              type: 'string',
+              description: 'Quote currency the returns are measured in (USD, EUR, BTC, etc.)',
+              default: 'USD',
+            },
+          },
+        },
+      },
+      {
+        name: 'correlation_matrix',
+        description: 'Correlate the daily returns of a basket of cryptocurrencies: Pearson and Spearman matrices, rolling correlation against BTC, and beta against a benchmark',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ...COIN_REFERENCE_LIST_PROPERTIES,
+            timeframe: {
+              type: 'string',
+              enum: RISK_PERIODS,
+              description: 'Lookback period of daily closes',
+              default: '90d',
+            },
+            benchmark: {
+              type: 'string',
+              description: 'Symbol of the benchmark used for beta',
+              default: 'BTC',
+            },
+            benchmark_id: {
+              type: 'number',
+              description: 'CoinMarketCap id of the benchmark (takes precedence over benchmark)',
+            },
+            rolling_window: {
+              type: 'number',
+              description: 'Window in days of the rolling correlation against BTC',
+              default: 30,
+            },
+            include_series: {
+              type: 'boolean',
+              description: 'Include the daily rolling correlation series, not only its summary',
+              default: false,
+            },
+            convert: {
+              type: 'string',
+              description: 'Quote currency the returns are measured in (USD, EUR, BTC, etc.)',
+              default: 'USD',
+            },
+          },
+        },
+      },
+    ];
+  }
+
+  async handleToolCall(name: string, args: Record<string, unknown>): Promise<unknown> {
+    switch (name) {
+    case 'calculate_risk_metrics':
+      return this.calculateRiskMetrics(args as RiskMetricsArgs);
+    case 'correlation_matrix':
+      return this.correlationMatrix(args as CorrelationMatrixArgs);
+    default:
+      throw new Error(`Unknown tool: ${name}`);
+    }
+  }
+
+  private async calculateRiskMetrics(args: RiskMetricsArgs): Promise<RiskMetricsResult> {
+    const { period = '90d' } = args;
+    const riskFreeRate = validateRiskFreeRate(args.risk_free_rate ?? 0);
+    const confidenceLevels = validateConfidenceLevels([...(args.confidence_levels || [0.95, 0.99])]);
+    const currency = validateCurrency(args.convert || 'USD');
+
+    if (!RISK_PERIODS.includes(period)) {
+      throw new Error(`Invalid period. Must be one of: ${RISK_PERIODS.join(', ')}`);
+    }
+
+    const references = toCoinReferences(args);
+    if (references.length === 0) {
+      throw new Error('At least one of symbols, ids or slugs is required');
+    }
+    if (references.length > 10) {
+      throw new Error('Maximum 10 cryptocurrencies allowed');
+    }
+
+    const cacheKey = this.cache.generateCacheKey('risk_metrics', {
+      coins: references.map(referenceLabel).join(','), period, riskFreeRate, confidenceLevels, convert: currency,
+    });
+
+    const result = await this.cache.get<RiskMetricsResult>(cacheKey);
+    if (result) {
+      return result;
+    }
+
+    // Fit the period to the plan's historical depth; throws if the plan has no history at all
+    const endDate = new Date();
+    const range = this.candleHistory.resolveRange(new Date(endDate.getTime() - this.periodToDays(period) * 24 * 60 * 60 * 1000), endDate);
+
+    const metrics: CoinRiskMetrics[] = [];
+    const ambiguous: DisambiguationResult[] = [];
+
+    for (const reference of references) {
+      const label = referenceLabel(reference);
+      try {
+        const coin = await this.registry.lookup(reference);
+        if (isDisambiguation(coin)) {
+          ambiguous.push(coin);
+          continue;
+        }
+        metrics.push(await this.coinRiskMetrics(coin, range.start, endDate, riskFreeRate / 100, confidenceLevels, currency));
+      } catch (error) {
+        if (error instanceof PlanLimitError) {
+          throw error;
+        }
+        metrics.push({
+          symbol: label,
+          data_available: false,
+          error: `Failed to calculate risk metrics: ${error}`,
+        });
+      }
+    }
+
+    const riskMetrics: RiskMetricsResult = {
+      period: {
+        requested: period,
+        start_date: range.start.toISOString().split('T')[0],
+        end_date: endDate.toISOString().split('T')[0],
+        clamped_to_plan_limit: range.clamped || undefined,
+      },
+      parameters: {
+        risk_free_rate_percent: riskFreeRate,
+        confidence_levels: confidenceLevels,
+        annualization_days: TRADING_DAYS_PER_YEAR,
+        var_horizon: '1 day',
+      },
+      convert_currency: currency,
+      cryptocurrencies: metrics,
+      // Ambiguous symbols are not analysed; each lists the coins it could mean
+      disambiguation_required: ambiguous,
+      metadata: {
+        data_source: 'CoinMarketCap',
+        last_updated: new Date().toISOString(),
+      },
+    };
+
+    await this.cache.set(cacheKey, riskMetrics, 600); // Cache for 10 minutes
+    return riskMetrics;
+  }
+
+  private async correlationMatrix(args: CorrelationMatrixArgs): Promise<CorrelationMatrixResult | DisambiguationResult> {
+    const { timeframe = '90d', benchmark = 'BTC', benchmark_id, include_series = false } = args;
+    const rollingWindow = validatePeriod(args.rolling_window ?? 30);
+    const currency = validateCurrency(args.convert || 'USD');
+
+    if (!RISK_PERIODS.includes(timeframe)) {
+      throw new Error(`Invalid timeframe. Must be one of: ${RISK_PERIODS.join(', ')}`);
+    }
+
+    const references = toCoinReferences(args);
+    if (references.length < 2) {
+      throw new Error('At least two cryptocurrencies are required (symbols, ids or slugs)');
+    }
+    if (references.length > 20) {
+      throw new Error('Maximum 20 cryptocurrencies allowed');
+    }
+
+    const cacheKey = this.cache.generateCacheKey('correlation_matrix', {
+      coins: references.map(referenceLabel).join(','), timeframe, benchmark, benchmark_id, rollingWindow, include_series, convert: currency,
+    });
+
+    const result = await this.cache.get<CorrelationMatrixResult>(cacheKey);
+    if (result) {
+      return result;
+    }
+
+    const benchmarkCoin = await this.registry.lookup(benchmark_id !== undefined ? { id: benchmark_id } : { symbol: benchmark });
+    if (isDisambiguation(benchmarkCoin)) {
+      return benchmarkCoin;
+    }
+    const btc = await this.registry.lookup({ symbol: 'BTC' }, 'best_match') as ResolvedCoin;
+
+    // Fit the timeframe to the plan's historical depth; throws if the plan has no history at all
+    const endDate = new Date();
+    const range = this.candleHistory.resolveRange(new Date(endDate.getTime() - this.periodToDays(timeframe) * 24 * 60 * 60 * 1000), endDate);
+
+    // Each coin is fetched once even when it is also the benchmark or BTC
+    const closesByKey = new Map<string, DailyClose[]>();
+    const getCloses = async (coin: ResolvedCoin): Promise<DailyClose[]> => {
+      const key = String(coin.id ?? coin.symbol);
+      if (!closesByKey.has(key)) {
+        closesByKey.set(key, await this.getDailyCloses(coin, range.start, endDate, currency));
+      }
+      return closesByKey.get(key) as DailyClose[];
+    };
+
+    const assets: Array<{ label: string; coin: ResolvedCoin; closes: DailyClose[] }> = [];
+    const unavailable: CorrelationMatrixResult['unavailable'] = [];
+    const ambiguous: DisambiguationResult[] = [];
+
+    for (const reference of references) {
+      const label = referenceLabel(reference);
+      try {
+        const coin = await this.registry.lookup(reference);
+        if (isDisambiguation(coin)) {
+          ambiguous.push(coin);
+          continue;
+        }
+        if (assets.some(asset => asset.coin.id !== undefined && asset.coin.id === coin.id)) {
+          continue;
+        }
+        const closes = await getCloses(coin);
+        if (closes.length <= MIN_RETURNS) {
+          unavailable.push({ symbol: coin.symbol, id: coin.id, error: 'Not enough price history' });
+          continue;
+        }
+        // Tickers shared inside the basket are told apart by id
+        const duplicate = assets.some(asset => asset.coin.symbol === coin.symbol);
+        assets.push({ label: duplicate ? `${coin.symbol}#${coin.id}` : coin.symbol, coin, closes });
+      } catch (error) {
+        if (error instanceof PlanLimitError) {
+          throw error;
+        }
+        unavailable.push({ symbol: label, error: `Failed to fetch data: ${error}` });
+      }
+    }
+
+    if (assets.length < 2) {
+      throw new Error('At least two cryptocurrencies with enough price history are needed for a correlation matrix');
+    }
+
+    const aligned = alignReturns(assets.map(asset => asset.closes));
+    if (aligned.dates.length < MIN_RETURNS) {
+      throw new Error(`The cryptocurrencies only share ${aligned.dates.length} daily returns, at least ${MIN_RETURNS} needed`);
+    }
+
+    const labels = assets.map(asset => asset.label);
+    const pearson = aligned.returns.map(x => aligned.returns.map(y => round(pearsonCorrelation(x, y))));
+    const spearman = aligned.returns.map(x => aligned.returns.map(y => round(spearmanCorrelation(x, y))));
+
+    const pairs = [];
+    for (let i = 0; i < assets.length; i++) {
+      for (let j = i + 1; j < assets.length; j++) {
+        if (pearson[i][j] !== null) {
+          pairs.push({ pair: [labels[i], labels[j]], pearson: pearson[i][j] as number });
+        }
+      }
+    }
+    pairs.sort((a, b) => b.pearson - a.pearson);
+    const averageCorrelation = pairs.length > 0 ? mean(pairs.map(pair => pair.pearson)) : null;
+
+    // Beta and rolling correlation align each asset with the reference coin alone,
+    // so a short history elsewhere in the basket does not shorten them
+    const benchmarkCloses = await getCloses(benchmarkCoin);
+    const btcCloses = await getCloses(btc);
+
+    const betas = assets.map(asset => {
+      const pair = alignReturns([asset.closes, benchmarkCloses]);
+      const beta = calculateBeta(pair.returns[0], pair.returns[1]);
+      return {
+        symbol: asset.label,
+        id: asset.coin.id,
+        beta: round(beta),
+        ...(beta === null ? {} : formatBeta(beta)),
+        observations: pair.dates.length,
+      };
+    });
+
+    const rolling = assets
+      .filter(asset => btc.id === undefined ? asset.coin.symbol !== 'BTC' : asset.coin.id !== btc.id)
+      .map(asset => {
+        const pair = alignReturns([asset.closes, btcCloses]);
+        const series = rollingCorrelation(pair.returns[0], pair.returns[1], rollingWindow);
+        const points = series
+          .map((value, i) => ({ date: pair.dates[i], correlation: round(value) }))
+          .filter((point): point is { date: string; correlation: number } => point.correlation !== null);
+        const values = points.map(point => point.correlation);
+        return {
+          symbol: asset.label,
+          id: asset.coin.id,
+          latest: values.length > 0 ? values[values.length - 1] : null,
+          average: values.length > 0 ? round(mean(values)) : null,
+          min: values.length > 0 ? Math.min(...values) : null,
+          max: values.length > 0 ? Math.max(...values) : null,
+          series: include_series ? points : undefined,
+        };
+      });
+
+    const correlation: CorrelationMatrixResult = {
+      timeframe,
+      period: {
+        start_date: aligned.dates[0],
+        end_date: aligned.dates[aligned.dates.length - 1],
+        aligned_observations: aligned.dates.length,
+        clamped_to_plan_limit: range.clamped || undefined,
+      },
+      convert_currency: currency,
+      assets: assets.map(asset => ({ label: asset.label, symbol: asset.coin.symbol, id: asset.coin.id, data_points: asset.closes.length })),
+      correlation: {
+        labels,
+        pearson,
+        spearman,
+      },
+      diversification: {
+        average_pairwise_correlation: round(averageCorrelation),
+        average_text: averageCorrelation === null ? null : formatCorrelation(averageCorrelation).text,
+        most_correlated: pairs[0] ? { ...pairs[0], ...formatCorrelation(pairs[0].pearson) } : null,
+        least_correlated: pairs.length > 1 ? { ...pairs[pairs.length - 1], ...formatCorrelation(pairs[pairs.length - 1].pearson) } : null,
+      },
+      beta: {
+        benchmark: { symbol: benchmarkCoin.symbol, id: benchmarkCoin.id },
+        values: betas,
+      },
+      rolling_correlation_vs_btc: {
+        window_days: rollingWindow,
+        values: rolling,
+      },
+      unavailable,
+      // Ambiguous symbols are left out of the matrix; each lists the coins it could mean
+      disambiguation_required: ambiguous,
+      metadata: {
+        data_source: 'CoinMarketCap',
+        last_updated: new Date().toISOString(),
+      },
+    };
+
+    await this.cache.set(cacheKey, correlation, 600); // Cache for 10 minutes
+    return correlation;
+  }
+
+  private async coinRiskMetrics(
+    coin: ResolvedCoin,
+    startDate: Date,
+    endDate: Date,
+    riskFreeRate: number,
+    confidenceLevels: number[],
+    currency: string,
+  ): Promise<CoinRiskMetrics> {
+    const candles = await this.getDailyCloses(coin, startDate, endDate, currency);
+    const closes = candles.map(candle => candle.close);
+    const returns = calculateReturns(closes);
+    if (returns.length < MIN_RETURNS) {
+      return {
+        symbol: coin.symbol,
+        id: coin.id,
+        data_available: false,
+        error: `Not enough price history: ${returns.length} daily returns, at least ${MIN_RETURNS} needed`,
+      };
+    }
+
+    const volatility = annualizedVolatility(returns);
+    const sharpe = sharpeRatio(returns, riskFreeRate);
+    const sortino = sortinoRatio(returns, riskFreeRate);
+    const drawdown = calculateMaxDrawdown(closes);
+
+    return {
+      symbol: coin.symbol,
+      id: coin.id,
+      data_available: true,
+      observations: returns.length,
+      start_date: candles[0].date,
+      end_date: candles[candles.length - 1].date,
+      total_return_percent: toPercent(closes[closes.length - 1] / closes[0] - 1),
+      annualized_return_percent: toPercent(mean(returns) * TRADING_DAYS_PER_YEAR),
+      annualized_volatility: {
+        percent: toPercent(volatility),
+        ...formatVolatility(volatility),
+      },
+      sharpe_ratio: sharpe === null ? null : { value: Number(sharpe.toFixed(4)), ...formatSharpeRatio(sharpe) },
+      sortino_ratio: sortino === null ? null : { value: Number(sortino.toFixed(4)), ...formatSharpeRatio(sortino) },
+      max_drawdown: {
+        percent: toPercent(drawdown.max_drawdown),
+        text: formatDrawdown(drawdown.max_drawdown * 100),
+        peak_date: candles[drawdown.peak_index].date,
+        peak_price: closes[drawdown.peak_index],
+        trough_date: candles[drawdown.trough_index].date,
+        trough_price: closes[drawdown.trough_index],
+        recovery_date: drawdown.recovery_index === null ? null : candles[drawdown.recovery_index].date,
+      },
+      value_at_risk: confidenceLevels.map(confidence => {
+        const historical = historicalVaR(returns, confidence);
+        const parametric = parametricVaR(returns, confidence);
+        return {
+          confidence,
+          historical: { var_percent: toPercent(historical.var), cvar_percent: toPercent(historical.cvar) },
+          parametric: { var_percent: toPercent(parametric.var), cvar_percent: toPercent(parametric.cvar) },
+        };
+      }),
+    };
+  }
+
+  private async getDailyCloses(coin: ResolvedCoin, startDate: Date, endDate: Date, currency: string): Promise<DailyClose[]> {
+    // Closed candles come from the local candle store; only gaps hit the API
+    return (await this.candleHistory.getDailyCandles(coin, startDate, endDate, currency))
+      .map(candle => ({
+        date: String(candle.time_close || candle.timestamp || candle.time_open || '').split('T')[0],
+        close: candle.quote?.[currency]?.close,
+      }))
+      .filter((candle): candle is DailyClose => typeof candle.close === 'number' && candle.close > 0);
+  }
+
+  private periodToDays(period: string): number {
+    const periodMap: Record<string, number> = {
+      '30d': 30,
+      '90d': 90,
+      '180d': 180,
+      '1y': 365,
+    };
+    return periodMap[period] || 90;
+  }
+}
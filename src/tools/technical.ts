@@ -1,11 +1,101 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { CoinMarketCapClient } from '../api/client.js';
 import { CacheManager } from '../api/cache.js';
+import { CandleHistory } from '../api/candle-history.js';
+import {
+  CoinReference,
+  CoinRegistry,
+  COIN_REFERENCE_PROPERTIES,
+  DisambiguationResult,
+  ResolvedCoin,
+  isDisambiguation,
+} from '../api/coin-registry.js';
+import { PlanLimitError } from '../config/api-tiers.js';
+import { OhlcvCandle, TechnicalIndicators } from '../types/index.js';
+import { formatConfidence, formatSignal } from '../utils/formatters.js';
+import {
+  BacktestResult,
+  STRATEGY_PRESETS,
+  StrategyCandle,
+  StrategyDefinition,
+  StrategySignal,
+  parseRule,
+  requiredLookback,
+  runBacktest,
+} from '../utils/strategy.js';
+import { validateCurrency, validateIndicators, validatePeriod, validateStrategy } from '../utils/validators.js';
+import {
+  IndicatorSeries,
+  calculateBollingerBands,
+  calculateEMA,
+  calculateMACD,
+  calculateRSI,
+  calculateSMA,
+  lastValue,
+} from '../utils/indicators.js';
+
+const ALL_INDICATORS = ['rsi', 'macd', 'sma', 'ema', 'bollinger', 'volume_sma'];
+
+interface TechnicalIndicatorsResult {
+  symbol: string;
+  id?: number;
+  timeframe: string;
+  convert_currency: string;
+  // Latest value of every indicator that has enough history
+  indicators: TechnicalIndicators;
+  latest_close: number;
+  parameters: Record<string, unknown>;
+  metadata: {
+    data_points: number;
+    skipped_candles?: number;
+    warmup_days: number;
+    start_date: string;
+    end_date: string;
+    insufficient_data: string[];
+    data_source: string;
+    last_updated: string;
+  };
+  series?: TechnicalIndicators[];
+}
+
+interface TradingSignalsResult {
+  symbol: string;
+  id?: number;
+  convert_currency: string;
+  strategy: StrategyDefinition;
+  period: {
+    start_date: string;
+    end_date: string;
+    trading_days: number;
+    warmup_days_required: number;
+    warmup_days_available: number;
+  };
+  current_signal: ReturnType<typeof formatSignal> & {
+    signal: StrategySignal['signal'] | 'hold';
+    date: string;
+    price: number;
+    in_position: boolean;
+    confidence?: number;
+  };
+  signals: Array<StrategySignal & { confidence_text: string }>;
+  backtest: {
+    metrics: BacktestResult['metrics'];
+    trades: BacktestResult['trades'];
+    equity_curve?: BacktestResult['equity_curve'];
+  };
+  metadata: {
+    execution: string;
+    data_source: string;
+    last_updated: string;
+  };
+}
 
 export class TechnicalAnalysisTools {
   constructor(
     private client: CoinMarketCapClient,
     private cache: CacheManager,
+    private candleHistory: CandleHistory,
+    private registry: CoinRegistry,
   ) {}
 
   getTools(): Tool[] {
@@ -16,9 +106,11 @@ export class TechnicalAnalysisTools {
         inputSchema: {
           type: 'object',
           properties: {
-            symbol: {
+            ...COIN_REFERENCE_PROPERTIES,
+            convert: {
               type: 'string',
-              description: 'Cryptocurrency symbol (e.g., BTC, ETH)',
+              description: 'Quote currency for prices and volumes (USD, EUR, BTC, etc.)',
+              default: 'USD',
             },
             timeframe: {
               type: 'string',
@@ -27,7 +119,6 @@ export class TechnicalAnalysisTools {
               default: '30d',
             },
           },
-          required: ['symbol'],
         },
       },
       {
@@ -36,9 +127,11 @@ export class TechnicalAnalysisTools {
         inputSchema: {
           type: 'object',
           properties: {
-            symbol: {
+            ...COIN_REFERENCE_PROPERTIES,
+            convert: {
               type: 'string',
-              description: 'Cryptocurrency symbol',
+              description: 'Quote currency for prices and volumes (USD, EUR, BTC, etc.)',
+              default: 'USD',
             },
             timeframe: {
               type: 'string',
@@ -47,7 +140,151 @@ export class TechnicalAnalysisTools {
               default: '30d',
             },
           },
-          required: ['symbol'],
+        },
+      },
+      {
+        name: 'calculate_technical_indicators',
+        description: 'Calculate technical indicators (RSI, MACD, SMA, EMA, Bollinger Bands, volume SMA) from daily OHLCV data',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ...COIN_REFERENCE_PROPERTIES,
+            convert: {
+              type: 'string',
+              description: 'Quote currency for prices and volumes (USD, EUR, BTC, etc.)',
+              default: 'USD',
+            },
+            indicators: {
+              type: 'array',
+              items: {
+                type: 'string',
+                enum: ALL_INDICATORS,
+              },
+              description: 'Indicators to calculate',
+              default: ALL_INDICATORS,
+            },
+            timeframe: {
+              type: 'string',
+              enum: ['30d', '90d', '180d', '1y'],
+              description: 'Period covered by the returned indicator series. Warm-up history is fetched automatically; the plan must reach back far enough for both',
+              default: '90d',
+            },
+            rsi_period: {
+              type: 'number',
+              description: 'RSI lookback period',
+              default: 14,
+            },
+            sma_periods: {
+              type: 'array',
+              items: { type: 'number' },
+              description: 'Simple moving average periods',
+              default: [20, 50, 200],
+            },
+            ema_periods: {
+              type: 'array',
+              items: { type: 'number' },
+              description: 'Exponential moving average periods',
+              default: [12, 26],
+            },
+            macd_fast: {
+              type: 'number',
+              description: 'MACD fast EMA period',
+              default: 12,
+            },
+            macd_slow: {
+              type: 'number',
+              description: 'MACD slow EMA period',
+              default: 26,
+            },
+            macd_signal: {
+              type: 'number',
+              description: 'MACD signal line period',
+              default: 9,
+            },
+            bollinger_period: {
+              type: 'number',
+              description: 'Bollinger Bands moving average period',
+              default: 20,
+            },
+            bollinger_std_dev: {
+              type: 'number',
+              description: 'Bollinger Bands standard deviation multiplier',
+              default: 2,
+            },
+            volume_sma_period: {
+              type: 'number',
+              description: 'Volume moving average period',
+              default: 20,
+            },
+            include_series: {
+              type: 'boolean',
+              description: 'Include the full daily indicator series, not only the latest values',
+              default: false,
+            },
+          },
+        },
+      },
+      {
+        name: 'generate_trading_signals',
+        description: 'Evaluate a rule-based strategy (a preset or rules like "sma20 crosses above sma50 and rsi < 70") over daily candles: buy/sell signals with confidence and a backtest with trades, equity curve, win rate, CAGR and drawdown',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ...COIN_REFERENCE_PROPERTIES,
+            convert: {
+              type: 'string',
+              description: 'Quote currency for prices and volumes (USD, EUR, BTC, etc.)',
+              default: 'USD',
+            },
+            strategy: {
+              type: 'string',
+              enum: Object.keys(STRATEGY_PRESETS),
+              description: 'Preset strategy, used unless entry_rule and exit_rule are given',
+              default: 'moderate',
+            },
+            entry_rule: {
+              type: 'string',
+              description: 'Custom buy rule: conditions joined by and/or, comparing numbers or close, volume, smaN, emaN, rsiN, macd, macd_signal, macd_hist, bb_upper, bb_middle, bb_lower, volume_smaN with >, <, >=, <=, "crosses above" or "crosses below"',
+            },
+            exit_rule: {
+              type: 'string',
+              description: 'Custom sell rule, same syntax as entry_rule',
+            },
+            confirmations: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Bullish conditions that raise signal confidence (custom strategies only)',
+            },
+            stop_loss_percent: {
+              type: 'number',
+              description: 'Sell when the price falls this many percent below the entry (overrides the preset)',
+            },
+            take_profit_percent: {
+              type: 'number',
+              description: 'Sell when the price rises this many percent above the entry (overrides the preset)',
+            },
+            timeframe: {
+              type: 'string',
+              enum: ['90d', '180d', '1y'],
+              description: 'Backtest period. Indicator warm-up history is fetched automatically; the plan must reach back far enough for both',
+              default: '180d',
+            },
+            initial_capital: {
+              type: 'number',
+              description: 'Starting capital of the backtest',
+              default: 10000,
+            },
+            fee_percent: {
+              type: 'number',
+              description: 'Trading fee per buy and per sell, in percent',
+              default: 0.1,
+            },
+            include_equity_curve: {
+              type: 'boolean',
+              description: 'Include the daily equity curve of the backtest',
+              default: true,
+            },
+          },
         },
       },
     ];
@@ -59,20 +296,31 @@ export class TechnicalAnalysisTools {
       return this.getTechnicalData(args);
     case 'get_price_data':
       return this.getPriceData(args);
+    case 'calculate_technical_indicators':
+      return this.calculateTechnicalIndicators(args);
+    case 'generate_trading_signals':
+      return this.generateTradingSignals(args);
     default:
       throw new Error(`Unknown tool: ${name}`);
     }
   }
 
-  private async getTechnicalData(args: {
-    symbol: string;
+  private async getTechnicalData(args: CoinReference & {
     timeframe?: string;
+    convert?: string;
   }): Promise<any> {
-    const { symbol, timeframe = '30d' } = args;
+    const { timeframe = '30d' } = args;
+    const currency = validateCurrency(args.convert || 'USD');
 
-    const cacheKey = this.cache.generateCacheKey('raw_technical_data', { symbol, timeframe });
+    const coin = await this.registry.lookup(args);
+    if (isDisambiguation(coin)) {
+      return coin;
+    }
+    const { symbol } = coin;
+
+    const cacheKey = this.cache.generateCacheKey('raw_technical_data', { id: coin.id, symbol, timeframe, convert: currency });
     
-    const result = this.cache.get(cacheKey);
+    const result = await this.cache.get(cacheKey);
     if (result) {
       return result;
     }
@@ -82,7 +330,7 @@ export class TechnicalAnalysisTools {
       const endDate = new Date();
       const startDate = new Date(endDate.getTime() - days * 24 * 60 * 60 * 1000);
       
-      const historicalData = await this.getHistoricalDataForPeriod(symbol, startDate, endDate);
+      const historicalData = await this.getHistoricalDataForPeriod(coin, startDate, endDate, currency);
       
       if (!historicalData || historicalData.length === 0) {
         throw new Error(`No historical data available for ${symbol}`);
@@ -91,15 +339,17 @@ export class TechnicalAnalysisTools {
       // Return raw data arrays only - no calculations
       const rawData = {
         symbol: symbol.toUpperCase(),
+        id: coin.id,
         timeframe,
+        convert_currency: currency,
         data_points: historicalData.length,
         raw_data: {
           timestamps: historicalData.map(d => d.time_close || d.timestamp),
-          prices: historicalData.map(d => d.quote?.USD?.price || d.price),
-          volumes: historicalData.map(d => d.quote?.USD?.volume_24h || d.volume),
-          market_caps: historicalData.map(d => d.quote?.USD?.market_cap || d.market_cap),
-          highs: historicalData.map(d => d.quote?.USD?.high || d.high),
-          lows: historicalData.map(d => d.quote?.USD?.low || d.low),
+          prices: historicalData.map(d => d.quote?.[currency]?.close || d.close),
+          volumes: historicalData.map(d => d.quote?.[currency]?.volume || d.volume),
+          market_caps: historicalData.map(d => d.quote?.[currency]?.market_cap || d.market_cap),
+          highs: historicalData.map(d => d.quote?.[currency]?.high || d.high),
+          lows: historicalData.map(d => d.quote?.[currency]?.low || d.low),
         },
         metadata: {
           start_date: startDate.toISOString(),
@@ -109,22 +359,29 @@ export class TechnicalAnalysisTools {
         },
       };
 
-      this.cache.set(cacheKey, rawData, 300); // Cache for 5 minutes
+      await this.cache.set(cacheKey, rawData, 300); // Cache for 5 minutes
       return rawData;
     } catch (error) {
       throw new Error(`Failed to fetch technical data for ${symbol}: ${error}`);
     }
   }
 
-  private async getPriceData(args: {
-    symbol: string;
+  private async getPriceData(args: CoinReference & {
     timeframe?: string;
+    convert?: string;
   }): Promise<any> {
-    const { symbol, timeframe = '30d' } = args;
+    const { timeframe = '30d' } = args;
+    const currency = validateCurrency(args.convert || 'USD');
 
-    const cacheKey = this.cache.generateCacheKey('raw_price_data', { symbol, timeframe });
+    const coin = await this.registry.lookup(args);
+    if (isDisambiguation(coin)) {
+      return coin;
+    }
+    const { symbol } = coin;
+
+    const cacheKey = this.cache.generateCacheKey('raw_price_data', { id: coin.id, symbol, timeframe, convert: currency });
     
-    const result = this.cache.get(cacheKey);
+    const result = await this.cache.get(cacheKey);
     if (result) {
       return result;
     }
@@ -134,7 +391,7 @@ export class TechnicalAnalysisTools {
       const endDate = new Date();
       const startDate = new Date(endDate.getTime() - days * 24 * 60 * 60 * 1000);
       
-      const historicalData = await this.getHistoricalDataForPeriod(symbol, startDate, endDate);
+      const historicalData = await this.getHistoricalDataForPeriod(coin, startDate, endDate, currency);
       
       if (!historicalData || historicalData.length === 0) {
         throw new Error(`No price data available for ${symbol}`);
@@ -143,7 +400,9 @@ export class TechnicalAnalysisTools {
       // Return only raw price and volume data
       const priceData = {
         symbol: symbol.toUpperCase(),
+        id: coin.id,
         timeframe,
+        convert_currency: currency,
         period: {
           start_date: startDate.toISOString().split('T')[0],
           end_date: endDate.toISOString().split('T')[0],
@@ -151,57 +410,388 @@ export class TechnicalAnalysisTools {
         },
         price_history: historicalData.map(d => ({
           date: d.time_close || d.timestamp,
-          price: d.quote?.USD?.price || d.price,
-          volume_24h: d.quote?.USD?.volume_24h || d.volume,
-          market_cap: d.quote?.USD?.market_cap || d.market_cap,
-          price_change_24h: d.quote?.USD?.percent_change_24h,
+          price: d.quote?.[currency]?.close || d.close,
+          volume_24h: d.quote?.[currency]?.volume || d.volume,
+          market_cap: d.quote?.[currency]?.market_cap || d.market_cap,
         })),
         summary: {
           total_data_points: historicalData.length,
-          first_price: historicalData[0]?.quote?.USD?.price || historicalData[0]?.price,
-          last_price: historicalData[historicalData.length - 1]?.quote?.USD?.price || historicalData[historicalData.length - 1]?.price,
+          first_price: historicalData[0]?.quote?.[currency]?.close || historicalData[0]?.close,
+          last_price: historicalData[historicalData.length - 1]?.quote?.[currency]?.close || historicalData[historicalData.length - 1]?.close,
           data_source: 'CoinMarketCap',
           last_updated: new Date().toISOString(),
         },
       };
 
-      this.cache.set(cacheKey, priceData, 300); // Cache for 5 minutes
+      await this.cache.set(cacheKey, priceData, 300); // Cache for 5 minutes
       return priceData;
     } catch (error) {
       throw new Error(`Failed to fetch price data for ${symbol}: ${error}`);
     }
   }
 
+  private async calculateTechnicalIndicators(args: CoinReference & {
+    convert?: string;
+    indicators?: string[];
+    timeframe?: string;
+    rsi_period?: number;
+    sma_periods?: number[];
+    ema_periods?: number[];
+    macd_fast?: number;
+    macd_slow?: number;
+    macd_signal?: number;
+    bollinger_period?: number;
+    bollinger_std_dev?: number;
+    volume_sma_period?: number;
+    include_series?: boolean;
+  }): Promise<TechnicalIndicatorsResult | DisambiguationResult> {
+    const {
+      indicators = ALL_INDICATORS,
+      timeframe = '90d',
+      rsi_period = 14,
+      sma_periods = [20, 50, 200],
+      ema_periods = [12, 26],
+      macd_fast = 12,
+      macd_slow = 26,
+      macd_signal = 9,
+      bollinger_period = 20,
+      bollinger_std_dev = 2,
+      volume_sma_period = 20,
+      include_series = false,
+    } = args;
+
+    const currency = validateCurrency(args.convert || 'USD');
+    validateIndicators(indicators);
+    [rsi_period, ...sma_periods, ...ema_periods, macd_fast, macd_slow, macd_signal, bollinger_period, volume_sma_period]
+      .forEach(validatePeriod);
+    if (macd_fast >= macd_slow) {
+      throw new Error('macd_fast must be smaller than macd_slow');
+    }
+
+    const parameters = {
+      indicators, timeframe, rsi_period, sma_periods, ema_periods, macd_fast, macd_slow, macd_signal,
+      bollinger_period, bollinger_std_dev, volume_sma_period, include_series,
+    };
+
+    const coin = await this.registry.lookup(args);
+    if (isDisambiguation(coin)) {
+      return coin;
+    }
+    const { symbol } = coin;
+
+    const cacheKey = this.cache.generateCacheKey('technical_indicators', { id: coin.id, symbol, convert: currency, ...parameters });
+
+    const result = await this.cache.get<TechnicalIndicatorsResult>(cacheKey);
+    if (result) {
+      return result;
+    }
+
+    // Fetch enough extra history for the longest lookback to be fully warmed up
+    const warmupDays = Math.max(
+      indicators.includes('rsi') ? rsi_period + 1 : 0,
+      indicators.includes('sma') ? Math.max(...sma_periods, 0) : 0,
+      indicators.includes('ema') ? Math.max(...ema_periods, 0) : 0,
+      indicators.includes('macd') ? macd_slow + macd_signal : 0,
+      indicators.includes('bollinger') ? bollinger_period : 0,
+      indicators.includes('volume_sma') ? volume_sma_period : 0,
+    );
+    const days = this.periodToDays(timeframe);
+    this.candleHistory.requireDepth(days + warmupDays, `A ${timeframe} indicator series with a ${warmupDays}-day warm-up`);
+
+    try {
+      const endDate = new Date();
+      const startDate = new Date(endDate.getTime() - (days + warmupDays) * 24 * 60 * 60 * 1000);
+
+      const historicalData = await this.getHistoricalDataForPeriod(coin, startDate, endDate, currency);
+
+      // Candles without a close would feed zeros into every indicator, so they are dropped
+      const candles = historicalData
+        .map(d => ({
+          timestamp: String(d.time_close || d.timestamp || ''),
+          close: d.quote?.[currency]?.close || 0,
+          volume: d.quote?.[currency]?.volume || d.volume || 0,
+        }))
+        .filter(candle => candle.close > 0);
+
+      if (candles.length === 0) {
+        throw new Error(`No historical data available for ${symbol}`);
+      }
+
+      const timestamps: string[] = candles.map(candle => candle.timestamp);
+      const closes: number[] = candles.map(candle => candle.close);
+      const volumes: number[] = candles.map(candle => candle.volume);
+
+      // Every computed series keyed by its TechnicalIndicators field name
+      const series: Record<string, IndicatorSeries> = {};
+
+      if (indicators.includes('rsi')) {
+        series[`rsi_${rsi_period}`] = calculateRSI(closes, rsi_period);
+      }
+      if (indicators.includes('macd')) {
+        const macd = calculateMACD(closes, macd_fast, macd_slow, macd_signal);
+        series.macd_line = macd.macd;
+        series.signal_line = macd.signal;
+        series.histogram = macd.histogram;
+      }
+      if (indicators.includes('sma')) {
+        for (const period of sma_periods) {
+          series[`sma_${period}`] = calculateSMA(closes, period);
+        }
+      }
+      if (indicators.includes('ema')) {
+        for (const period of ema_periods) {
+          series[`ema_${period}`] = calculateEMA(closes, period);
+        }
+      }
+      if (indicators.includes('bollinger')) {
+        const bands = calculateBollingerBands(closes, bollinger_period, bollinger_std_dev);
+        series.bollinger_upper = bands.upper;
+        series.bollinger_middle = bands.middle;
+        series.bollinger_lower = bands.lower;
+      }
+      if (indicators.includes('volume_sma')) {
+        series.volume_sma = calculateSMA(volumes, volume_sma_period);
+      }
+
+      const latest: TechnicalIndicators = {
+        symbol: symbol.toUpperCase(),
+        timestamp: timestamps[timestamps.length - 1],
+      };
+      const insufficientData: string[] = [];
+      for (const [field, values] of Object.entries(series)) {
+        const value = lastValue(values);
+        if (value === undefined) {
+          insufficientData.push(field);
+        } else {
+          latest[field] = value;
+        }
+      }
+
+      const indicatorData: TechnicalIndicatorsResult = {
+        symbol: symbol.toUpperCase(),
+        id: coin.id,
+        timeframe,
+        convert_currency: currency,
+        indicators: latest,
+        latest_close: closes[closes.length - 1],
+        parameters,
+        metadata: {
+          data_points: candles.length,
+          skipped_candles: historicalData.length - candles.length || undefined,
+          warmup_days: warmupDays,
+          start_date: startDate.toISOString().split('T')[0],
+          end_date: endDate.toISOString().split('T')[0],
+          insufficient_data: insufficientData,
+          data_source: 'CoinMarketCap',
+          last_updated: new Date().toISOString(),
+        },
+      };
+
+      if (include_series) {
+        // Only return points inside the requested timeframe, not the warm-up history
+        const cutoff = endDate.getTime() - days * 24 * 60 * 60 * 1000;
+        indicatorData.series = timestamps
+          .map((timestamp, i) => {
+            const point: TechnicalIndicators = { symbol: symbol.toUpperCase(), timestamp };
+            for (const [field, values] of Object.entries(series)) {
+              const value = values[i];
+              if (value !== null) {
+                point[field] = value;
+              }
+            }
+            return point;
+          })
+          .filter(point => new Date(point.timestamp).getTime() >= cutoff);
+      }
+
+      await this.cache.set(cacheKey, indicatorData, 300); // Cache for 5 minutes
+      return indicatorData;
+    } catch (error) {
+      throw new Error(`Failed to calculate technical indicators for ${symbol}: ${error}`);
+    }
+  }
+
+  private async generateTradingSignals(args: CoinReference & {
+    convert?: string;
+    strategy?: string;
+    entry_rule?: string;
+    exit_rule?: string;
+    confirmations?: string[];
+    stop_loss_percent?: number;
+    take_profit_percent?: number;
+    timeframe?: string;
+    initial_capital?: number;
+    fee_percent?: number;
+    include_equity_curve?: boolean;
+  }): Promise<TradingSignalsResult | DisambiguationResult> {
+    const {
+      timeframe = '180d',
+      initial_capital = 10000,
+      fee_percent = 0.1,
+      include_equity_curve = true,
+    } = args;
+    const currency = validateCurrency(args.convert || 'USD');
+    const strategy = this.resolveStrategy(args);
+
+    if (!['90d', '180d', '1y'].includes(timeframe)) {
+      throw new Error('Invalid timeframe. Must be one of: 90d, 180d, 1y');
+    }
+    if (typeof initial_capital !== 'number' || !isFinite(initial_capital) || initial_capital <= 0) {
+      throw new Error('initial_capital must be a positive number');
+    }
+    if (typeof fee_percent !== 'number' || fee_percent < 0 || fee_percent >= 10) {
+      throw new Error('fee_percent must be between 0 and 10');
+    }
+
+    const coin = await this.registry.lookup(args);
+    if (isDisambiguation(coin)) {
+      return coin;
+    }
+    const { symbol } = coin;
+
+    const cacheKey = this.cache.generateCacheKey('trading_signals', {
+      id: coin.id, symbol, convert: currency, strategy, timeframe, initial_capital, fee_percent, include_equity_curve,
+    });
+
+    const result = await this.cache.get<TradingSignalsResult>(cacheKey);
+    if (result) {
+      return result;
+    }
+
+    const warmupDays = requiredLookback(strategy);
+    const days = this.periodToDays(timeframe);
+    this.candleHistory.requireDepth(days + warmupDays, `A ${timeframe} backtest with a ${warmupDays}-day warm-up`);
+
+    try {
+      const endDate = new Date();
+      const periodStart = new Date(endDate.getTime() - days * 24 * 60 * 60 * 1000);
+      const startDate = new Date(periodStart.getTime() - warmupDays * 24 * 60 * 60 * 1000);
+
+      const historicalData = await this.getHistoricalDataForPeriod(coin, startDate, endDate, currency);
+      const candles: StrategyCandle[] = historicalData
+        .map(d => ({
+          date: String(d.time_close || d.timestamp || '').split('T')[0],
+          close: d.quote?.[currency]?.close || 0,
+          volume: d.quote?.[currency]?.volume || 0,
+        }))
+        .filter(candle => candle.close > 0);
+
+      const periodStartDay = periodStart.toISOString().split('T')[0];
+      const startIndex = Math.max(candles.findIndex(candle => candle.date >= periodStartDay), 0);
+      if (candles.length - startIndex < 2) {
+        throw new Error(`No historical data available for ${symbol}`);
+      }
+
+      const backtest = runBacktest(candles, strategy, { start_index: startIndex, initial_capital, fee_percent });
+
+      const lastDate = candles[candles.length - 1].date;
+      const lastSignal = backtest.signals[backtest.signals.length - 1];
+      const inPosition = backtest.trades.some(trade => trade.open);
+      const current = lastSignal?.date === lastDate ? lastSignal.signal : 'hold';
+
+      const signalData: TradingSignalsResult = {
+        symbol: symbol.toUpperCase(),
+        id: coin.id,
+        convert_currency: currency,
+        strategy,
+        period: {
+          start_date: candles[startIndex].date,
+          end_date: lastDate,
+          trading_days: candles.length - startIndex,
+          warmup_days_required: warmupDays,
+          warmup_days_available: startIndex,
+        },
+        current_signal: {
+          signal: current,
+          ...formatSignal(current),
+          date: lastDate,
+          price: candles[candles.length - 1].close,
+          in_position: inPosition,
+          confidence: current === 'hold' ? undefined : lastSignal.confidence,
+        },
+        signals: backtest.signals.map(signal => ({
+          ...signal,
+          confidence_text: formatConfidence(signal.confidence).text,
+        })),
+        backtest: {
+          metrics: backtest.metrics,
+          trades: backtest.trades,
+          equity_curve: include_equity_curve ? backtest.equity_curve : undefined,
+        },
+        metadata: {
+          execution: 'Signals execute at the daily close; long only, fully invested while in a position',
+          data_source: 'CoinMarketCap',
+          last_updated: new Date().toISOString(),
+        },
+      };
+
+      await this.cache.set(cacheKey, signalData, 300); // Cache for 5 minutes
+      return signalData;
+    } catch (error) {
+      throw new Error(`Failed to generate trading signals for ${symbol}: ${error}`);
+    }
+  }
+
+  // A preset by name, or custom rules (validated here so syntax errors surface before any API call)
+  private resolveStrategy(args: {
+    strategy?: string;
+    entry_rule?: string;
+    exit_rule?: string;
+    confirmations?: string[];
+    stop_loss_percent?: number;
+    take_profit_percent?: number;
+  }): StrategyDefinition {
+    let strategy: StrategyDefinition;
+    if (args.entry_rule || args.exit_rule) {
+      if (!args.entry_rule || !args.exit_rule) {
+        throw new Error('Custom strategies need both entry_rule and exit_rule');
+      }
+      strategy = {
+        name: 'custom',
+        entry: args.entry_rule,
+        exit: args.exit_rule,
+        confirmations: args.confirmations || [],
+      };
+    } else {
+      strategy = { ...STRATEGY_PRESETS[validateStrategy(args.strategy || 'moderate')] };
+    }
+
+    for (const field of ['stop_loss_percent', 'take_profit_percent'] as const) {
+      const value = args[field];
+      if (value !== undefined) {
+        if (typeof value !== 'number' || value <= 0 || value >= 100) {
+          throw new Error(`${field} must be between 0 and 100`);
+        }
+        strategy[field] = value;
+      }
+    }
+
+    [strategy.entry, strategy.exit, ...strategy.confirmations].forEach(parseRule);
+    return strategy;
+  }
+
   private periodToDays(period: string): number {
     const periodMap: Record<string, number> = {
       '1d': 1,
       '7d': 7,
       '30d': 30,
       '90d': 90,
+      '180d': 180,
+      '1y': 365,
     };
     return periodMap[period] || 30;
   }
 
-  private async getHistoricalDataForPeriod(symbol: string, startDate: Date, endDate: Date): Promise<any[]> {
+  private async getHistoricalDataForPeriod(coin: ResolvedCoin, startDate: Date, endDate: Date, currency: string): Promise<OhlcvCandle[]> {
     try {
-      const startISO = startDate.toISOString().split('T')[0];
-      const endISO = endDate.toISOString().split('T')[0];
-      
-      const response = await this.client.getCryptocurrencyOHLCVHistorical({
-        symbol: symbol.toUpperCase(),
-        time_start: startISO,
-        time_end: endISO,
-        interval: 'daily',
-      });
-      
-      if (response?.data) {
-        const data = response.data as any;
-        return data.quotes || [];
-      }
-      
-      return [];
+      // Closed candles come from the local candle store; only gaps hit the API
+      return await this.candleHistory.getDailyCandles(coin, startDate, endDate, currency);
     } catch (error) {
-      console.error(`[${new Date().toISOString()}] WARN: Failed to fetch historical data for ${symbol}:`, error);
+      // Plan limits are reported to the caller rather than looking like missing data
+      if (error instanceof PlanLimitError) {
+        throw error;
+      }
+      console.error(`[${new Date().toISOString()}] WARN: Failed to fetch historical data for ${coin.symbol}:`, error);
       return [];
     }
   }
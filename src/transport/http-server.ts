@@ -0,0 +1,338 @@
+import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { TransportConfig } from '../config/transport.js';
+import { logger } from '../utils/logger.js';
+import { isAuthorized, validateHostAndOrigin } from './request-checks.js';
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+export interface SessionInfo {
+  id: string;
+  transport: 'sse' | 'http';
+  created_at: string;
+  last_activity: string;
+  request_count: number;
+  client?: { name: string; version: string };
+}
+
+interface Session {
+  info: SessionInfo;
+  server: Server;
+  transport: SSEServerTransport | StreamableHTTPServerTransport;
+}
+
+export interface McpHttpServerOptions {
+  config: TransportConfig;
+  // Builds a fresh MCP server per session; shared state (client, cache, rate
+  // limits) lives behind the factory so every session draws from one budget.
+  createMcpServer: (sessionId: () => string | undefined) => Server;
+  getHealth: () => Record<string, unknown>;
+}
+
+// Serves MCP over HTTP, either as the Streamable HTTP transport (POST/GET/DELETE /mcp)
+// or the legacy SSE transport (GET /sse + POST /messages), plus GET /health.
+export class McpHttpServer {
+  private httpServer: HttpServer | null = null;
+  private sessions = new Map<string, Session>();
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(private options: McpHttpServerOptions) {}
+
+  async start(): Promise<void> {
+    const { host, port, mode, sessionIdleTimeoutMs } = this.options.config;
+
+    this.httpServer = createServer((req, res) => {
+      this.route(req, res).catch(error => {
+        logger.error('HTTP request handling failed', {
+          method: req.method,
+          url: req.url,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        if (!res.headersSent) {
+          this.sendJson(res, 500, { error: 'Internal server error' });
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer!.once('error', reject);
+      this.httpServer!.listen(port, host, () => resolve());
+    });
+
+    // Drop sessions whose clients disappeared without closing them
+    this.sweepTimer = setInterval(() => this.closeIdleSessions(sessionIdleTimeoutMs), 60000);
+    this.sweepTimer.unref();
+
+    logger.info('MCP HTTP server listening', {
+      transport: mode,
+      url: `http://${host}:${port}${mode === 'sse' ? '/sse' : '/mcp'}`,
+      health: `http://${host}:${port}/health`,
+    });
+  }
+
+  async stop(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+
+    for (const session of Array.from(this.sessions.values())) {
+      await this.closeSession(session.info.id);
+    }
+
+    if (this.httpServer) {
+      await new Promise<void>(resolve => this.httpServer!.close(() => resolve()));
+      this.httpServer = null;
+    }
+  }
+
+  getSessions(): SessionInfo[] {
+    return Array.from(this.sessions.values()).map(session => ({ ...session.info }));
+  }
+
+  private async route(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const { mode } = this.options.config;
+
+    // DNS rebinding protection applies to every route, /health included
+    const headerError = validateHostAndOrigin(req, this.options.config);
+    if (headerError) {
+      this.sendJsonRpcError(res, 403, headerError);
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === '/health') {
+      this.sendJson(res, 200, {
+        status: 'ok',
+        transport: mode,
+        active_sessions: this.sessions.size,
+        uptime: process.uptime(),
+        ...this.options.getHealth(),
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    // /health stays open for container healthchecks; everything past it needs the token
+    if (!isAuthorized(req, this.options.config)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      this.sendJsonRpcError(res, 401, 'Unauthorized: missing or invalid bearer token');
+      return;
+    }
+
+    if (mode === 'http' && url.pathname === '/mcp') {
+      await this.handleStreamableHttp(req, res);
+      return;
+    }
+
+    if (mode === 'sse' && req.method === 'GET' && url.pathname === '/sse') {
+      await this.handleSseConnect(res);
+      return;
+    }
+
+    if (mode === 'sse' && req.method === 'POST' && url.pathname === '/messages') {
+      await this.handleSseMessage(req, res, url.searchParams.get('sessionId'));
+      return;
+    }
+
+    this.sendJson(res, 404, { error: `Not found: ${req.method} ${url.pathname}` });
+  }
+
+  private async handleStreamableHttp(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionIdHeader = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(sessionIdHeader) ? sessionIdHeader[0] : sessionIdHeader;
+    let body: unknown;
+    if (req.method === 'POST') {
+      const parsed = await this.readJsonBody(req, res);
+      if (!parsed) return;
+      body = parsed.body;
+    }
+
+    if (sessionId) {
+      const session = this.sessions.get(sessionId);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        this.sendJsonRpcError(res, 404, 'Session not found');
+        return;
+      }
+      this.touch(session);
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      this.sendJsonRpcError(res, 400, 'Bad Request: no valid session ID provided');
+      return;
+    }
+
+    // The session id only exists once the transport has handled the initialize request
+    const created: { transport?: StreamableHTTPServerTransport } = {};
+    const server = this.options.createMcpServer(() => created.transport?.sessionId);
+
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        this.registerSession(id, 'http', server, transport);
+      },
+    });
+    // A server whose initialize never produced a session is unreachable; close it so
+    // it leaves the owner's server set instead of leaking once per failed handshake
+    let discarded = false;
+    const discard = async () => {
+      if (discarded) return;
+      discarded = true;
+      try {
+        await server.close();
+      } catch (error) {
+        logger.warn('Failed to close unused MCP server', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    };
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.forgetSession(transport.sessionId);
+      } else {
+        void discard();
+      }
+    };
+    created.transport = transport;
+
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+    } catch (error) {
+      await discard();
+      throw error;
+    }
+
+    if (!transport.sessionId) {
+      await discard();
+      return;
+    }
+
+    const session = transport.sessionId ? this.sessions.get(transport.sessionId) : undefined;
+    if (session) {
+      this.touch(session);
+    }
+  }
+
+  private async handleSseConnect(res: ServerResponse): Promise<void> {
+    const transport = new SSEServerTransport('/messages', res);
+    const server = this.options.createMcpServer(() => transport.sessionId);
+
+    transport.onclose = () => this.forgetSession(transport.sessionId);
+    this.registerSession(transport.sessionId, 'sse', server, transport);
+
+    await server.connect(transport);
+  }
+
+  private async handleSseMessage(req: IncomingMessage, res: ServerResponse, sessionId: string | null): Promise<void> {
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      this.sendJson(res, 404, { error: 'Session not found' });
+      return;
+    }
+
+    this.touch(session);
+    const parsed = await this.readJsonBody(req, res);
+    if (!parsed) return;
+    await session.transport.handlePostMessage(req, res, parsed.body);
+  }
+
+  private registerSession(
+    id: string,
+    kind: SessionInfo['transport'],
+    server: Server,
+    transport: SSEServerTransport | StreamableHTTPServerTransport,
+  ): void {
+    const now = new Date().toISOString();
+    this.sessions.set(id, {
+      info: { id, transport: kind, created_at: now, last_activity: now, request_count: 0 },
+      server,
+      transport,
+    });
+
+    logger.info('MCP session opened', { sessionId: id, transport: kind, activeSessions: this.sessions.size });
+  }
+
+  private touch(session: Session): void {
+    session.info.last_activity = new Date().toISOString();
+    session.info.request_count++;
+    if (!session.info.client) {
+      const client = session.server.getClientVersion();
+      if (client) {
+        session.info.client = { name: client.name, version: client.version };
+      }
+    }
+  }
+
+  private forgetSession(id: string): void {
+    if (this.sessions.delete(id)) {
+      logger.info('MCP session closed', { sessionId: id, activeSessions: this.sessions.size });
+    }
+  }
+
+  private async closeSession(id: string): Promise<void> {
+    const session = this.sessions.get(id);
+    if (!session) return;
+
+    this.forgetSession(id);
+    try {
+      await session.server.close();
+    } catch (error) {
+      logger.warn('Failed to close MCP session cleanly', {
+        sessionId: id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private closeIdleSessions(idleTimeoutMs: number): void {
+    const cutoff = Date.now() - idleTimeoutMs;
+    for (const session of Array.from(this.sessions.values())) {
+      if (new Date(session.info.last_activity).getTime() < cutoff) {
+        logger.info('Closing idle MCP session', { sessionId: session.info.id, lastActivity: session.info.last_activity });
+        void this.closeSession(session.info.id);
+      }
+    }
+  }
+
+  // Replies 400/413 itself and returns null when the body is missing, too large or not JSON
+  private async readJsonBody(req: IncomingMessage, res: ServerResponse): Promise<{ body: unknown } | null> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        this.sendJsonRpcError(res, 413, `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+        return null;
+      }
+      chunks.push(chunk as Buffer);
+    }
+
+    try {
+      return { body: JSON.parse(Buffer.concat(chunks).toString('utf8')) };
+    } catch {
+      this.sendJsonRpcError(res, 400, 'Bad Request: body is not valid JSON', -32700);
+      return null;
+    }
+  }
+
+  private sendJson(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body, null, 2));
+  }
+
+  private sendJsonRpcError(res: ServerResponse, status: number, message: string, code: number = -32000): void {
+    this.sendJson(res, status, {
+      jsonrpc: '2.0',
+      error: { code, message },
+      id: null,
+    });
+  }
+}
@@ -0,0 +1,56 @@
+import { IncomingMessage } from 'http';
+import { timingSafeEqual } from 'crypto';
+import { TransportConfig } from '../config/transport.js';
+
+// Settings the HTTP transport and the price stream WebSocket check requests against
+export type RequestCheckConfig = Pick<TransportConfig, 'authToken' | 'allowedHosts' | 'allowedOrigins'>;
+
+// Same checks as the SDK's hostHeaderValidation middleware (port-agnostic Host
+// allow-list), which only plugs into Express, plus an Origin check for browsers.
+// Returns the reason a request is rejected, or undefined when it passes.
+export const validateHostAndOrigin = (req: IncomingMessage, config: RequestCheckConfig): string | undefined => {
+  const { allowedHosts, allowedOrigins } = config;
+
+  const hostHeader = req.headers.host;
+  if (!hostHeader) {
+    return 'Missing Host header';
+  }
+  let hostname: string;
+  try {
+    hostname = new URL(`http://${hostHeader}`).hostname;
+  } catch {
+    return `Invalid Host header: ${hostHeader}`;
+  }
+  if (!allowedHosts.includes(hostname)) {
+    return `Invalid Host: ${hostname}`;
+  }
+
+  const origin = req.headers.origin;
+  if (origin && !allowedOrigins.includes(origin)) {
+    let originHost: string | undefined;
+    try {
+      originHost = new URL(origin).hostname;
+    } catch {
+      originHost = undefined;
+    }
+    if (!originHost || !allowedHosts.includes(originHost)) {
+      return `Invalid Origin: ${origin}`;
+    }
+  }
+
+  return undefined;
+};
+
+// Bearer token check in constant time; without a configured token every request passes
+export const isAuthorized = (req: IncomingMessage, config: RequestCheckConfig): boolean => {
+  const { authToken } = config;
+  if (!authToken) return true;
+
+  const header = req.headers.authorization || '';
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) return false;
+
+  const expected = Buffer.from(authToken);
+  const provided = Buffer.from(match[1].trim());
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+};
@@ -9,11 +9,31 @@ export interface RequestStats {
   lastResetTime: number;
   maxRequestsPerMinute: number;
   remainingRequests: number;
+  totalRequests?: number;
+  queue?: RequestQueueStats;
+}
+
+export interface RequestQueueStats {
+  depth: number;
+  queuedByPriority: Record<string, number>;
+  estimatedWaitMs: Record<string, number>;
+  oldestQueuedMs: number;
+  averageWaitMs: number;
+  timedOutRequests: number;
+  maxWaitMs: number;
+  pausedForMs: number;
+  availableTokens: number;
+  burstSize: number;
 }
 
 export interface ApiTierConfig {
   maxCallsPerMonth: number;
   maxCallsPerMinute: number;
+  // How many days back historical endpoints may reach (0 = no historical access)
+  maxHistoricalDays: number;
+  historicalIntervals: string[];
+  // How many convert currencies a single request may ask for
+  maxConvertsPerRequest: number;
   availableEndpoints: Record<string, string>;
   blockedEndpoints: Record<string, string>;
   features: {
@@ -98,6 +118,18 @@ export interface CacheStats {
   hitRate: number;
 }
 
+export interface CacheBackendStats {
+  backend: string;
+  persistent: boolean;
+  keys: number;
+  hits: number;
+  misses: number;
+  hitRate: number;
+  sizeBytes: number;
+  permanentKeys?: number;
+  location?: string;
+}
+
 export interface ServerStats {
   server_name: string;
   version: string;
@@ -110,6 +142,8 @@ export interface ServerStats {
   uptime: number;
   memory_usage: NodeJS.MemoryUsage;
   node_version: string;
+  transport?: string;
+  active_sessions?: number;
   timestamp: string;
 }
 
@@ -121,10 +155,71 @@ export interface RateLimitStatus {
     reset_time: string;
     time_until_reset: number;
   };
+  queue_status?: {
+    queue_depth: number;
+    queued_by_priority: Record<string, number>;
+    estimated_wait_ms: Record<string, number>;
+    oldest_queued_ms: number;
+    average_wait_ms: number;
+    timed_out_requests: number;
+    max_wait_ms: number;
+    paused_for_ms: number;
+    available_burst_tokens: number;
+    burst_size: number;
+  };
+  recommendations: string[];
+  timestamp: string;
+}
+
+export interface CreditUsageEntry {
+  name: string;
+  credits: number;
+  calls: number;
+}
+
+export interface CreditUsageReport {
+  month: string;
+  budget: {
+    mode: string;
+    monthly_budget: number;
+    source: string;
+    warn_percent: number;
+    reserve_percent: number;
+    status: 'ok' | 'over_pace' | 'warning' | 'exhausted';
+  };
+  usage: {
+    credits_used: number;
+    calls: number;
+    credits_remaining: number;
+    used_percent: number;
+    projected_month_end: number;
+    days_remaining: number;
+    reported_remaining?: number;
+    last_updated?: string;
+  };
+  by_endpoint: CreditUsageEntry[];
+  by_tool: CreditUsageEntry[];
+  by_day: Array<{ date: string; credits: number; calls: number }>;
+  available_months: string[];
   recommendations: string[];
   timestamp: string;
 }
 
+// Plan and usage of the API key, from /v1/key/info
+export interface KeyInfo {
+  plan?: {
+    credit_limit_monthly?: number;
+    credit_limit_daily?: number;
+    rate_limit_minute?: number;
+  };
+  usage?: {
+    current_month?: {
+      credits_used?: number;
+      credits_left?: number;
+    };
+  };
+}
+
 export interface ApiTierStatus {
   api_tier_status: {
     current_tier: string;
@@ -141,6 +236,26 @@ export interface ApiTierStatus {
       maxCallsPerMonth: number;
       maxCallsPerMinute: number;
     };
+    historical_limits?: {
+      max_days: number;
+      earliest_date: string | null;
+      intervals: string[];
+      range_policy: string;
+    };
+  };
+  detection?: {
+    enabled: boolean;
+    detected_plan: {
+      tier: string;
+      creditLimitMonthly: number;
+      creditLimitDaily?: number;
+      rateLimitMinute?: number;
+      creditsUsedMonth?: number;
+      creditsLeftMonth?: number;
+      detectedAt: string;
+    } | null;
+    runtime_restrictions: Array<{ endpoint: string; reason: string; denied_at: string }>;
+    key_failure: { reason: string; failed_at: string } | null;
   };
   available_tools: string[];
   unavailable_tools: string[];
@@ -21,6 +21,63 @@ export interface CryptoQuote {
   max_supply: number | null;
 }
 
+// Market data of one coin in one currency, as /v1/cryptocurrency/quotes/latest nests it
+export type CurrencyQuote = Omit<CryptoQuote, 'id' | 'symbol' | 'name' | 'slug' | 'circulating_supply' | 'total_supply' | 'max_supply'>;
+
+// The percent_change_<period> fields of a CurrencyQuote
+export type PercentChangeKey = Extract<keyof CurrencyQuote, `percent_change_${string}`>;
+
+// One coin as /v1/cryptocurrency/quotes/latest and /listings/latest return it
+export interface CryptocurrencyQuoteEntry {
+  id: number;
+  name: string;
+  symbol: string;
+  slug: string;
+  cmc_rank?: number;
+  is_active?: number;
+  num_market_pairs?: number;
+  date_added?: string;
+  tags?: Array<string | { slug?: string; name?: string }>;
+  platform?: CoinMapEntry['platform'];
+  circulating_supply?: number;
+  total_supply?: number;
+  max_supply?: number | null;
+  last_updated?: string;
+  quote: Record<string, CurrencyQuote>;
+}
+
+// The converted amount as /v1/tools/price-conversion returns it; the data is a
+// single entry, though some responses wrap it in an array
+export interface PriceConversionEntry {
+  id: number;
+  name: string;
+  symbol: string;
+  amount: number;
+  last_updated: string;
+  quote: Record<string, { price: number | null; last_updated: string }>;
+}
+
+export type PriceConversionData = PriceConversionEntry | PriceConversionEntry[];
+
+// One entry of the /v1/cryptocurrency/map registry
+export interface CoinMapEntry {
+  id: number;
+  name: string;
+  symbol: string;
+  slug: string;
+  rank: number | null;
+  is_active: boolean;
+  first_historical_data?: string;
+  last_historical_data?: string;
+  platform: {
+    id: number;
+    name: string;
+    symbol: string;
+    slug: string;
+    token_address: string;
+  } | null;
+}
+
 export interface MarketMetrics {
   active_cryptocurrencies: number;
   active_exchanges: number;
@@ -32,6 +89,12 @@ export interface MarketMetrics {
   altcoin_volume_24h: number;
   btc_dominance: number;
   eth_dominance: number;
+  btc_dominance_24h_percentage_change?: number;
+  defi_market_cap?: number;
+  defi_volume_24h?: number;
+  stablecoin_market_cap?: number;
+  stablecoin_volume_24h?: number;
+  last_updated?: string;
   quote: {
     [currency: string]: {
       total_market_cap: number;
@@ -39,6 +102,12 @@ export interface MarketMetrics {
       total_volume_24h_reported: number;
       altcoin_market_cap: number;
       altcoin_volume_24h: number;
+      total_market_cap_yesterday_percentage_change?: number;
+      total_volume_24h_yesterday_percentage_change?: number;
+      defi_market_cap?: number;
+      defi_volume_24h?: number;
+      stablecoin_market_cap?: number;
+      stablecoin_volume_24h?: number;
       last_updated: string;
     };
   };
@@ -60,6 +129,8 @@ export interface TechnicalIndicators {
   bollinger_middle?: number;
   bollinger_lower?: number;
   volume_sma?: number;
+  // Indicators computed with non-default periods (e.g. rsi_7, sma_100)
+  [indicator: string]: string | number | undefined;
 }
 
 export interface HistoricalQuote {
@@ -76,23 +147,51 @@ export interface HistoricalQuote {
   time_low: string;
 }
 
+// One daily candle from /v1/cryptocurrency/ohlcv/historical (as kept by the candle
+// store); the flat fields cover older response shapes
+export interface OhlcvCandle {
+  time_open?: string;
+  time_close?: string;
+  timestamp?: string;
+  quote?: Record<string, {
+    open?: number;
+    high?: number;
+    low?: number;
+    close?: number;
+    volume?: number;
+    market_cap?: number;
+    timestamp?: string;
+  }>;
+  open?: number;
+  high?: number;
+  low?: number;
+  close?: number;
+  volume?: number;
+  market_cap?: number;
+}
+
 export interface TrendingData {
   id: number;
   symbol: string;
   name: string;
   slug: string;
+  // Position in CoinMarketCap's search-interest ranking (1 = most searched)
   rank: number;
   status: string;
   price: number;
   volume_24h: number;
   market_cap: number;
   percent_change_24h: number;
+  // Price change over search_interval
   avg_price_change: number;
   search_interval: string;
 }
 
 export interface PortfolioHolding {
-  symbol: string;
+  // One of symbol, id or slug identifies the coin
+  symbol?: string;
+  id?: number;
+  slug?: string;
   amount: number;
   purchase_price: number;
   purchase_date?: string;
@@ -104,6 +203,7 @@ export interface PortfolioAnalysis {
   total_pnl: number;
   total_pnl_percentage: number;
   holdings: Array<{
+    id?: number;
     symbol: string;
     amount: number;
     current_price: number;
@@ -112,6 +212,11 @@ export interface PortfolioAnalysis {
     pnl: number;
     pnl_percentage: number;
     allocation_percentage: number;
+    // Cost-weighted across lots; only set when every lot has a purchase_date
+    average_purchase_date?: string;
+    holding_period_days?: number;
+    // Only set after a year of holding
+    annualized_return_percentage?: number;
   }>;
   allocation: Array<{
     symbol: string;
@@ -122,11 +227,15 @@ export interface PortfolioAnalysis {
 export interface AlertCondition {
   id: string;
   symbol: string;
+  coin_id?: number;
   condition: 'above' | 'below' | 'change_percent';
   threshold: number;
   timeframe: '1h' | '24h' | '7d';
   created_at: string;
   triggered: boolean;
+  triggered_at?: string;
+  trigger_price?: number;
+  trigger_percent_change?: number;
 }
 
 export interface CMCApiResponse<T> {
@@ -0,0 +1,191 @@
+// Market cycle classification over daily closes.
+//
+// Every day is scored against the four phases of a market cycle (accumulation,
+// markup, distribution, markdown) by how many of that phase's conditions hold.
+// The conditions combine the drawdown from the all-time high, the slopes of the
+// fast and slow moving averages and whether 30-day volatility is above its
+// median over the analysed history. The best-scoring phase wins; ties keep the
+// previous day's phase. Runs shorter than min_phase_days are then folded into a
+// neighbour so the spans describe cycles rather than day-to-day noise.
+
+import { calculateSMA } from './indicators.js';
+import { annualizedVolatility, calculateReturns } from './risk.js';
+
+export type CyclePhase = 'accumulation' | 'markup' | 'distribution' | 'markdown';
+
+export const CYCLE_PHASES: CyclePhase[] = ['accumulation', 'markup', 'distribution', 'markdown'];
+
+export const CYCLE_PARAMETERS = {
+  fast_ma: 50,
+  slow_ma: 200,
+  // Moving-average slopes are the percent change over this many days
+  slope_days: 20,
+  volatility_window: 30,
+  // Drawdowns from the all-time high at or above this count as deeply discounted
+  deep_drawdown: 0.4,
+  // Drawdowns below this count as trading near the high
+  near_high_drawdown: 0.2,
+  min_phase_days: 14,
+  // Days averaged for the confidence of the current phase
+  confidence_days: 7,
+};
+
+// Daily closes needed before the first day can be classified
+export const CYCLE_WARMUP_DAYS = CYCLE_PARAMETERS.slow_ma + CYCLE_PARAMETERS.slope_days;
+
+export interface CycleCandle {
+  date: string;
+  close: number;
+}
+
+export interface CycleDay {
+  date: string;
+  close: number;
+  all_time_high: number;
+  drawdown: number;
+  fast_ma: number;
+  slow_ma: number;
+  fast_ma_slope: number;
+  slow_ma_slope: number;
+  volatility: number;
+  high_volatility: boolean;
+  // Share of each phase's conditions that hold, between 0 and 1
+  scores: Record<CyclePhase, number>;
+  // Phase after short runs have been folded into their neighbours
+  phase: CyclePhase;
+}
+
+export interface CycleSpan {
+  phase: CyclePhase;
+  // Inclusive indices into CycleAnalysis.days
+  start_index: number;
+  end_index: number;
+}
+
+export interface CycleAnalysis {
+  days: CycleDay[];
+  spans: CycleSpan[];
+  volatility_median: number;
+  // Confidence in the last span's phase over the most recent days, 0-100
+  current_confidence: number;
+}
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+const phaseScores = (day: Omit<CycleDay, 'scores' | 'phase'>): Record<CyclePhase, number> => {
+  const { deep_drawdown, near_high_drawdown } = CYCLE_PARAMETERS;
+  const conditions: Record<CyclePhase, boolean[]> = {
+    // Washed out far below the high, selling exhausted, quiet
+    accumulation: [day.drawdown >= deep_drawdown, day.fast_ma_slope >= 0, day.slow_ma_slope <= 0, !day.high_volatility],
+    // Uptrend on both timeframes
+    markup: [day.close > day.slow_ma, day.fast_ma > day.slow_ma, day.fast_ma_slope > 0, day.slow_ma_slope > 0],
+    // Near the high with momentum fading while the long trend is still up, choppy
+    distribution: [day.drawdown < near_high_drawdown, day.fast_ma_slope <= 0, day.slow_ma_slope > 0, day.high_volatility],
+    // Downtrend on both timeframes
+    markdown: [day.close < day.slow_ma, day.fast_ma < day.slow_ma, day.fast_ma_slope < 0, day.slow_ma_slope < 0],
+  };
+  return Object.fromEntries(
+    CYCLE_PHASES.map(phase => [phase, conditions[phase].filter(Boolean).length / conditions[phase].length]),
+  ) as Record<CyclePhase, number>;
+};
+
+const toSpans = (phases: CyclePhase[]): CycleSpan[] => {
+  const spans: CycleSpan[] = [];
+  phases.forEach((phase, index) => {
+    const last = spans[spans.length - 1];
+    if (last && last.phase === phase) {
+      last.end_index = index;
+    } else {
+      spans.push({ phase, start_index: index, end_index: index });
+    }
+  });
+  return spans;
+};
+
+const spanLength = (span: CycleSpan): number => span.end_index - span.start_index + 1;
+
+// Repeatedly relabel the shortest run below minDays with its longer neighbour's phase
+const foldShortSpans = (phases: CyclePhase[], minDays: number): CyclePhase[] => {
+  const result = [...phases];
+  for (;;) {
+    const spans = toSpans(result);
+    if (spans.length < 2) return result;
+
+    let shortest = -1;
+    spans.forEach((span, index) => {
+      if (spanLength(span) < minDays && (shortest === -1 || spanLength(span) < spanLength(spans[shortest]))) {
+        shortest = index;
+      }
+    });
+    if (shortest === -1) return result;
+
+    const previous = spans[shortest - 1];
+    const next = spans[shortest + 1];
+    const target = !next || (previous && spanLength(previous) >= spanLength(next)) ? previous : next;
+    result.fill(target.phase, spans[shortest].start_index, spans[shortest].end_index + 1);
+  }
+};
+
+// Closes must be in date order; days before CYCLE_WARMUP_DAYS only warm up the indicators
+export const analyzeCycles = (candles: CycleCandle[]): CycleAnalysis => {
+  const { fast_ma, slow_ma, slope_days, volatility_window, min_phase_days, confidence_days } = CYCLE_PARAMETERS;
+  const closes = candles.map(candle => candle.close);
+  const fast = calculateSMA(closes, fast_ma);
+  const slow = calculateSMA(closes, slow_ma);
+  const returns = calculateReturns(closes);
+
+  const indicators: Array<Omit<CycleDay, 'scores' | 'phase' | 'high_volatility'>> = [];
+  let allTimeHigh = 0;
+  for (let i = 0; i < candles.length; i++) {
+    allTimeHigh = Math.max(allTimeHigh, closes[i]);
+    if (i < CYCLE_WARMUP_DAYS) continue;
+
+    const fastNow = fast[i] as number;
+    const slowNow = slow[i] as number;
+    indicators.push({
+      date: candles[i].date,
+      close: closes[i],
+      all_time_high: allTimeHigh,
+      drawdown: 1 - closes[i] / allTimeHigh,
+      fast_ma: fastNow,
+      slow_ma: slowNow,
+      fast_ma_slope: fastNow / (fast[i - slope_days] as number) - 1,
+      slow_ma_slope: slowNow / (slow[i - slope_days] as number) - 1,
+      // returns[i - 1] is the return into day i
+      volatility: annualizedVolatility(returns.slice(i - volatility_window, i)),
+    });
+  }
+
+  const volatilityMedian = median(indicators.map(day => day.volatility));
+  const days: CycleDay[] = [];
+  for (const indicator of indicators) {
+    const partial = { ...indicator, high_volatility: indicator.volatility > volatilityMedian };
+    const scores = phaseScores(partial);
+    const best = Math.max(...CYCLE_PHASES.map(phase => scores[phase]));
+    const previous = days[days.length - 1]?.phase;
+    const phase = previous && scores[previous] === best
+      ? previous
+      : CYCLE_PHASES.find(candidate => scores[candidate] === best) as CyclePhase;
+    days.push({ ...partial, scores, phase });
+  }
+
+  const phases = foldShortSpans(days.map(day => day.phase), min_phase_days);
+  days.forEach((day, index) => {
+    day.phase = phases[index];
+  });
+  const spans = toSpans(phases);
+
+  let currentConfidence = 0;
+  const current = spans[spans.length - 1];
+  if (current) {
+    const recent = days.slice(Math.max(current.start_index, days.length - confidence_days));
+    currentConfidence = Math.round((recent.reduce((sum, day) => sum + day.scores[current.phase], 0) / recent.length) * 100);
+  }
+
+  return { days, spans, volatility_median: volatilityMedian, current_confidence: currentConfidence };
+};
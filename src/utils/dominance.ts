@@ -0,0 +1,146 @@
+// Market-cap dominance series from daily global metrics. Dominance values are
+// percentages of the total market cap; trends and crossovers are measured in
+// percentage points. "Others" is what BTC, ETH and stablecoins leave, so it is
+// only known on days that report all three.
+
+// Fitted change over the timeframe, in percentage points, beyond which a dominance series is trending
+export const DOMINANCE_TREND_THRESHOLD = 0.5;
+
+export const DOMINANCE_SERIES = ['btc', 'eth', 'stablecoins', 'others'] as const;
+
+export type DominanceSeries = typeof DOMINANCE_SERIES[number];
+
+export interface DominancePoint extends Record<DominanceSeries, number | null> {
+  date: string;
+}
+
+// One entry of /v1/global-metrics/quotes/historical
+export interface GlobalMetricsHistoricalQuote {
+  timestamp?: string;
+  btc_dominance?: number;
+  eth_dominance?: number;
+  stablecoin_market_cap?: number;
+  quote?: Record<string, {
+    timestamp?: string;
+    total_market_cap?: number;
+    stablecoin_market_cap?: number;
+  }>;
+}
+
+export interface DominanceTrend {
+  start: number;
+  end: number;
+  change_points: number;
+  fitted_change_points: number;
+  high: number;
+  low: number;
+  direction: 'rising' | 'falling' | 'flat';
+}
+
+export interface DominanceCrossover {
+  date: string;
+  type: 'crossover';
+  description: string;
+  above: DominanceSeries;
+  below: DominanceSeries;
+  values: Partial<Record<DominanceSeries, number>>;
+}
+
+// Plans without historical global metrics get the reason instead of the series
+export type DominanceHistory = { available: false; reason?: string } | {
+  available: true;
+  source_endpoint: string;
+  interval: 'daily';
+  start_date: string;
+  end_date: string;
+  clamped_to_plan_limit?: boolean;
+  data_points: number;
+  trends: Record<DominanceSeries, DominanceTrend | null>;
+  events: DominanceCrossover[];
+  series?: Array<{
+    date: string;
+    btc_dominance: number | null;
+    eth_dominance: number | null;
+    stablecoin_dominance: number | null;
+    others_dominance: number | null;
+  }>;
+  methodology: {
+    others: string;
+    trend_threshold_points: number;
+  };
+};
+
+export const roundPoints = (value: number): number => Number(value.toFixed(4));
+
+export const toDominancePoint = (quote: GlobalMetricsHistoricalQuote): DominancePoint => {
+  const usd = quote.quote?.USD || {};
+  const btc = typeof quote.btc_dominance === 'number' ? quote.btc_dominance : null;
+  const eth = typeof quote.eth_dominance === 'number' ? quote.eth_dominance : null;
+  const stablecoinCap = usd.stablecoin_market_cap ?? quote.stablecoin_market_cap;
+  const totalCap = usd.total_market_cap;
+  const stablecoins = typeof stablecoinCap === 'number' && typeof totalCap === 'number' && totalCap > 0
+    ? (stablecoinCap / totalCap) * 100
+    : null;
+  return {
+    date: String(quote.timestamp || usd.timestamp || '').split('T')[0],
+    btc,
+    eth,
+    stablecoins,
+    others: btc === null || eth === null || stablecoins === null ? null : 100 - btc - eth - stablecoins,
+  };
+};
+
+// Least-squares slope per point, scaled to the whole series
+export const dominanceTrend = (values: number[]): DominanceTrend => {
+  const n = values.length;
+  const meanX = (n - 1) / 2;
+  const meanY = values.reduce((sum, value) => sum + value, 0) / n;
+  let covariance = 0;
+  let variance = 0;
+  values.forEach((value, x) => {
+    covariance += (x - meanX) * (value - meanY);
+    variance += (x - meanX) ** 2;
+  });
+  const fittedChange = variance === 0 ? 0 : (covariance / variance) * (n - 1);
+  let direction: DominanceTrend['direction'] = 'flat';
+  if (fittedChange > DOMINANCE_TREND_THRESHOLD) direction = 'rising';
+  if (fittedChange < -DOMINANCE_TREND_THRESHOLD) direction = 'falling';
+  return {
+    start: roundPoints(values[0]),
+    end: roundPoints(values[n - 1]),
+    change_points: roundPoints(values[n - 1] - values[0]),
+    fitted_change_points: roundPoints(fittedChange),
+    high: roundPoints(Math.max(...values)),
+    low: roundPoints(Math.min(...values)),
+    direction,
+  };
+};
+
+// Days on which one series moved from below another to above it (or back)
+export const dominanceCrossovers = (points: DominancePoint[]): DominanceCrossover[] => {
+  const events: DominanceCrossover[] = [];
+  for (let a = 0; a < DOMINANCE_SERIES.length; a++) {
+    for (let b = a + 1; b < DOMINANCE_SERIES.length; b++) {
+      const first = DOMINANCE_SERIES[a];
+      const second = DOMINANCE_SERIES[b];
+      let previousSign = 0;
+      for (const point of points) {
+        if (point[first] === null || point[second] === null) continue;
+        const sign = Math.sign((point[first] as number) - (point[second] as number));
+        if (sign !== 0 && previousSign !== 0 && sign !== previousSign) {
+          const [leader, laggard] = sign > 0 ? [first, second] : [second, first];
+          events.push({
+            date: point.date,
+            type: 'crossover',
+            description: `${leader} dominance crossed above ${laggard}`,
+            above: leader,
+            below: laggard,
+            values: { [leader]: roundPoints(point[leader] as number), [laggard]: roundPoints(point[laggard] as number) },
+          });
+        }
+        if (sign !== 0) previousSign = sign;
+      }
+    }
+  }
+  return events.sort((x, y) => x.date.localeCompare(y.date));
+};
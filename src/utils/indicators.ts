@@ -0,0 +1,136 @@
+// Technical indicator calculations over plain numeric series.
+// Every function returns an array aligned with its input; positions without
+// enough history to compute a value are null.
+
+export type IndicatorSeries = Array<number | null>;
+
+export const calculateSMA = (values: number[], period: number): IndicatorSeries => {
+  const result: IndicatorSeries = new Array(values.length).fill(null);
+  let sum = 0;
+
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+    if (i >= period) {
+      sum -= values[i - period];
+    }
+    if (i >= period - 1) {
+      result[i] = sum / period;
+    }
+  }
+
+  return result;
+};
+
+export const calculateEMA = (values: number[], period: number): IndicatorSeries => {
+  const result: IndicatorSeries = new Array(values.length).fill(null);
+  if (values.length < period) {
+    return result;
+  }
+
+  // Seed with the SMA of the first full period
+  const multiplier = 2 / (period + 1);
+  let ema = values.slice(0, period).reduce((sum, value) => sum + value, 0) / period;
+  result[period - 1] = ema;
+
+  for (let i = period; i < values.length; i++) {
+    ema = (values[i] - ema) * multiplier + ema;
+    result[i] = ema;
+  }
+
+  return result;
+};
+
+// Wilder's RSI
+export const calculateRSI = (values: number[], period: number = 14): IndicatorSeries => {
+  const result: IndicatorSeries = new Array(values.length).fill(null);
+  if (values.length <= period) {
+    return result;
+  }
+
+  let avgGain = 0;
+  let avgLoss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = values[i] - values[i - 1];
+    avgGain += Math.max(change, 0);
+    avgLoss += Math.max(-change, 0);
+  }
+  avgGain /= period;
+  avgLoss /= period;
+
+  const toRSI = (gain: number, loss: number): number => {
+    if (loss === 0) return gain === 0 ? 50 : 100;
+    return 100 - 100 / (1 + gain / loss);
+  };
+
+  result[period] = toRSI(avgGain, avgLoss);
+
+  for (let i = period + 1; i < values.length; i++) {
+    const change = values[i] - values[i - 1];
+    avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+    avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+    result[i] = toRSI(avgGain, avgLoss);
+  }
+
+  return result;
+};
+
+export const calculateMACD = (
+  values: number[],
+  fastPeriod: number = 12,
+  slowPeriod: number = 26,
+  signalPeriod: number = 9,
+): { macd: IndicatorSeries; signal: IndicatorSeries; histogram: IndicatorSeries } => {
+  const fast = calculateEMA(values, fastPeriod);
+  const slow = calculateEMA(values, slowPeriod);
+  const macd: IndicatorSeries = values.map((_, i) => {
+    const f = fast[i];
+    const s = slow[i];
+    return f !== null && s !== null ? f - s : null;
+  });
+
+  // The signal line is an EMA over the defined part of the MACD line
+  const firstDefined = macd.findIndex(value => value !== null);
+  const signal: IndicatorSeries = new Array(values.length).fill(null);
+  if (firstDefined !== -1) {
+    const signalValues = calculateEMA(macd.slice(firstDefined) as number[], signalPeriod);
+    signalValues.forEach((value, i) => {
+      signal[firstDefined + i] = value;
+    });
+  }
+
+  const histogram: IndicatorSeries = macd.map((value, i) => {
+    const s = signal[i];
+    return value !== null && s !== null ? value - s : null;
+  });
+
+  return { macd, signal, histogram };
+};
+
+export const calculateBollingerBands = (
+  values: number[],
+  period: number = 20,
+  stdDevMultiplier: number = 2,
+): { upper: IndicatorSeries; middle: IndicatorSeries; lower: IndicatorSeries } => {
+  const middle = calculateSMA(values, period);
+  const upper: IndicatorSeries = new Array(values.length).fill(null);
+  const lower: IndicatorSeries = new Array(values.length).fill(null);
+
+  for (let i = period - 1; i < values.length; i++) {
+    const mean = middle[i] as number;
+    const window = values.slice(i - period + 1, i + 1);
+    const variance = window.reduce((sum, value) => sum + (value - mean) ** 2, 0) / period;
+    const stdDev = Math.sqrt(variance);
+    upper[i] = mean + stdDevMultiplier * stdDev;
+    lower[i] = mean - stdDevMultiplier * stdDev;
+  }
+
+  return { upper, middle, lower };
+};
+
+export const lastValue = (series: IndicatorSeries): number | undefined => {
+  for (let i = series.length - 1; i >= 0; i--) {
+    const value = series[i];
+    if (value !== null) return value;
+  }
+  return undefined;
+};
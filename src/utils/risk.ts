@@ -0,0 +1,195 @@
+// Risk statistics over daily close series. Crypto trades every day, so
+// annualization uses 365 periods. Returns are simple daily returns; VaR and
+// CVaR are one-day losses expressed as positive fractions. Pairwise functions
+// expect two return series of equal length aligned on the same dates.
+
+export const TRADING_DAYS_PER_YEAR = 365;
+
+export interface DrawdownResult {
+  max_drawdown: number;
+  peak_index: number;
+  trough_index: number;
+  // Index where the price first regained the peak, null while still under water
+  recovery_index: number | null;
+}
+
+export interface ValueAtRisk {
+  var: number;
+  cvar: number;
+}
+
+export const calculateReturns = (closes: number[]): number[] => {
+  const returns: number[] = [];
+  for (let i = 1; i < closes.length; i++) {
+    if (closes[i - 1] > 0) {
+      returns.push(closes[i] / closes[i - 1] - 1);
+    }
+  }
+  return returns;
+};
+
+export const mean = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+// Sample standard deviation
+export const standardDeviation = (values: number[]): number => {
+  if (values.length < 2) return 0;
+  const average = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1));
+};
+
+export const annualizedVolatility = (returns: number[]): number =>
+  standardDeviation(returns) * Math.sqrt(TRADING_DAYS_PER_YEAR);
+
+// riskFreeRate is an annual fraction (0.04 = 4%)
+export const sharpeRatio = (returns: number[], riskFreeRate: number): number | null => {
+  const volatility = annualizedVolatility(returns);
+  if (volatility === 0) return null;
+  return (mean(returns) * TRADING_DAYS_PER_YEAR - riskFreeRate) / volatility;
+};
+
+// Like Sharpe, but only returns below the daily risk-free rate count as risk
+export const sortinoRatio = (returns: number[], riskFreeRate: number): number | null => {
+  if (returns.length === 0) return null;
+  const dailyRate = riskFreeRate / TRADING_DAYS_PER_YEAR;
+  const downside = Math.sqrt(returns.reduce((sum, value) => sum + Math.min(value - dailyRate, 0) ** 2, 0) / returns.length);
+  if (downside === 0) return null;
+  return (mean(returns) * TRADING_DAYS_PER_YEAR - riskFreeRate) / (downside * Math.sqrt(TRADING_DAYS_PER_YEAR));
+};
+
+export const calculateMaxDrawdown = (closes: number[]): DrawdownResult => {
+  const result: DrawdownResult = { max_drawdown: 0, peak_index: 0, trough_index: 0, recovery_index: null };
+  let peakIndex = 0;
+
+  for (let i = 1; i < closes.length; i++) {
+    if (closes[i] > closes[peakIndex]) {
+      peakIndex = i;
+      continue;
+    }
+    const drawdown = closes[peakIndex] > 0 ? 1 - closes[i] / closes[peakIndex] : 0;
+    if (drawdown > result.max_drawdown) {
+      result.max_drawdown = drawdown;
+      result.peak_index = peakIndex;
+      result.trough_index = i;
+    }
+  }
+
+  if (result.max_drawdown > 0) {
+    const peak = closes[result.peak_index];
+    for (let i = result.trough_index + 1; i < closes.length; i++) {
+      if (closes[i] >= peak) {
+        result.recovery_index = i;
+        break;
+      }
+    }
+  }
+
+  return result;
+};
+
+// Empirical quantile of the observed returns
+export const historicalVaR = (returns: number[], confidence: number): ValueAtRisk => {
+  if (returns.length === 0) return { var: 0, cvar: 0 };
+  const sorted = [...returns].sort((a, b) => a - b);
+  // The epsilon keeps float error in 1 - confidence from dropping a return, e.g. (1 - 0.8) * 10 = 1.999...
+  const cutoff = Math.max(Math.floor((1 - confidence) * sorted.length + 1e-9), 1);
+  const tail = sorted.slice(0, cutoff);
+  return {
+    var: Math.max(-sorted[cutoff - 1], 0),
+    cvar: Math.max(-mean(tail), 0),
+  };
+};
+
+// Acklam's rational approximation of the standard normal quantile (relative error < 1.2e-9)
+export const inverseNormalCDF = (p: number): number => {
+  const a = [-3.969683028665376e+01, 2.209460984245205e+02, -2.759285104469687e+02, 1.383577518672690e+02, -3.066479806614716e+01, 2.506628277459239e+00];
+  const b = [-5.447609879822406e+01, 1.615858368580409e+02, -1.556989798598866e+02, 6.680131188771972e+01, -1.328068155288572e+01];
+  const c = [-7.784894002430293e-03, -3.223964580411365e-01, -2.400758277161838e+00, -2.549732539343734e+00, 4.374664141464968e+00, 2.938163982698783e+00];
+  const d = [7.784695709041462e-03, 3.224671290700398e-01, 2.445134137142996e+00, 3.754408661907416e+00];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    return -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+};
+
+// Variance-covariance VaR assuming normally distributed returns
+export const parametricVaR = (returns: number[], confidence: number): ValueAtRisk => {
+  const average = mean(returns);
+  const deviation = standardDeviation(returns);
+  const z = inverseNormalCDF(confidence);
+  const density = Math.exp(-(z ** 2) / 2) / Math.sqrt(2 * Math.PI);
+  return {
+    var: Math.max(z * deviation - average, 0),
+    cvar: Math.max((deviation * density) / (1 - confidence) - average, 0),
+  };
+};
+
+// Null when either series is constant
+export const pearsonCorrelation = (x: number[], y: number[]): number | null => {
+  if (x.length !== y.length || x.length < 2) return null;
+  const meanX = mean(x);
+  const meanY = mean(y);
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < x.length; i++) {
+    covariance += (x[i] - meanX) * (y[i] - meanY);
+    varianceX += (x[i] - meanX) ** 2;
+    varianceY += (y[i] - meanY) ** 2;
+  }
+  if (varianceX === 0 || varianceY === 0) return null;
+  return covariance / Math.sqrt(varianceX * varianceY);
+};
+
+// Ranks starting at 1; ties share the average of their ranks
+export const rank = (values: number[]): number[] => {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const ranks = new Array<number>(values.length);
+  let i = 0;
+  while (i < order.length) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1].value === order[i].value) j++;
+    const averageRank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) ranks[order[k].index] = averageRank;
+    i = j + 1;
+  }
+  return ranks;
+};
+
+export const spearmanCorrelation = (x: number[], y: number[]): number | null =>
+  x.length !== y.length ? null : pearsonCorrelation(rank(x), rank(y));
+
+// Sensitivity of the asset's returns to the benchmark's: cov(asset, benchmark) / var(benchmark)
+export const calculateBeta = (asset: number[], benchmark: number[]): number | null => {
+  if (asset.length !== benchmark.length || asset.length < 2) return null;
+  const meanAsset = mean(asset);
+  const meanBenchmark = mean(benchmark);
+  let covariance = 0;
+  let variance = 0;
+  for (let i = 0; i < asset.length; i++) {
+    covariance += (asset[i] - meanAsset) * (benchmark[i] - meanBenchmark);
+    variance += (benchmark[i] - meanBenchmark) ** 2;
+  }
+  return variance === 0 ? null : covariance / variance;
+};
+
+// Pearson correlation over a trailing window; aligned with the inputs, null until the window is full
+export const rollingCorrelation = (x: number[], y: number[], window: number): Array<number | null> => {
+  const result: Array<number | null> = new Array(x.length).fill(null);
+  for (let i = window - 1; i < x.length; i++) {
+    result[i] = pearsonCorrelation(x.slice(i - window + 1, i + 1), y.slice(i - window + 1, i + 1));
+  }
+  return result;
+};
@@ -0,0 +1,390 @@
+// Declarative trading strategies and their backtest over daily candles.
+//
+// A rule is text such as "sma20 crosses above sma50 and rsi < 70": conditions
+// joined by "and"/"or" ("and" binds tighter). Each condition compares two
+// operands with >, <, >=, <=, "crosses above" or "crosses below". Operands are
+// numbers or series: close, volume, smaN, emaN, rsiN, macd, macd_signal,
+// macd_hist, bb_upper, bb_middle, bb_lower and volume_smaN.
+
+import {
+  IndicatorSeries,
+  calculateBollingerBands,
+  calculateEMA,
+  calculateMACD,
+  calculateRSI,
+  calculateSMA,
+} from './indicators.js';
+import { calculateMaxDrawdown } from './risk.js';
+import { validatePeriod } from './validators.js';
+
+type Operator = '>' | '<' | '>=' | '<=' | 'crosses_above' | 'crosses_below';
+
+type Operand = { kind: 'number'; value: number } | { kind: 'series'; key: string };
+
+interface Condition {
+  left: Operand;
+  operator: Operator;
+  right: Operand;
+  text: string;
+}
+
+// Alternatives (or) of conjunctions (and)
+type Rule = Condition[][];
+
+export interface StrategyDefinition {
+  name: string;
+  entry: string;
+  exit: string;
+  // Bullish conditions that raise the confidence of buys (when they hold) and sells (when they fail)
+  confirmations: string[];
+  stop_loss_percent?: number;
+  take_profit_percent?: number;
+}
+
+export interface StrategyCandle {
+  date: string;
+  close: number;
+  volume: number;
+}
+
+export interface BacktestOptions {
+  // Candles before this index only warm up the indicators
+  start_index: number;
+  initial_capital: number;
+  fee_percent: number;
+}
+
+export interface StrategySignal {
+  date: string;
+  signal: 'buy' | 'sell';
+  price: number;
+  confidence: number;
+  reason: string;
+}
+
+export interface BacktestTrade {
+  entry_date: string;
+  entry_price: number;
+  exit_date: string;
+  exit_price: number;
+  return_percent: number;
+  holding_days: number;
+  exit_reason: 'signal' | 'stop_loss' | 'take_profit' | 'end_of_period';
+  open: boolean;
+}
+
+export interface BacktestResult {
+  signals: StrategySignal[];
+  trades: BacktestTrade[];
+  equity_curve: Array<{ date: string; equity: number; in_position: boolean }>;
+  metrics: {
+    initial_capital: number;
+    final_equity: number;
+    total_return_percent: number;
+    cagr_percent: number | null;
+    max_drawdown_percent: number;
+    max_drawdown_peak_date: string | null;
+    max_drawdown_trough_date: string | null;
+    total_trades: number;
+    winning_trades: number;
+    win_rate_percent: number | null;
+    average_trade_return_percent: number | null;
+    best_trade_percent: number | null;
+    worst_trade_percent: number | null;
+    exposure_percent: number;
+    buy_and_hold_return_percent: number;
+  };
+}
+
+export const STRATEGY_PRESETS: Record<string, StrategyDefinition> = {
+  conservative: {
+    name: 'conservative',
+    entry: 'sma50 crosses above sma200 and rsi < 65',
+    exit: 'sma50 crosses below sma200 or rsi > 80',
+    confirmations: ['close > sma200', 'macd > macd_signal', 'volume > volume_sma20'],
+    stop_loss_percent: 5,
+  },
+  moderate: {
+    name: 'moderate',
+    entry: 'sma20 crosses above sma50 and rsi < 70',
+    exit: 'sma20 crosses below sma50 or rsi > 80',
+    confirmations: ['close > sma50', 'macd > macd_signal', 'volume > volume_sma20'],
+    stop_loss_percent: 8,
+  },
+  aggressive: {
+    name: 'aggressive',
+    entry: 'ema12 crosses above ema26 and rsi < 75',
+    exit: 'ema12 crosses below ema26',
+    confirmations: ['close > ema26', 'macd_hist > 0', 'volume > volume_sma20'],
+    stop_loss_percent: 12,
+    take_profit_percent: 30,
+  },
+};
+
+const OPERATORS: Record<string, Operator> = {
+  '>': '>',
+  '<': '<',
+  '>=': '>=',
+  '<=': '<=',
+  'crosses above': 'crosses_above',
+  'crosses below': 'crosses_below',
+};
+
+const round = (value: number, digits: number = 4): number => Number(value.toFixed(digits));
+
+const parseOperand = (token: string): Operand => {
+  const text = token.trim().toLowerCase().replace(/\s+/g, '');
+  if (/^-?\d+(\.\d+)?$/.test(text)) {
+    return { kind: 'number', value: parseFloat(text) };
+  }
+  if (text === 'close' || text === 'price') return { kind: 'series', key: 'close' };
+  if (text === 'volume') return { kind: 'series', key: 'volume' };
+  if (text === 'macd' || text === 'macd_line') return { kind: 'series', key: 'macd' };
+  if (text === 'macd_signal') return { kind: 'series', key: 'macd_signal' };
+  if (text === 'macd_hist' || text === 'macd_histogram') return { kind: 'series', key: 'macd_hist' };
+
+  const band = text.match(/^bb_(upper|middle|lower)$/);
+  if (band) return { kind: 'series', key: `bb_${band[1]}` };
+
+  const average = text.match(/^(sma|ema|rsi|volume_sma)_?\(?(\d+)?\)?$/);
+  if (average) {
+    const [, type, digits] = average;
+    if (!digits && (type === 'sma' || type === 'ema')) {
+      throw new Error(`'${token.trim()}' needs a period, e.g. ${type}20`);
+    }
+    const period = validatePeriod(digits ? parseInt(digits, 10) : (type === 'rsi' ? 14 : 20));
+    return { kind: 'series', key: `${type}_${period}` };
+  }
+
+  throw new Error(
+    `Unknown operand '${token.trim()}'. Use a number, close, volume, smaN, emaN, rsiN, macd, macd_signal, macd_hist, bb_upper, bb_middle, bb_lower or volume_smaN`,
+  );
+};
+
+const parseCondition = (text: string): Condition => {
+  const match = text.trim().match(/^(.+?)\s*(crosses\s+above|crosses\s+below|>=|<=|>|<)\s*(.+)$/i);
+  if (!match) {
+    throw new Error(`Invalid condition '${text.trim()}'. Expected e.g. 'sma20 crosses above sma50' or 'rsi < 70'`);
+  }
+  return {
+    left: parseOperand(match[1]),
+    operator: OPERATORS[match[2].toLowerCase().replace(/\s+/g, ' ')],
+    right: parseOperand(match[3]),
+    text: text.trim(),
+  };
+};
+
+export const parseRule = (text: string): Rule => {
+  if (!text || !text.trim()) {
+    throw new Error('Rule cannot be empty');
+  }
+  return text.split(/\s+or\s+/i).map(group => group.split(/\s+and\s+/i).map(parseCondition));
+};
+
+const seriesKeys = (rules: Rule[]): Set<string> => {
+  const keys = new Set<string>();
+  for (const rule of rules) {
+    for (const condition of rule.flat()) {
+      for (const operand of [condition.left, condition.right]) {
+        if (operand.kind === 'series') keys.add(operand.key);
+      }
+    }
+  }
+  return keys;
+};
+
+// Days of history the rules need before their first defined value
+export const requiredLookback = (strategy: StrategyDefinition): number => {
+  const rules = [strategy.entry, strategy.exit, ...strategy.confirmations].map(parseRule);
+  let lookback = 1;
+  for (const key of seriesKeys(rules)) {
+    const period = parseInt(key.split('_').pop() || '', 10);
+    if (key.startsWith('macd')) {
+      lookback = Math.max(lookback, 26 + 9);
+    } else if (key.startsWith('bb_')) {
+      lookback = Math.max(lookback, 20);
+    } else if (!isNaN(period)) {
+      lookback = Math.max(lookback, key.startsWith('rsi') ? period + 1 : period);
+    }
+  }
+  // One more day so crossovers can compare with the previous value
+  return lookback + 1;
+};
+
+const buildSeries = (candles: StrategyCandle[], keys: Set<string>): Record<string, IndicatorSeries> => {
+  const closes = candles.map(candle => candle.close);
+  const volumes = candles.map(candle => candle.volume);
+  const series: Record<string, IndicatorSeries> = { close: closes, volume: volumes };
+
+  if ([...keys].some(key => key.startsWith('macd'))) {
+    const macd = calculateMACD(closes);
+    series.macd = macd.macd;
+    series.macd_signal = macd.signal;
+    series.macd_hist = macd.histogram;
+  }
+  if ([...keys].some(key => key.startsWith('bb_'))) {
+    const bands = calculateBollingerBands(closes);
+    series.bb_upper = bands.upper;
+    series.bb_middle = bands.middle;
+    series.bb_lower = bands.lower;
+  }
+  for (const key of keys) {
+    const [type, period] = [key.slice(0, key.lastIndexOf('_')), parseInt(key.slice(key.lastIndexOf('_') + 1), 10)];
+    if (type === 'sma') series[key] = calculateSMA(closes, period);
+    if (type === 'ema') series[key] = calculateEMA(closes, period);
+    if (type === 'rsi') series[key] = calculateRSI(closes, period);
+    if (type === 'volume_sma') series[key] = calculateSMA(volumes, period);
+  }
+  return series;
+};
+
+const valueAt = (operand: Operand, series: Record<string, IndicatorSeries>, i: number): number | null =>
+  operand.kind === 'number' ? operand.value : (series[operand.key]?.[i] ?? null);
+
+const holds = (condition: Condition, series: Record<string, IndicatorSeries>, i: number): boolean => {
+  const left = valueAt(condition.left, series, i);
+  const right = valueAt(condition.right, series, i);
+  if (left === null || right === null) return false;
+
+  switch (condition.operator) {
+  case '>':
+    return left > right;
+  case '<':
+    return left < right;
+  case '>=':
+    return left >= right;
+  case '<=':
+    return left <= right;
+  case 'crosses_above':
+  case 'crosses_below': {
+    if (i === 0) return false;
+    const previousLeft = valueAt(condition.left, series, i - 1);
+    const previousRight = valueAt(condition.right, series, i - 1);
+    if (previousLeft === null || previousRight === null) return false;
+    return condition.operator === 'crosses_above'
+      ? left > right && previousLeft <= previousRight
+      : left < right && previousLeft >= previousRight;
+  }
+  default:
+    return false;
+  }
+};
+
+// Text of the first alternative that holds, or null
+const matchRule = (rule: Rule, series: Record<string, IndicatorSeries>, i: number): string | null => {
+  const group = rule.find(conditions => conditions.every(condition => holds(condition, series, i)));
+  return group ? group.map(condition => condition.text).join(' and ') : null;
+};
+
+export const runBacktest = (candles: StrategyCandle[], strategy: StrategyDefinition, options: BacktestOptions): BacktestResult => {
+  const entry = parseRule(strategy.entry);
+  const exit = parseRule(strategy.exit);
+  const confirmations = strategy.confirmations.map(parseRule);
+  const series = buildSeries(candles, seriesKeys([entry, exit, ...confirmations]));
+
+  // Buys get more confident the more confirmations hold, sells the more of them fail
+  const confidence = (i: number, signal: 'buy' | 'sell'): number => {
+    if (confirmations.length === 0) return 50;
+    const holding = confirmations.filter(rule => matchRule(rule, series, i) !== null).length;
+    const agreeing = signal === 'buy' ? holding : confirmations.length - holding;
+    return Math.round(50 + (50 * agreeing) / confirmations.length);
+  };
+
+  const fee = options.fee_percent / 100;
+  const signals: StrategySignal[] = [];
+  const trades: BacktestTrade[] = [];
+  const equityCurve: BacktestResult['equity_curve'] = [];
+  let cash = options.initial_capital;
+  let units = 0;
+  let position: { index: number; price: number } | null = null;
+  let daysInPosition = 0;
+
+  const close = (i: number, reason: BacktestTrade['exit_reason']): void => {
+    if (!position) return;
+    const price = candles[i].close;
+    cash = units * price * (1 - fee);
+    units = 0;
+    trades.push({
+      entry_date: candles[position.index].date,
+      entry_price: position.price,
+      exit_date: candles[i].date,
+      exit_price: price,
+      return_percent: round(((price * (1 - fee)) / (position.price / (1 - fee)) - 1) * 100),
+      holding_days: i - position.index,
+      exit_reason: reason,
+      open: reason === 'end_of_period',
+    });
+    position = null;
+  };
+
+  for (let i = options.start_index; i < candles.length; i++) {
+    const price = candles[i].close;
+
+    if (position) {
+      daysInPosition++;
+      const change = (price / position.price - 1) * 100;
+      const exitReason = matchRule(exit, series, i);
+      if (strategy.stop_loss_percent !== undefined && change <= -strategy.stop_loss_percent) {
+        signals.push({ date: candles[i].date, signal: 'sell', price, confidence: 100, reason: `stop loss (${strategy.stop_loss_percent}%)` });
+        close(i, 'stop_loss');
+      } else if (strategy.take_profit_percent !== undefined && change >= strategy.take_profit_percent) {
+        signals.push({ date: candles[i].date, signal: 'sell', price, confidence: 100, reason: `take profit (${strategy.take_profit_percent}%)` });
+        close(i, 'take_profit');
+      } else if (exitReason) {
+        signals.push({ date: candles[i].date, signal: 'sell', price, confidence: confidence(i, 'sell'), reason: exitReason });
+        close(i, 'signal');
+      }
+    } else {
+      const entryReason = matchRule(entry, series, i);
+      if (entryReason) {
+        signals.push({ date: candles[i].date, signal: 'buy', price, confidence: confidence(i, 'buy'), reason: entryReason });
+        units = (cash * (1 - fee)) / price;
+        cash = 0;
+        position = { index: i, price };
+      }
+    }
+
+    equityCurve.push({ date: candles[i].date, equity: round(cash + units * price, 2), in_position: position !== null });
+  }
+
+  // An open position is valued at the last close as if sold there
+  const lastIndex = candles.length - 1;
+  if (position && lastIndex >= options.start_index) {
+    close(lastIndex, 'end_of_period');
+    equityCurve[equityCurve.length - 1].equity = round(cash, 2);
+  }
+
+  const equities = equityCurve.map(point => point.equity);
+  const finalEquity = equities.length > 0 ? equities[equities.length - 1] : options.initial_capital;
+  const drawdown = calculateMaxDrawdown(equities);
+  const firstDate = candles[options.start_index]?.date;
+  const lastDate = candles[lastIndex]?.date;
+  const years = firstDate && lastDate ? (Date.parse(lastDate) - Date.parse(firstDate)) / (365 * 24 * 60 * 60 * 1000) : 0;
+  const returns = trades.map(trade => trade.return_percent);
+  const wins = returns.filter(value => value > 0).length;
+
+  return {
+    signals,
+    trades,
+    equity_curve: equityCurve,
+    metrics: {
+      initial_capital: options.initial_capital,
+      final_equity: finalEquity,
+      total_return_percent: round((finalEquity / options.initial_capital - 1) * 100),
+      cagr_percent: years > 0 ? round(((finalEquity / options.initial_capital) ** (1 / years) - 1) * 100) : null,
+      max_drawdown_percent: round(drawdown.max_drawdown * 100),
+      max_drawdown_peak_date: drawdown.max_drawdown > 0 ? equityCurve[drawdown.peak_index].date : null,
+      max_drawdown_trough_date: drawdown.max_drawdown > 0 ? equityCurve[drawdown.trough_index].date : null,
+      total_trades: trades.length,
+      winning_trades: wins,
+      win_rate_percent: trades.length > 0 ? round((wins / trades.length) * 100, 2) : null,
+      average_trade_return_percent: trades.length > 0 ? round(returns.reduce((sum, value) => sum + value, 0) / trades.length) : null,
+      best_trade_percent: trades.length > 0 ? Math.max(...returns) : null,
+      worst_trade_percent: trades.length > 0 ? Math.min(...returns) : null,
+      exposure_percent: equityCurve.length > 0 ? round((daysInPosition / equityCurve.length) * 100, 2) : 0,
+      buy_and_hold_return_percent: firstDate && candles[options.start_index].close > 0
+        ? round((candles[lastIndex].close / candles[options.start_index].close - 1) * 100)
+        : 0,
+    },
+  };
+};
@@ -0,0 +1,110 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FileCacheBackend } from '../../src/api/cache-backends.js';
+
+describe('FileCacheBackend', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    // Only the clock is faked; file system promises still need real timers
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.UTC(2026, 0, 1));
+    directory = await fs.mkdtemp(join(tmpdir(), 'cmc-file-cache-'));
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('stores values as one file per key and reads them back', async () => {
+    const cache = new FileCacheBackend(directory);
+    expect(await cache.set('quotes:btc', { price: 50000 }, 60)).toBe(true);
+
+    expect(await cache.get('quotes:btc')).toEqual({ price: 50000 });
+    expect(await cache.get('quotes:eth')).toBeUndefined();
+    expect(cache.has('quotes:btc')).toBe(true);
+    expect(cache.getTtl('quotes:btc')).toBe(Date.now() + 60000);
+    expect((await fs.readdir(directory)).filter(file => file.endsWith('.json'))).toHaveLength(1);
+    expect(cache.getStats()).toMatchObject({ backend: 'file', persistent: true, keys: 1, hits: 1, misses: 1 });
+  });
+
+  it('rebuilds its index from disk so TTLs carry over a restart', async () => {
+    const first = new FileCacheBackend(directory);
+    await first.set('short', 'a', 60);
+    await first.set('long', 'b', 3600);
+    await first.set('permanent', 'c', 0);
+
+    vi.setSystemTime(Date.now() + 120000);
+    const second = new FileCacheBackend(directory);
+
+    expect(await second.get('long')).toBe('b');
+    expect(await second.get('permanent')).toBe('c');
+    expect(await second.get('short')).toBeUndefined();
+    expect(second.keys().sort()).toEqual(['long', 'permanent']);
+    expect(second.getTtl('permanent')).toBe(0);
+    expect(second.getStats().permanentKeys).toBe(1);
+    // The expired entry was removed from disk while loading
+    expect((await fs.readdir(directory)).filter(file => file.endsWith('.json'))).toHaveLength(2);
+  });
+
+  it('drops leftover temp files and unreadable entries when loading', async () => {
+    await fs.writeFile(join(directory, 'abc.json.123.1.tmp'), '{"key":', 'utf8');
+    await fs.writeFile(join(directory, 'corrupt.json'), 'not json', 'utf8');
+
+    const cache = new FileCacheBackend(directory);
+    // Reads wait for the index scan
+    expect(await cache.get('anything')).toBeUndefined();
+
+    expect(cache.keys()).toEqual([]);
+    expect(await fs.readdir(directory)).toEqual([]);
+  });
+
+  it('treats an entry whose file disappeared as a miss', async () => {
+    const cache = new FileCacheBackend(directory);
+    await cache.set('key', 'value', 60);
+    for (const file of await fs.readdir(directory)) {
+      await fs.rm(join(directory, file));
+    }
+
+    expect(await cache.get('key')).toBeUndefined();
+    expect(cache.has('key')).toBe(false);
+  });
+
+  it('expires entries at their TTL', async () => {
+    const cache = new FileCacheBackend(directory);
+    await cache.set('key', 'value', 60);
+
+    vi.setSystemTime(Date.now() + 60000);
+    expect(cache.has('key')).toBe(false);
+    expect(await cache.get('key')).toBeUndefined();
+    expect(await fs.readdir(directory)).toEqual([]);
+  });
+
+  it('evicts the oldest entries beyond maxKeys', async () => {
+    const cache = new FileCacheBackend(directory, 2);
+    for (const key of ['a', 'b', 'c']) {
+      await cache.set(key, key, 0);
+      vi.setSystemTime(Date.now() + 1000);
+    }
+
+    expect(cache.keys().sort()).toEqual(['b', 'c']);
+    expect(await fs.readdir(directory)).toHaveLength(2);
+  });
+
+  it('deletes and flushes entries on disk', async () => {
+    const cache = new FileCacheBackend(directory);
+    await cache.set('a', 1, 60);
+    await cache.set('b', 2, 60);
+    await cache.set('c', 3, 60);
+
+    expect(await cache.del(['a', 'missing'])).toBe(1);
+    expect(cache.keys().sort()).toEqual(['b', 'c']);
+
+    await cache.flush();
+    expect(cache.keys()).toEqual([]);
+    expect(await fs.readdir(directory)).toEqual([]);
+  });
+});
@@ -0,0 +1,127 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CacheManager } from '../../src/api/cache.js';
+import { CandleHistory } from '../../src/api/candle-history.js';
+import { CoinMarketCapClient } from '../../src/api/client.js';
+import { CoinRegistry } from '../../src/api/coin-registry.js';
+import { ApiTierManager } from '../../src/config/api-tiers.js';
+import { CandleStore } from '../../src/storage/candle-store.js';
+import { OhlcvCandle } from '../../src/types/index.js';
+
+const BTC = { id: 1, symbol: 'BTC' };
+
+const candle = (day: string, close: number): OhlcvCandle => ({
+  time_open: `${day}T00:00:00.000Z`,
+  quote: { USD: { close } },
+});
+
+const closes = (candles: OhlcvCandle[]) => candles.map(c => [c.time_open?.slice(0, 10), c.quote?.USD?.close]);
+
+describe('CandleHistory', () => {
+  let directory: string;
+  let store: CandleStore;
+  let history: CandleHistory;
+  // Days the fake API has candles for
+  let available: Map<string, OhlcvCandle>;
+  const requests: Array<{ time_start: string; time_end: string }> = [];
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-01-20T12:00:00Z'));
+    directory = await fs.mkdtemp(join(tmpdir(), 'cmc-candle-history-'));
+    store = new CandleStore(directory);
+    available = new Map();
+    requests.length = 0;
+
+    const client = {
+      getCryptocurrencyOHLCVHistorical: vi.fn(async (params: { time_start: string; time_end: string }) => {
+        requests.push({ time_start: params.time_start, time_end: params.time_end });
+        const quotes = Array.from(available.entries())
+          .filter(([day]) => day >= params.time_start && day <= params.time_end)
+          .map(([, quote]) => quote);
+        return { data: { id: 1, symbol: 'BTC', quotes } };
+      }),
+    } as unknown as CoinMarketCapClient;
+
+    const entries = new Map<string, unknown>();
+    const cache = {
+      generateCacheKey: (method: string, params: Record<string, unknown>) => `${method}:${JSON.stringify(params)}`,
+      get: async (key: string) => entries.get(key),
+      set: async (key: string, value: unknown) => entries.set(key, value),
+    } as unknown as CacheManager;
+
+    const tierManager = {
+      resolveHistoricalRange: (start: Date, end: Date) => ({ start, end }),
+    } as unknown as ApiTierManager;
+
+    history = new CandleHistory(client, cache, store, tierManager, {} as CoinRegistry);
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  const range = (startDay: string, endDay: string) =>
+    history.getDailyCandles(BTC, new Date(`${startDay}T00:00:00Z`), new Date(`${endDay}T00:00:00Z`));
+
+  it('fetches only the missing segments of a range and serves the rest from the store', async () => {
+    for (let day = 1; day <= 9; day++) {
+      available.set(`2025-01-0${day}`, candle(`2025-01-0${day}`, day));
+    }
+    await store.putCandles(1, 'daily', new Map([
+      ['2025-01-01', candle('2025-01-01', 1)],
+      ['2025-01-02', candle('2025-01-02', 2)],
+      ['2025-01-05', candle('2025-01-05', 5)],
+    ]));
+
+    const candles = await range('2025-01-01', '2025-01-07');
+
+    expect(closes(candles)).toEqual([1, 2, 3, 4, 5, 6, 7].map(day => [`2025-01-0${day}`, day]));
+    // Each segment is asked for from the day before its first missing day
+    expect(requests).toEqual([
+      { time_start: '2025-01-02', time_end: '2025-01-04' },
+      { time_start: '2025-01-05', time_end: '2025-01-07' },
+    ]);
+
+    requests.length = 0;
+    expect(closes(await range('2025-01-01', '2025-01-07'))).toHaveLength(7);
+    expect(requests).toEqual([]);
+  });
+
+  it('records settled days without data so they are not requested again', async () => {
+    available.set('2025-01-03', candle('2025-01-03', 3));
+
+    expect(closes(await range('2025-01-01', '2025-01-03'))).toEqual([['2025-01-03', 3]]);
+    const stored = await store.getCandles(1, 'daily', ['2025-01-01', '2025-01-02']);
+    expect(Array.from(stored.values())).toEqual([null, null]);
+
+    requests.length = 0;
+    await range('2025-01-01', '2025-01-03');
+    expect(requests).toEqual([]);
+  });
+
+  it('asks again for recent days the API has not published yet', async () => {
+    // 2025-01-19 closed less than two days ago, so its absence is not recorded
+    expect(await range('2025-01-19', '2025-01-19')).toEqual([]);
+    expect((await store.getCandles(1, 'daily', ['2025-01-19'])).size).toBe(0);
+
+    available.set('2025-01-19', candle('2025-01-19', 19));
+    expect(closes(await range('2025-01-19', '2025-01-19'))).toEqual([['2025-01-19', 19]]);
+    expect(requests).toHaveLength(2);
+  });
+
+  it('never stores the open candle for today, only caches it', async () => {
+    available.set('2025-01-19', candle('2025-01-19', 19));
+    available.set('2025-01-20', candle('2025-01-20', 20));
+
+    expect(closes(await range('2025-01-19', '2025-01-20'))).toEqual([['2025-01-19', 19], ['2025-01-20', 20]]);
+    expect((await store.getCandles(1, 'daily', ['2025-01-20'])).size).toBe(0);
+
+    requests.length = 0;
+    await range('2025-01-19', '2025-01-20');
+    expect(requests).toEqual([]);
+  });
+});
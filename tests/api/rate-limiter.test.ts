@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RequestQueue } from '../../src/api/rate-limiter.js';
+
+describe('RequestQueue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('releases queued requests by priority, then in arrival order', async () => {
+    // One token per second and no burst, so everything after the first request waits
+    const queue = new RequestQueue({ maxRequestsPerMinute: 60, burstSize: 1 });
+    const started: string[] = [];
+    const run = (label: string) => async () => {
+      started.push(label);
+      return label;
+    };
+
+    const requests = [
+      queue.schedule(run('first'), 'low'),
+      queue.schedule(run('low'), 'low'),
+      queue.schedule(run('normal-1')),
+      queue.schedule(run('normal-2')),
+      queue.schedule(run('high'), 'high'),
+    ];
+    expect(started).toEqual(['first']);
+    expect(queue.getStats().queuedByPriority).toEqual({ high: 1, normal: 2, low: 1 });
+
+    await vi.advanceTimersByTimeAsync(4000);
+    await Promise.all(requests);
+    expect(started).toEqual(['first', 'high', 'normal-1', 'normal-2', 'low']);
+  });
+
+  it('rejects a request that cannot start before its deadline', async () => {
+    const queue = new RequestQueue({ maxRequestsPerMinute: 1 });
+    await queue.schedule(async () => 'sent');
+
+    const waiting = queue.schedule(async () => 'late', 'normal', 5000);
+    const outcome = expect(waiting).rejects.toThrow('Rate limit exceeded: request waited 5s in the queue (1 requests per minute)');
+    await vi.advanceTimersByTimeAsync(5000);
+    await outcome;
+
+    expect(queue.getQueueDepth()).toBe(0);
+    expect(queue.getStats().timedOutRequests).toBe(1);
+  });
+
+  it('holds every request while paused', async () => {
+    const queue = new RequestQueue({ maxRequestsPerMinute: 60 });
+    queue.pause(3000);
+    const task = vi.fn(async () => 'ok');
+    const request = queue.schedule(task);
+
+    await vi.advanceTimersByTimeAsync(2900);
+    expect(task).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(200);
+    await expect(request).resolves.toBe('ok');
+  });
+
+  it('keeps the requests already sent in the window when the rate limit changes', async () => {
+    const queue = new RequestQueue({ maxRequestsPerMinute: 2 });
+    await Promise.all([queue.schedule(async () => 1), queue.schedule(async () => 2)]);
+
+    queue.setRateLimit(3);
+    expect(queue.getRateLimit()).toBe(3);
+    expect(queue.getStats().window.currentRequests).toBe(2);
+
+    const started: string[] = [];
+    const requests = ['a', 'b'].map(label => queue.schedule(async () => {
+      started.push(label);
+    }, 'normal', 120000));
+
+    // Tokens refill every 20s at 3 per minute; the third slot of the window opens first
+    await vi.advanceTimersByTimeAsync(20000);
+    expect(started).toEqual(['a']);
+
+    // A fresh window would let 'b' go with the next token; the two earlier requests hold it back
+    await vi.advanceTimersByTimeAsync(20000);
+    expect(started).toEqual(['a']);
+
+    await vi.advanceTimersByTimeAsync(20001);
+    await Promise.all(requests);
+    expect(started).toEqual(['a', 'b']);
+  });
+});
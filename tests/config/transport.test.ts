@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { resolveTransportConfig } from '../../src/config/transport.js';
+
+describe('resolveTransportConfig', () => {
+  it('refuses a price stream beyond loopback without a token in any transport mode', () => {
+    expect(() => resolveTransportConfig(['--host', '0.0.0.0', '--ws-port', '3001'], {}))
+      .toThrow('Refusing to serve the price stream on 0.0.0.0 without authentication');
+    expect(() => resolveTransportConfig([], { MCP_TRANSPORT: 'stdio', HOST: '0.0.0.0', PRICE_STREAM_PORT: '3001' }))
+      .toThrow('Refusing to serve the price stream');
+  });
+
+  it('allows the price stream on loopback, or beyond it with a token', () => {
+    expect(resolveTransportConfig(['--ws-port', '3001'], {}).wsPort).toBe(3001);
+    expect(resolveTransportConfig(['--host', '0.0.0.0', '--ws-port=3001'], { MCP_AUTH_TOKEN: 'secret' }).authToken).toBe('secret');
+  });
+
+  it('refuses HTTP transports beyond loopback without a token', () => {
+    expect(() => resolveTransportConfig(['--transport', 'http', '--host', '0.0.0.0'], {}))
+      .toThrow('Refusing to serve MCP on 0.0.0.0 without authentication');
+    expect(() => resolveTransportConfig([], { MCP_TRANSPORT: 'sse', HOST: '192.168.1.10' }))
+      .toThrow('Refusing to serve MCP on 192.168.1.10');
+    expect(resolveTransportConfig(['--transport=http'], {}).authToken).toBeUndefined();
+  });
+
+  it('trusts loopback, a named bind host and configured hosts, but not a wildcard bind', () => {
+    const named = resolveTransportConfig(['--transport', 'http', '--host', 'mcp.internal'], {
+      MCP_AUTH_TOKEN: 'secret',
+      MCP_ALLOWED_HOSTS: 'proxy.example.com',
+      MCP_ALLOWED_ORIGINS: 'https://app.example.org',
+    });
+    expect(named.allowedHosts).toEqual(expect.arrayContaining(['localhost', '127.0.0.1', 'mcp.internal', 'proxy.example.com']));
+    expect(named.allowedOrigins).toEqual(['https://app.example.org']);
+
+    const wildcard = resolveTransportConfig(['--transport', 'http', '--host', '0.0.0.0'], { MCP_AUTH_TOKEN: 'secret' });
+    expect(wildcard.allowedHosts).not.toContain('0.0.0.0');
+  });
+});
@@ -0,0 +1,11 @@
+// Shared setup for the unit tests. Tests never reach the CoinMarketCap API, so
+// the environment is pinned to a dummy key and the default free tier. Stores
+// that fall back to the data directory write under the temp directory instead
+// of the home directory.
+
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+process.env.CMC_API_KEY = 'test-api-key';
+process.env.CMC_API_TIER = 'free';
+process.env.DATA_DIR = join(tmpdir(), `cmc-mcp-tests-${process.pid}`);
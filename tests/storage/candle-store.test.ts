@@ -0,0 +1,60 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { CandleStore, StoredCandle } from '../../src/storage/candle-store.js';
+
+describe('CandleStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(join(tmpdir(), 'cmc-candles-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('returns only the stored days, including days recorded as having no candle', async () => {
+    const store = new CandleStore(directory);
+    await store.putCandles(1, 'daily', new Map<string, StoredCandle>([
+      ['2025-01-01', { close: 100 }],
+      ['2025-01-02', null],
+    ]));
+
+    const candles = await store.getCandles(1, 'daily', ['2025-01-01', '2025-01-02', '2025-01-03']);
+    expect(Array.from(candles.entries())).toEqual([
+      ['2025-01-01', { close: 100 }],
+      ['2025-01-02', null],
+    ]);
+  });
+
+  it('keeps one file per coin, interval and currency across instances', async () => {
+    const first = new CandleStore(directory);
+    await first.putCandles(1, 'daily', new Map([['2025-01-01', { close: 100 }]]));
+    await first.putCandles(1, 'daily', new Map([['2025-01-01', { close: 90 }]]), 'EUR');
+
+    // USD series keep the file name used before other currencies were stored
+    expect((await fs.readdir(directory)).sort()).toEqual(['1-daily-EUR.json', '1-daily.json']);
+
+    const second = new CandleStore(directory);
+    expect((await second.getCandles(1, 'daily', ['2025-01-01'])).get('2025-01-01')).toEqual({ close: 100 });
+    expect((await second.getCandles(1, 'daily', ['2025-01-01'], 'EUR')).get('2025-01-01')).toEqual({ close: 90 });
+    expect((await second.getStats()).series).toBe(2);
+  });
+
+  it('remembers symbols case-insensitively', async () => {
+    await new CandleStore(directory).rememberSymbol('btc', 1);
+
+    const store = new CandleStore(directory);
+    expect(await store.resolveCoinId('BTC')).toBe(1);
+    expect(await store.resolveCoinId('ETH')).toBeUndefined();
+  });
+
+  it('starts a series empty when its file is corrupt', async () => {
+    await fs.writeFile(join(directory, '1-daily.json'), '{"candles":', 'utf8');
+
+    const store = new CandleStore(directory);
+    expect((await store.getCandles(1, 'daily', ['2025-01-01'])).size).toBe(0);
+  });
+});
@@ -0,0 +1,88 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { CreditLedger, monthOf } from '../../src/storage/credit-ledger.js';
+
+describe('CreditLedger', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'credit-ledger-'));
+    file = join(dir, 'credits.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const readFile = async () => JSON.parse(await fs.readFile(file, 'utf8'));
+
+  it('leaves the file alone when flushed without loading', async () => {
+    const history = {
+      version: 1,
+      months: { '2024-01': { month: '2024-01', credits: 42, calls: 40, by_endpoint: {}, by_tool: {}, by_day: {} } },
+    };
+    await fs.writeFile(file, JSON.stringify(history), 'utf8');
+
+    await new CreditLedger(file).flush();
+
+    expect(await readFile()).toEqual(history);
+  });
+
+  it('counts credits per endpoint, tool and day and persists them', async () => {
+    const ledger = new CreditLedger(file);
+    await ledger.record('/v1/cryptocurrency/quotes/latest', 'get_crypto_price', 1);
+    await ledger.record('/v1/cryptocurrency/quotes/latest', 'get_crypto_price', 2, 9997);
+    await ledger.record('/v1/global-metrics/quotes/latest', 'get_market_overview', 1);
+    await ledger.flush();
+
+    const month = monthOf();
+    const usage = (await readFile()).months[month];
+    expect(usage).toMatchObject({ month, credits: 4, calls: 3, reported_remaining: 9997 });
+    expect(usage.by_endpoint['/v1/cryptocurrency/quotes/latest']).toEqual({ credits: 3, calls: 2 });
+    expect(usage.by_tool.get_market_overview).toEqual({ credits: 1, calls: 1 });
+    expect(Object.values(usage.by_day)).toEqual([{ credits: 4, calls: 3 }]);
+  });
+
+  it('adds to the history already on disk', async () => {
+    const first = new CreditLedger(file);
+    await first.record('/v1/key/info', 'tier_detection', 1);
+    await first.flush();
+
+    const second = new CreditLedger(file);
+    await second.record('/v1/key/info', 'tier_detection', 1);
+    await second.flush();
+
+    expect((await readFile()).months[monthOf()].credits).toBe(2);
+    expect(await second.getAverageCredits('/v1/key/info')).toBe(1);
+    expect(await second.getAverageCredits('/v1/unknown')).toBeUndefined();
+  });
+
+  it('keeps only the most recent 13 months', async () => {
+    const months: Record<string, unknown> = {};
+    // 2020-01 to 2021-02
+    for (let i = 0; i < 14; i++) {
+      const month = monthOf(new Date(Date.UTC(2020, i, 1)));
+      months[month] = { month, credits: 1, calls: 1, by_endpoint: {}, by_tool: {}, by_day: {} };
+    }
+    await fs.writeFile(file, JSON.stringify({ version: 1, months }), 'utf8');
+
+    const ledger = new CreditLedger(file);
+    await ledger.record('/v1/key/info', 'tier_detection', 1);
+    await ledger.flush();
+
+    const kept = await ledger.listMonths();
+    expect(kept).toHaveLength(13);
+    expect(kept).not.toContain('2020-01');
+    expect(kept).not.toContain('2020-02');
+    expect(kept).toContain(monthOf());
+  });
+
+  it('starts empty from a corrupt file', async () => {
+    await fs.writeFile(file, '{not json', 'utf8');
+    const ledger = new CreditLedger(file);
+    expect(await ledger.listMonths()).toEqual([]);
+  });
+});
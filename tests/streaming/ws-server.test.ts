@@ -0,0 +1,76 @@
+import { createServer } from 'net';
+import WebSocket from 'ws';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { PricePoller } from '../../src/streaming/price-poller.js';
+import { PriceStreamServer } from '../../src/streaming/ws-server.js';
+
+const TOKEN = 'stream-secret';
+
+const freePort = (): Promise<number> => new Promise((resolve, reject) => {
+  const probe = createServer();
+  probe.once('error', reject);
+  probe.listen(0, '127.0.0.1', () => {
+    const { port } = probe.address() as { port: number };
+    probe.close(() => resolve(port));
+  });
+});
+
+// Resolves with the HTTP status of a rejected upgrade, or 101 once the socket opens
+const connect = (port: number, headers: Record<string, string>): Promise<number> => new Promise(resolve => {
+  const socket = new WebSocket(`ws://127.0.0.1:${port}`, { headers });
+  socket.once('open', () => {
+    socket.close();
+    resolve(101);
+  });
+  socket.once('unexpected-response', (_req, res) => resolve(res.statusCode || 0));
+  socket.once('error', () => undefined);
+});
+
+describe('PriceStreamServer', () => {
+  let server: PriceStreamServer | null = null;
+  const poller = {
+    getPollIntervalMs: () => 60000,
+    getStatus: () => ({}),
+    subscribe: vi.fn(() => () => undefined),
+  } as unknown as PricePoller;
+
+  afterEach(async () => {
+    await server?.stop();
+    server = null;
+  });
+
+  const start = async (authToken?: string): Promise<number> => {
+    const port = await freePort();
+    server = new PriceStreamServer(poller, {
+      host: '127.0.0.1',
+      port,
+      authToken,
+      allowedHosts: ['localhost', '127.0.0.1'],
+      allowedOrigins: [],
+    });
+    await server.start();
+    return port;
+  };
+
+  it('requires the bearer token when one is configured', async () => {
+    const port = await start(TOKEN);
+
+    expect(await connect(port, {})).toBe(401);
+    expect(await connect(port, { Authorization: 'Bearer wrong-secret' })).toBe(401);
+    expect(await connect(port, { Authorization: `Bearer ${TOKEN}` })).toBe(101);
+  });
+
+  it('rejects foreign Host and Origin headers', async () => {
+    const port = await start(TOKEN);
+    const auth = { Authorization: `Bearer ${TOKEN}` };
+
+    expect(await connect(port, { ...auth, Host: 'evil.example.com' })).toBe(403);
+    expect(await connect(port, { ...auth, Origin: 'https://evil.example.com' })).toBe(403);
+    expect(await connect(port, { ...auth, Origin: 'http://localhost:8080' })).toBe(101);
+  });
+
+  it('accepts loopback clients without a token when none is configured', async () => {
+    const port = await start();
+    expect(await connect(port, {})).toBe(101);
+  });
+});
@@ -0,0 +1,116 @@
+import { request } from 'http';
+import { createServer } from 'net';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { afterEach, describe, expect, it } from 'vitest';
+import { resolveTransportConfig } from '../../src/config/transport.js';
+import { McpHttpServer } from '../../src/transport/http-server.js';
+
+const freePort = (): Promise<number> => new Promise((resolve, reject) => {
+  const probe = createServer();
+  probe.once('error', reject);
+  probe.listen(0, '127.0.0.1', () => {
+    const { port } = probe.address() as { port: number };
+    probe.close(() => resolve(port));
+  });
+});
+
+// Raw request so the Host header can be set, which fetch does not allow
+const send = (url: string, headers: Record<string, string>): Promise<{ status: number; authenticate?: string }> =>
+  new Promise((resolve, reject) => {
+    const req = request(url, { headers }, res => {
+      res.resume();
+      res.on('end', () => resolve({ status: res.statusCode || 0, authenticate: res.headers['www-authenticate'] }));
+    });
+    req.once('error', reject);
+    req.end();
+  });
+
+const initializeBody = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+};
+
+describe('McpHttpServer', () => {
+  let httpServer: McpHttpServer | null = null;
+  const open = new Set<Server>();
+
+  const start = async (env: Record<string, string> = {}): Promise<string> => {
+    const port = await freePort();
+    httpServer = new McpHttpServer({
+      config: resolveTransportConfig(['--transport', 'http', '--port', String(port)], env),
+      createMcpServer: () => {
+        const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: {} });
+        open.add(server);
+        server.onclose = () => open.delete(server);
+        return server;
+      },
+      getHealth: () => ({}),
+    });
+    await httpServer.start();
+    return `http://127.0.0.1:${port}`;
+  };
+
+  afterEach(async () => {
+    await httpServer?.stop();
+    httpServer = null;
+    open.clear();
+  });
+
+  it('closes the MCP server of an initialize that never opens a session', async () => {
+    const base = await start();
+    const response = await fetch(`${base}/mcp`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', accept: 'text/plain' },
+      body: JSON.stringify(initializeBody),
+    });
+
+    expect(response.status).toBe(406);
+    expect(open.size).toBe(0);
+  });
+
+  it('keeps the MCP server of a successful initialize', async () => {
+    const base = await start();
+    const response = await fetch(`${base}/mcp`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', accept: 'application/json, text/event-stream' },
+      body: JSON.stringify(initializeBody),
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('mcp-session-id')).toBeTruthy();
+    await response.text();
+    expect(open.size).toBe(1);
+  });
+
+  it('requires the bearer token past /health when one is configured', async () => {
+    const base = await start({ MCP_AUTH_TOKEN: 'secret-token' });
+
+    expect(await send(`${base}/health`, {})).toMatchObject({ status: 200 });
+    expect(await send(`${base}/mcp`, {})).toEqual({ status: 401, authenticate: 'Bearer' });
+    expect(await send(`${base}/mcp`, { authorization: 'Bearer wrong-token' })).toMatchObject({ status: 401 });
+
+    const response = await fetch(`${base}/mcp`, {
+      method: 'POST',
+      headers: {
+        authorization: 'Bearer secret-token',
+        'content-type': 'application/json',
+        accept: 'application/json, text/event-stream',
+      },
+      body: JSON.stringify(initializeBody),
+    });
+    expect(response.status).toBe(200);
+    await response.text();
+  });
+
+  it('rejects foreign Host and Origin headers on every route, /health included', async () => {
+    const base = await start({ MCP_AUTH_TOKEN: 'secret-token' });
+    const authorization = 'Bearer secret-token';
+
+    expect(await send(`${base}/health`, { host: 'attacker.example' })).toMatchObject({ status: 403 });
+    expect(await send(`${base}/mcp`, { host: 'attacker.example', authorization })).toMatchObject({ status: 403 });
+    expect(await send(`${base}/mcp`, { origin: 'http://attacker.example', authorization })).toMatchObject({ status: 403 });
+    expect(await send(`${base}/health`, { host: 'localhost:1234', origin: 'http://localhost:5173' })).toMatchObject({ status: 200 });
+  });
+});
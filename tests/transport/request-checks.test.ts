@@ -0,0 +1,54 @@
+import { IncomingMessage } from 'http';
+import { describe, expect, it } from 'vitest';
+import { isAuthorized, RequestCheckConfig, validateHostAndOrigin } from '../../src/transport/request-checks.js';
+
+const config: RequestCheckConfig = {
+  authToken: 'secret-token',
+  allowedHosts: ['localhost', '127.0.0.1', '[::1]', 'mcp.example.com'],
+  allowedOrigins: ['https://app.example.org'],
+};
+
+const request = (headers: Record<string, string>) => ({ headers } as IncomingMessage);
+
+describe('validateHostAndOrigin', () => {
+  it('accepts allowed hosts on any port', () => {
+    expect(validateHostAndOrigin(request({ host: 'localhost:3000' }), config)).toBeUndefined();
+    expect(validateHostAndOrigin(request({ host: '[::1]:3000' }), config)).toBeUndefined();
+    expect(validateHostAndOrigin(request({ host: 'mcp.example.com' }), config)).toBeUndefined();
+  });
+
+  it('rejects a missing, malformed or unknown Host', () => {
+    expect(validateHostAndOrigin(request({}), config)).toBe('Missing Host header');
+    expect(validateHostAndOrigin(request({ host: 'bad host' }), config)).toBe('Invalid Host header: bad host');
+    expect(validateHostAndOrigin(request({ host: 'attacker.example:3000' }), config)).toBe('Invalid Host: attacker.example');
+  });
+
+  it('accepts origins on an allowed host or listed explicitly', () => {
+    expect(validateHostAndOrigin(request({ host: 'localhost', origin: 'http://localhost:5173' }), config)).toBeUndefined();
+    expect(validateHostAndOrigin(request({ host: 'localhost', origin: 'https://app.example.org' }), config)).toBeUndefined();
+  });
+
+  it('rejects other origins, as a rebinding page would send', () => {
+    expect(validateHostAndOrigin(request({ host: 'localhost', origin: 'http://attacker.example' }), config))
+      .toBe('Invalid Origin: http://attacker.example');
+    expect(validateHostAndOrigin(request({ host: 'localhost', origin: 'null' }), config)).toBe('Invalid Origin: null');
+  });
+});
+
+describe('isAuthorized', () => {
+  it('accepts the configured bearer token', () => {
+    expect(isAuthorized(request({ authorization: 'Bearer secret-token' }), config)).toBe(true);
+    expect(isAuthorized(request({ authorization: 'bearer  secret-token ' }), config)).toBe(true);
+  });
+
+  it('rejects a missing, wrong or non-bearer credential', () => {
+    expect(isAuthorized(request({}), config)).toBe(false);
+    expect(isAuthorized(request({ authorization: 'Bearer secret-tokeN' }), config)).toBe(false);
+    expect(isAuthorized(request({ authorization: 'Bearer secret' }), config)).toBe(false);
+    expect(isAuthorized(request({ authorization: 'Basic secret-token' }), config)).toBe(false);
+  });
+
+  it('lets every request through when no token is configured', () => {
+    expect(isAuthorized(request({}), { ...config, authToken: undefined })).toBe(true);
+  });
+});
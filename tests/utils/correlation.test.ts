@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateBeta,
+  pearsonCorrelation,
+  rank,
+  rollingCorrelation,
+  spearmanCorrelation,
+} from '../../src/utils/risk.js';
+
+describe('pearsonCorrelation', () => {
+  it('is 1 or -1 for exact linear relationships', () => {
+    expect(pearsonCorrelation([1, 2, 3, 4, 5], [2, 4, 6, 8, 10])).toBeCloseTo(1, 12);
+    expect(pearsonCorrelation([1, 2, 3, 4, 5], [10, 8, 6, 4, 2])).toBeCloseTo(-1, 12);
+  });
+
+  it('divides the covariance by both deviations', () => {
+    // Covariance 8, variances 10 and 10
+    expect(pearsonCorrelation([1, 2, 3, 4, 5], [2, 1, 4, 3, 5])).toBeCloseTo(0.8, 12);
+  });
+
+  it('is null for constant, mismatched or too short series', () => {
+    expect(pearsonCorrelation([1, 1, 1], [1, 2, 3])).toBeNull();
+    expect(pearsonCorrelation([1, 2, 3], [1, 2])).toBeNull();
+    expect(pearsonCorrelation([1], [1])).toBeNull();
+  });
+});
+
+describe('spearmanCorrelation', () => {
+  it('ranks first, so any monotonic relationship is perfect', () => {
+    const x = [1, 2, 3, 4, 5];
+    const y = [1, 4, 9, 16, 100];
+    expect(pearsonCorrelation(x, y)).toBeLessThan(0.9);
+    expect(spearmanCorrelation(x, y)).toBeCloseTo(1, 12);
+  });
+
+  it('gives ties the average of their ranks', () => {
+    expect(rank([10, 20, 20, 30])).toEqual([1, 2.5, 2.5, 4]);
+    expect(rank([3, 1, 2])).toEqual([3, 1, 2]);
+  });
+
+  it('is null for mismatched series', () => {
+    expect(spearmanCorrelation([1, 2, 3], [1, 2])).toBeNull();
+  });
+});
+
+describe('calculateBeta', () => {
+  it('measures the slope of the asset against the benchmark', () => {
+    const benchmark = [0.01, -0.02, 0.03, 0.005];
+    expect(calculateBeta(benchmark.map(value => 2 * value), benchmark)).toBeCloseTo(2, 12);
+    // A constant daily edge changes alpha, not beta
+    expect(calculateBeta(benchmark.map(value => 0.5 * value + 0.01), benchmark)).toBeCloseTo(0.5, 12);
+  });
+
+  it('is null when the benchmark does not move', () => {
+    expect(calculateBeta([0.01, 0.02], [0.01, 0.01])).toBeNull();
+  });
+});
+
+describe('rollingCorrelation', () => {
+  it('is null until the window is full', () => {
+    const result = rollingCorrelation([1, 2, 3, 2, 1], [1, 2, 3, 4, 5], 3);
+    expect(result.slice(0, 2)).toEqual([null, null]);
+    expect(result[2]).toBeCloseTo(1, 12);
+    expect(result[4]).toBeCloseTo(-1, 12);
+  });
+});
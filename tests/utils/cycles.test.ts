@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { CYCLE_PARAMETERS, CYCLE_WARMUP_DAYS, CycleCandle, analyzeCycles } from '../../src/utils/cycles.js';
+
+const candlesFrom = (days: number, close: (i: number) => number): CycleCandle[] =>
+  Array.from({ length: days }, (_, i) => ({
+    date: new Date(Date.UTC(2020, 0, 1 + i)).toISOString().split('T')[0],
+    close: close(i),
+  }));
+
+const spanLengths = (analysis: ReturnType<typeof analyzeCycles>): number[] =>
+  analysis.spans.map(span => span.end_index - span.start_index + 1);
+
+// A slow wave on a gentle uptrend with fast noise on top
+const wave = (i: number): number => 100 + 50 * Math.sin(i / 40) + i * 0.1 + 5 * Math.sin(i * 1.7);
+
+describe('analyzeCycles', () => {
+  it('only classifies days after the warm-up', () => {
+    const candles = candlesFrom(300, i => 100 * 1.01 ** i);
+    const analysis = analyzeCycles(candles);
+
+    expect(CYCLE_WARMUP_DAYS).toBe(220);
+    expect(analysis.days).toHaveLength(80);
+    expect(analysis.days[0].date).toBe(candles[CYCLE_WARMUP_DAYS].date);
+    expect(analyzeCycles(candlesFrom(CYCLE_WARMUP_DAYS, () => 100)).spans).toEqual([]);
+  });
+
+  it('reads a steady uptrend as a single markup phase', () => {
+    const analysis = analyzeCycles(candlesFrom(500, i => 100 * 1.01 ** i));
+
+    expect(analysis.spans).toEqual([{ phase: 'markup', start_index: 0, end_index: 279 }]);
+    expect(analysis.current_confidence).toBe(100);
+  });
+
+  it('moves from markup to markdown when the trend turns', () => {
+    const analysis = analyzeCycles(candlesFrom(900, i => 100 * 1.01 ** Math.min(i, 400) * 0.99 ** Math.max(i - 400, 0)));
+
+    expect(analysis.spans.map(span => span.phase)).toEqual(['markup', 'markdown']);
+    expect(analysis.days[analysis.days.length - 1].drawdown).toBeGreaterThan(CYCLE_PARAMETERS.deep_drawdown);
+  });
+
+  it('folds runs shorter than min_phase_days into a neighbour', () => {
+    const analysis = analyzeCycles(candlesFrom(900, wave));
+    const first = analysis.days[0];
+
+    // The opening days classify as accumulation (best score, first in phase order on ties)
+    // but are too short a run to stand alone
+    expect(first.scores.accumulation).toBe(Math.max(...Object.values(first.scores)));
+    expect(first.phase).toBe('markdown');
+    expect(analysis.spans[0].phase).toBe('markdown');
+    expect(Math.min(...spanLengths(analysis))).toBeGreaterThanOrEqual(CYCLE_PARAMETERS.min_phase_days);
+  });
+
+  it('keeps the spans contiguous and in step with the daily phases', () => {
+    const analysis = analyzeCycles(candlesFrom(900, wave));
+
+    expect(analysis.spans[0].start_index).toBe(0);
+    expect(analysis.spans[analysis.spans.length - 1].end_index).toBe(analysis.days.length - 1);
+    analysis.spans.forEach((span, index) => {
+      if (index > 0) expect(span.start_index).toBe(analysis.spans[index - 1].end_index + 1);
+      expect(span.phase).not.toBe(analysis.spans[index + 1]?.phase);
+      for (let i = span.start_index; i <= span.end_index; i++) {
+        expect(analysis.days[i].phase).toBe(span.phase);
+      }
+    });
+  });
+});
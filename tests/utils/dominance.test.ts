@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DOMINANCE_TREND_THRESHOLD,
+  DominancePoint,
+  dominanceCrossovers,
+  dominanceTrend,
+  toDominancePoint,
+} from '../../src/utils/dominance.js';
+
+const point = (date: string, btc: number, eth: number, stablecoins: number | null): DominancePoint => ({
+  date,
+  btc,
+  eth,
+  stablecoins,
+  others: stablecoins === null ? null : 100 - btc - eth - stablecoins,
+});
+
+describe('toDominancePoint', () => {
+  it('derives stablecoin dominance from the caps and others from the remainder', () => {
+    expect(toDominancePoint({
+      timestamp: '2024-03-01T00:00:00.000Z',
+      btc_dominance: 50,
+      eth_dominance: 15,
+      quote: { USD: { total_market_cap: 2000, stablecoin_market_cap: 200 } },
+    })).toEqual({ date: '2024-03-01', btc: 50, eth: 15, stablecoins: 10, others: 25 });
+  });
+
+  it('leaves stablecoins and others null without stablecoin data', () => {
+    expect(toDominancePoint({
+      btc_dominance: 50,
+      eth_dominance: 15,
+      quote: { USD: { timestamp: '2024-03-02T00:00:00.000Z', total_market_cap: 2000 } },
+    })).toEqual({ date: '2024-03-02', btc: 50, eth: 15, stablecoins: null, others: null });
+  });
+});
+
+describe('dominanceTrend', () => {
+  it('fits a line through the series and scales its slope to the whole span', () => {
+    expect(dominanceTrend([50, 50.2, 50.4, 50.6])).toEqual({
+      start: 50,
+      end: 50.6,
+      change_points: 0.6,
+      fitted_change_points: 0.6,
+      high: 50.6,
+      low: 50,
+      direction: 'rising',
+    });
+    expect(dominanceTrend([20, 19.5, 19.4, 19]).direction).toBe('falling');
+  });
+
+  it('stays flat within the threshold even when the endpoints moved', () => {
+    // A spike on the last of 15 days moves the endpoints by a full point but barely tilts the fit
+    const trend = dominanceTrend([...Array.from({ length: 14 }, (_, i) => (i % 2 === 0 ? 50 : 49.9)), 51]);
+    expect(trend.change_points).toBe(1);
+    expect(Math.abs(trend.fitted_change_points)).toBeLessThanOrEqual(DOMINANCE_TREND_THRESHOLD);
+    expect(trend.direction).toBe('flat');
+    expect(dominanceTrend([42]).direction).toBe('flat');
+  });
+});
+
+describe('dominanceCrossovers', () => {
+  it('reports each change of leader between two series in date order', () => {
+    const events = dominanceCrossovers([
+      point('2024-01-01', 50, 16, 14),
+      point('2024-01-02', 50, 14, 15),
+      point('2024-01-03', 50, 15, 15),
+      point('2024-01-04', 50, 16, 15),
+    ]);
+
+    expect(events).toEqual([
+      {
+        date: '2024-01-02',
+        type: 'crossover',
+        description: 'stablecoins dominance crossed above eth',
+        above: 'stablecoins',
+        below: 'eth',
+        values: { stablecoins: 15, eth: 14 },
+      },
+      {
+        date: '2024-01-04',
+        type: 'crossover',
+        description: 'eth dominance crossed above stablecoins',
+        above: 'eth',
+        below: 'stablecoins',
+        values: { eth: 16, stablecoins: 15 },
+      },
+    ]);
+  });
+
+  it('skips days where either series is unknown', () => {
+    // Others starts below ETH, is unknown on the middle day, then ends above it
+    const events = dominanceCrossovers([
+      point('2024-01-01', 60, 20, 10),
+      point('2024-01-02', 60, 20, null),
+      point('2024-01-03', 60, 10, 5),
+    ]);
+
+    expect(events.map(event => `${event.date} ${event.above}>${event.below}`)).toEqual(['2024-01-03 others>eth']);
+  });
+});
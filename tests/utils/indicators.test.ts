@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateBollingerBands,
+  calculateEMA,
+  calculateMACD,
+  calculateRSI,
+  calculateSMA,
+  lastValue,
+} from '../../src/utils/indicators.js';
+
+// 0, 1, 2, ... n - 1
+const linear = (n: number): number[] => Array.from({ length: n }, (_, i) => i);
+
+describe('calculateSMA', () => {
+  it('averages each trailing window and pads the warm-up with null', () => {
+    expect(calculateSMA([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4]);
+  });
+
+  it('returns only nulls when the series is shorter than the period', () => {
+    expect(calculateSMA([1, 2], 3)).toEqual([null, null]);
+  });
+});
+
+describe('calculateEMA', () => {
+  it('seeds with the SMA of the first period and smooths from there', () => {
+    // Multiplier 2 / (3 + 1) = 0.5
+    expect(calculateEMA([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4]);
+    expect(calculateEMA([2, 4, 6, 12], 3)).toEqual([null, null, 4, 8]);
+  });
+});
+
+describe('calculateRSI', () => {
+  it('uses Wilder smoothing of gains and losses', () => {
+    // First average: gain 0.5, loss 0.5 -> 50
+    // Then gain (0.5 + 1) / 2 = 0.75, loss 0.25 / 1 -> RS 3 -> 75
+    expect(calculateRSI([1, 2, 1, 2], 2)).toEqual([null, null, 50, 75]);
+  });
+
+  it('is 100 without losses and 50 without any movement', () => {
+    expect(lastValue(calculateRSI(linear(20)))).toBe(100);
+    expect(lastValue(calculateRSI(new Array(20).fill(7)))).toBe(50);
+  });
+
+  it('needs period + 1 closes', () => {
+    expect(calculateRSI(linear(14)).every(value => value === null)).toBe(true);
+    expect(calculateRSI(linear(15))[14]).toBe(100);
+  });
+});
+
+describe('calculateMACD', () => {
+  it('settles at the difference of the EMA lags on a linear series', () => {
+    // On a straight line an EMA lags by (period - 1) / 2: 5.5 for 12 and 12.5 for 26
+    const { macd, signal, histogram } = calculateMACD(linear(60));
+
+    expect(macd.findIndex(value => value !== null)).toBe(25);
+    expect(signal.findIndex(value => value !== null)).toBe(33);
+    expect(macd[59]).toBeCloseTo(7, 10);
+    expect(signal[59]).toBeCloseTo(7, 10);
+    expect(histogram[59]).toBeCloseTo(0, 10);
+  });
+
+  it('is flat on a constant series', () => {
+    const { macd, histogram } = calculateMACD(new Array(40).fill(100));
+    expect(lastValue(macd)).toBe(0);
+    expect(lastValue(histogram)).toBe(0);
+  });
+});
+
+describe('calculateBollingerBands', () => {
+  it('puts the bands two population standard deviations around the SMA', () => {
+    const { upper, middle, lower } = calculateBollingerBands([1, 2, 3], 3);
+    const deviation = Math.sqrt(2 / 3);
+
+    expect(middle).toEqual([null, null, 2]);
+    expect(upper[2]).toBeCloseTo(2 + 2 * deviation, 10);
+    expect(lower[2]).toBeCloseTo(2 - 2 * deviation, 10);
+  });
+
+  it('collapses onto the middle band when prices do not move', () => {
+    const { upper, lower } = calculateBollingerBands(new Array(20).fill(50));
+    expect(lastValue(upper)).toBe(50);
+    expect(lastValue(lower)).toBe(50);
+  });
+});
+
+describe('lastValue', () => {
+  it('skips trailing nulls', () => {
+    expect(lastValue([1, 2, null])).toBe(2);
+    expect(lastValue([null, null])).toBeUndefined();
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import {
+  annualizedVolatility,
+  calculateMaxDrawdown,
+  calculateReturns,
+  historicalVaR,
+  inverseNormalCDF,
+  parametricVaR,
+  sharpeRatio,
+  sortinoRatio,
+  standardDeviation,
+} from '../../src/utils/risk.js';
+
+describe('calculateReturns', () => {
+  it('returns simple daily returns and skips non-positive previous closes', () => {
+    const [up, down] = calculateReturns([100, 110, 99]);
+    expect(up).toBeCloseTo(0.1, 12);
+    expect(down).toBeCloseTo(-0.1, 12);
+    expect(calculateReturns([0, 10, 20])).toEqual([1]);
+  });
+});
+
+describe('volatility', () => {
+  it('uses the sample standard deviation annualized over 365 days', () => {
+    expect(standardDeviation([0.01, 0.03])).toBeCloseTo(Math.SQRT2 / 100, 12);
+    expect(annualizedVolatility([0.01, 0.03])).toBeCloseTo((Math.SQRT2 / 100) * Math.sqrt(365), 12);
+  });
+});
+
+describe('sharpeRatio', () => {
+  it('divides the annualized excess return by the annualized volatility', () => {
+    // 0.02 * 365 / (0.01 * sqrt(2) * sqrt(365)) = sqrt(730)
+    expect(sharpeRatio([0.01, 0.03], 0)).toBeCloseTo(Math.sqrt(730), 10);
+    expect(sharpeRatio([0.01, 0.03], 0.73)).toBeCloseTo((7.3 - 0.73) / ((Math.SQRT2 / 100) * Math.sqrt(365)), 10);
+  });
+
+  it('is null without volatility', () => {
+    expect(sharpeRatio([0.01, 0.01, 0.01], 0)).toBeNull();
+  });
+});
+
+describe('sortinoRatio', () => {
+  it('only counts returns below the risk-free rate as risk', () => {
+    // Downside deviation sqrt(0.01^2 / 2); 0.005 * 365 / (0.01 / sqrt(2) * sqrt(365)) = sqrt(182.5)
+    expect(sortinoRatio([0.02, -0.01], 0)).toBeCloseTo(Math.sqrt(182.5), 10);
+  });
+
+  it('is null when no return falls short', () => {
+    expect(sortinoRatio([0.01, 0.02], 0)).toBeNull();
+    expect(sortinoRatio([], 0)).toBeNull();
+  });
+});
+
+describe('calculateMaxDrawdown', () => {
+  it('finds the deepest fall from a running peak and its recovery', () => {
+    expect(calculateMaxDrawdown([100, 120, 90, 110, 130])).toEqual({
+      max_drawdown: 0.25,
+      peak_index: 1,
+      trough_index: 2,
+      recovery_index: 4,
+    });
+  });
+
+  it('leaves the recovery null while still under water', () => {
+    const result = calculateMaxDrawdown([100, 80, 90]);
+    expect(result.max_drawdown).toBeCloseTo(0.2, 12);
+    expect(result.recovery_index).toBeNull();
+  });
+
+  it('is zero for a rising series', () => {
+    expect(calculateMaxDrawdown([1, 2, 3]).max_drawdown).toBe(0);
+  });
+});
+
+describe('historicalVaR', () => {
+  // -5% to +4% in steps of one point
+  const returns = Array.from({ length: 10 }, (_, i) => (i - 5) / 100);
+
+  it('reads the loss at the empirical quantile and averages the tail beyond it', () => {
+    const at90 = historicalVaR(returns, 0.9);
+    expect(at90.var).toBeCloseTo(0.05, 12);
+    expect(at90.cvar).toBeCloseTo(0.05, 12);
+
+    const at80 = historicalVaR(returns, 0.8);
+    expect(at80.var).toBeCloseTo(0.04, 12);
+    expect(at80.cvar).toBeCloseTo(0.045, 12);
+  });
+
+  it('never reports gains as a loss', () => {
+    expect(historicalVaR([0.01, 0.02], 0.95)).toEqual({ var: 0, cvar: 0 });
+    expect(historicalVaR([], 0.95)).toEqual({ var: 0, cvar: 0 });
+  });
+});
+
+describe('parametricVaR', () => {
+  it('matches the normal quantile', () => {
+    expect(inverseNormalCDF(0.975)).toBeCloseTo(1.959964, 6);
+    expect(inverseNormalCDF(0.5)).toBeCloseTo(0, 12);
+    expect(inverseNormalCDF(0.01)).toBeCloseTo(-2.326348, 6);
+  });
+
+  it('scales the standard deviation by the quantile and the tail density', () => {
+    // Mean 0, sample standard deviation 0.01 * sqrt(2)
+    const result = parametricVaR([0.01, -0.01], 0.95);
+    const deviation = Math.SQRT2 / 100;
+    expect(result.var).toBeCloseTo(1.644854 * deviation, 6);
+    expect(result.cvar).toBeCloseTo((deviation * 0.1031356) / 0.05, 6);
+  });
+});
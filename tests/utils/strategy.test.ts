@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import {
+  STRATEGY_PRESETS,
+  StrategyCandle,
+  StrategyDefinition,
+  parseRule,
+  requiredLookback,
+  runBacktest,
+} from '../../src/utils/strategy.js';
+
+const candlesFrom = (closes: number[]): StrategyCandle[] =>
+  closes.map((close, i) => ({
+    date: new Date(Date.UTC(2024, 0, 1 + i)).toISOString().split('T')[0],
+    close,
+    volume: 1000,
+  }));
+
+const strategy = (overrides: Partial<StrategyDefinition>): StrategyDefinition => ({
+  name: 'test',
+  entry: 'close > 10',
+  exit: 'close < 5',
+  confirmations: [],
+  ...overrides,
+});
+
+const options = { start_index: 0, initial_capital: 1000, fee_percent: 0 };
+
+describe('parseRule', () => {
+  it('splits alternatives on or and conjunctions on and', () => {
+    const rule = parseRule('sma20 crosses above sma50 and rsi < 70 or close >= 100');
+
+    expect(rule).toHaveLength(2);
+    expect(rule[0].map(condition => condition.operator)).toEqual(['crosses_above', '<']);
+    expect(rule[0][0].left).toEqual({ kind: 'series', key: 'sma_20' });
+    expect(rule[0][1].left).toEqual({ kind: 'series', key: 'rsi_14' });
+    expect(rule[0][1].right).toEqual({ kind: 'number', value: 70 });
+    expect(rule[1][0]).toEqual({
+      left: { kind: 'series', key: 'close' },
+      operator: '>=',
+      right: { kind: 'number', value: 100 },
+      text: 'close >= 100',
+    });
+  });
+
+  it('accepts operand spellings with periods in brackets or after an underscore', () => {
+    const [[condition]] = parseRule('EMA(12) crosses below ema_26');
+    expect(condition.left).toEqual({ kind: 'series', key: 'ema_12' });
+    expect(condition.operator).toBe('crosses_below');
+    expect(condition.right).toEqual({ kind: 'series', key: 'ema_26' });
+  });
+
+  it('rejects empty rules, unknown operands and missing periods', () => {
+    expect(() => parseRule('  ')).toThrow('Rule cannot be empty');
+    expect(() => parseRule('vwap > 10')).toThrow('Unknown operand \'vwap\'');
+    expect(() => parseRule('sma > close')).toThrow('\'sma\' needs a period');
+    expect(() => parseRule('close above 10')).toThrow('Invalid condition');
+  });
+});
+
+describe('requiredLookback', () => {
+  it('covers the longest indicator plus one day for crossovers', () => {
+    expect(requiredLookback(strategy({ entry: 'sma50 crosses above sma200', exit: 'rsi > 80' }))).toBe(201);
+    // MACD needs 26 + 9 closes
+    expect(requiredLookback(STRATEGY_PRESETS.aggressive)).toBe(36);
+    expect(requiredLookback(strategy({}))).toBe(2);
+  });
+});
+
+describe('runBacktest', () => {
+  it('charges the fee on both the buy and the sell', () => {
+    const result = runBacktest(candlesFrom([8, 12, 18, 4, 6]), strategy({}), { ...options, fee_percent: 1 });
+
+    // 990 buys 82.5 units at 12, which sell at 4 for 330 less 1%
+    expect(result.equity_curve.map(point => point.equity)).toEqual([1000, 990, 1485, 326.7, 326.7]);
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0]).toMatchObject({
+      entry_date: '2024-01-02',
+      entry_price: 12,
+      exit_date: '2024-01-04',
+      exit_price: 4,
+      holding_days: 2,
+      exit_reason: 'signal',
+      open: false,
+    });
+    // (4 * 0.99) / (12 / 0.99) - 1
+    expect(result.trades[0].return_percent).toBeCloseTo(-67.33, 2);
+    expect(result.metrics.final_equity).toBe(326.7);
+    expect(result.metrics.total_return_percent).toBeCloseTo(-67.33, 2);
+    expect(result.signals.map(signal => signal.signal)).toEqual(['buy', 'sell']);
+  });
+
+  it('exits on the stop loss before the exit rule and values an open position at the last close', () => {
+    const result = runBacktest(candlesFrom([8, 12, 11, 10.5, 20]), strategy({ stop_loss_percent: 10 }), options);
+
+    expect(result.trades.map(trade => trade.exit_reason)).toEqual(['stop_loss', 'end_of_period']);
+    expect(result.trades[0].exit_price).toBe(10.5);
+    expect(result.signals[1]).toMatchObject({ signal: 'sell', confidence: 100, reason: 'stop loss (10%)' });
+    expect(result.trades[1]).toMatchObject({ entry_price: 20, exit_price: 20, holding_days: 0, open: true });
+    expect(result.metrics.final_equity).toBe(875);
+  });
+
+  it('takes profit once the gain reaches the target', () => {
+    const result = runBacktest(candlesFrom([8, 12, 14, 16, 18]), strategy({ take_profit_percent: 25 }), options);
+
+    expect(result.trades[0]).toMatchObject({ exit_price: 16, exit_reason: 'take_profit', return_percent: 33.3333 });
+  });
+
+  it('only acts on the day a crossover happens', () => {
+    const result = runBacktest(
+      candlesFrom([8, 12, 13, 9, 11]),
+      strategy({ entry: 'close crosses above 10', exit: 'close crosses below 10' }),
+      options,
+    );
+
+    expect(result.signals.map(signal => `${signal.date} ${signal.signal}`)).toEqual([
+      '2024-01-02 buy',
+      '2024-01-04 sell',
+      '2024-01-05 buy',
+    ]);
+  });
+
+  it('skips the warm-up candles and scores confidence by the confirmations', () => {
+    const result = runBacktest(
+      candlesFrom([20, 20, 8, 12]),
+      strategy({ confirmations: ['close > 11', 'close > 100'] }),
+      { ...options, start_index: 2 },
+    );
+
+    expect(result.equity_curve).toHaveLength(2);
+    expect(result.signals).toEqual([
+      { date: '2024-01-04', signal: 'buy', price: 12, confidence: 75, reason: 'close > 10' },
+    ]);
+    expect(result.metrics.buy_and_hold_return_percent).toBe(50);
+  });
+});